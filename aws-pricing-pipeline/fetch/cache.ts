@@ -0,0 +1,114 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { Transform } from 'stream';
+import chalk from 'chalk';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Raw offer file cache
+ * Remembers the validators of every downloaded offer file so later runs can
+ * send conditional requests and reuse the file on 304 Not Modified
+ *
+ * Stored as raw/cache-index.json, keyed by file path relative to raw/
+ */
+
+export type FetchSource = 'fresh' | 'cache';
+
+export interface CacheEntry {
+    url: string;
+    etag?: string;
+    lastModified?: string;
+    size: number;
+    sha256: string;
+    fetchedAt: string;
+}
+
+interface CacheIndexFile {
+    entries: Record<string, CacheEntry>;
+}
+
+const CACHE_INDEX_FILE = 'cache-index.json';
+
+export class RawCache {
+    private constructor(
+        private readonly rawDir: string,
+        private readonly entries: Record<string, CacheEntry>
+    ) { }
+
+    /**
+     * Load the cache index of a raw directory (empty if none yet)
+     */
+    static load(rawDir: string = 'raw'): RawCache {
+        const indexPath = path.join(rawDir, CACHE_INDEX_FILE);
+
+        if (!fs.existsSync(indexPath)) {
+            return new RawCache(rawDir, {});
+        }
+
+        const index = JSON.parse(fs.readFileSync(indexPath, 'utf-8')) as CacheIndexFile;
+        return new RawCache(rawDir, index.entries || {});
+    }
+
+    /**
+     * Cache entry usable for a conditional request: same URL, and the file on
+     * disk still has the recorded size (a missing or truncated file is refetched)
+     */
+    lookup(fileName: string, url: string): CacheEntry | null {
+        const entry = this.entries[cacheKey(fileName)];
+        if (!entry || entry.url !== url) return null;
+
+        const filePath = path.join(this.rawDir, fileName);
+        if (!fs.existsSync(filePath) || fs.statSync(filePath).size !== entry.size) return null;
+
+        return entry;
+    }
+
+    record(fileName: string, entry: CacheEntry): void {
+        this.entries[cacheKey(fileName)] = entry;
+    }
+
+    save(): void {
+        fs.mkdirSync(this.rawDir, { recursive: true });
+
+        const sorted = Object.fromEntries(Object.entries(this.entries).sort(([a], [b]) => a.localeCompare(b)));
+        const indexPath = path.join(this.rawDir, CACHE_INDEX_FILE);
+        fs.writeFileSync(indexPath, JSON.stringify({ entries: sorted } satisfies CacheIndexFile, null, 2));
+
+        activeLogger().log(chalk.green(`[CACHE] Index written to ${indexPath}`));
+    }
+}
+
+/**
+ * Conditional request headers for a cache entry
+ */
+export function conditionalHeaders(entry: CacheEntry | null): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (entry?.etag) headers['If-None-Match'] = entry.etag;
+    if (entry?.lastModified) headers['If-Modified-Since'] = entry.lastModified;
+
+    return headers;
+}
+
+/**
+ * Pass-through stream that hashes and counts what flows through it
+ */
+export class DigestStream extends Transform {
+    private readonly hash = crypto.createHash('sha256');
+    bytes = 0;
+
+    override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null, data?: Buffer) => void): void {
+        this.hash.update(chunk);
+        this.bytes += chunk.length;
+        callback(null, chunk);
+    }
+
+    digest(): string {
+        return this.hash.digest('hex');
+    }
+}
+
+function cacheKey(fileName: string): string {
+    return fileName.split(path.sep).join('/');
+}
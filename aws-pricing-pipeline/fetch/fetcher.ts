@@ -3,36 +3,152 @@ import fs from 'fs';
 import path from 'path';
 import { pipeline } from 'stream/promises';
 import chalk from 'chalk';
+import { GLOBAL_REGION } from '../normalize/common.js';
+import { readOfferHeader } from '../normalize/offer-stream.js';
+import { RawCache, CacheEntry, conditionalHeaders, DigestStream } from './cache.js';
+import { verifyContentLength, verifyOfferHeader, hashFile } from './integrity.js';
+import { OfferFileProvenance } from './manifest.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Fetch AWS pricing data and save to raw/
  * Uses streaming to handle large files
  * NO RETRIES - fail fast on any error
+ *
+ * Regional offer files are stored as raw/<Service>/<region>.json
+ * Unchanged files are reused from the raw cache (see cache.ts)
+ * Every file is verified before use (see integrity.ts)
  */
 
+const AWS_PRICING_HOST = 'https://pricing.us-east-1.amazonaws.com';
+
 export interface FetchResult {
     service: string;
+    region?: string;
     success: boolean;
     filePath: string;
     error?: string;
+    /** Size, SHA-256 and offer header of the verified file */
+    provenance?: OfferFileProvenance;
+}
+
+/**
+ * AWS region_index.json offer
+ * Lists the current regional offer file for every region a service is sold in
+ *
+ * Savings Plans region indexes list regions as an array of
+ * { regionCode, versionUrl } - fetchRegionIndex normalizes them to this shape.
+ */
+export interface RegionIndex {
+    formatVersion: string;
+    publicationDate: string;
+    regions: Record<string, {
+        regionCode: string;
+        currentVersionUrl: string;
+    }>;
+}
+
+/**
+ * Raw offer directory
+ * Defaults to PRICING_RAW_DIR and then "raw" - point it at an archived snapshot to replay it
+ */
+export function resolveRawDir(spec: string | undefined = process.env.PRICING_RAW_DIR): string {
+    return spec && spec.trim() !== '' ? spec.trim() : 'raw';
+}
+
+/**
+ * Path of the raw offer file for one service in one region
+ */
+export function regionalRawFile(serviceCode: string, region: string, outputDir: string = resolveRawDir()): string {
+    return path.join(outputDir, serviceCode, `${region}.json`);
 }
 
+/**
+ * Derive the region index URL from a service's current/index.json URL
+ * Region index URLs (Savings Plans) are returned unchanged
+ */
+export function toRegionIndexUrl(indexUrl: string): string {
+    if (indexUrl.endsWith('/region_index.json')) {
+        return indexUrl;
+    }
+
+    if (!indexUrl.endsWith('/index.json')) {
+        throw new Error(`[FETCH] Cannot derive region index from URL: ${indexUrl}`);
+    }
+
+    return indexUrl.replace(/\/index\.json$/, '/region_index.json');
+}
+
+/**
+ * Download and parse a service's region_index.json
+ */
+export async function fetchRegionIndex(serviceCode: string, url: string): Promise<RegionIndex> {
+    activeLogger().log(chalk.blue(`[FETCH] ${serviceCode} region index from ${url}`));
+
+    const response = await axios({
+        method: 'GET',
+        url,
+        responseType: 'json',
+        timeout: 60000,
+        headers: {
+            'Accept': 'application/json',
+        },
+    });
+
+    if (response.status !== 200) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const index = response.data;
+
+    if (!index || typeof index.regions !== 'object' || index.regions === null) {
+        throw new Error(`[FETCH] ${serviceCode} region index has no "regions" map`);
+    }
+
+    if (Array.isArray(index.regions)) {
+        const regions: RegionIndex['regions'] = {};
+
+        for (const entry of index.regions as Array<{ regionCode?: string; versionUrl?: string }>) {
+            if (!entry.regionCode || !entry.versionUrl) {
+                throw new Error(`[FETCH] ${serviceCode} region index entry without regionCode/versionUrl`);
+            }
+            regions[entry.regionCode] = { regionCode: entry.regionCode, currentVersionUrl: entry.versionUrl };
+        }
+
+        return { ...index, regions } as RegionIndex;
+    }
+
+    return index as RegionIndex;
+}
+
+/**
+ * Download one offer file
+ * With a cache, sends a conditional request and reuses the cached file on 304.
+ * Downloads stream to a temporary file that replaces the cached one only once
+ * complete and verified: body size against Content-Length, offer header fields.
+ * A reused file must still match its recorded SHA-256.
+ */
 export async function fetchPricingData(
     serviceCode: string,
     url: string,
-    outputDir: string = 'raw'
+    outputDir: string = 'raw',
+    fileName: string = `${serviceCode}.json`,
+    cache: RawCache | null = null
 ): Promise<FetchResult> {
-    const fileName = `${serviceCode}.json`;
     const filePath = path.join(outputDir, fileName);
+    const tempPath = `${filePath}.download`;
 
-    console.log(chalk.blue(`[FETCH] ${serviceCode} from ${url}`));
+    activeLogger().log(chalk.blue(`[FETCH] ${serviceCode} from ${url}`));
 
     try {
         // Ensure output directory exists
-        if (!fs.existsSync(outputDir)) {
-            fs.mkdirSync(outputDir, { recursive: true });
+        const fileDir = path.dirname(filePath);
+        if (!fs.existsSync(fileDir)) {
+            fs.mkdirSync(fileDir, { recursive: true });
         }
 
+        const cached = cache ? cache.lookup(fileName, url) : null;
+
         // Stream download to file
         const response = await axios({
             method: 'GET',
@@ -41,35 +157,90 @@ export async function fetchPricingData(
             timeout: 300000, // 5 minutes timeout
             headers: {
                 'Accept': 'application/json',
+                // Content-Length must describe the bytes written to disk
+                'Accept-Encoding': 'identity',
+                ...conditionalHeaders(cached),
             },
+            validateStatus: status => status === 200 || (status === 304 && cached !== null),
         });
 
+        // Not modified - the cached file is current
+        if (response.status === 304) {
+            response.data.resume();
+
+            const sha256 = await hashFile(filePath);
+            if (sha256 !== cached!.sha256) {
+                throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Cached ${filePath} does not match its recorded SHA-256`);
+            }
+
+            const header = verifyOfferHeader(serviceCode, await readOfferHeader(filePath), isSavingsPlanUrl(url));
+
+            const sizeMB = (cached!.size / (1024 * 1024)).toFixed(2);
+            activeLogger().log(chalk.green(`[FETCH CACHED] ${serviceCode} (${sizeMB} MB, not modified) -> ${filePath}`));
+
+            return {
+                service: serviceCode,
+                success: true,
+                filePath,
+                provenance: { ...header, url, source: 'cache', size: cached!.size, sha256 },
+            };
+        }
+
         // Validate HTTP 200
         if (response.status !== 200) {
             throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        // Stream to file
-        const writer = fs.createWriteStream(filePath);
-        await pipeline(response.data, writer);
+        const encoding = response.headers['content-encoding'];
+        if (typeof encoding === 'string' && encoding !== 'identity') {
+            throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Unexpected Content-Encoding "${encoding}"`);
+        }
+
+        // Stream to file, hashing on the way
+        const digest = new DigestStream();
+        const writer = fs.createWriteStream(tempPath);
+        await pipeline(response.data, digest, writer);
 
-        const stats = fs.statSync(filePath);
-        const sizeMB = (stats.size / (1024 * 1024)).toFixed(2);
+        // Verify before the file can replace a good cached copy
+        verifyContentLength(serviceCode, response.headers['content-length'], digest.bytes);
+        const header = verifyOfferHeader(serviceCode, await readOfferHeader(tempPath), isSavingsPlanUrl(url));
+        const sha256 = digest.digest();
 
-        console.log(chalk.green(`[FETCH SUCCESS] ${serviceCode} (${sizeMB} MB) -> ${filePath}`));
+        fs.renameSync(tempPath, filePath);
+
+        const sizeMB = (digest.bytes / (1024 * 1024)).toFixed(2);
+
+        if (cache) {
+            const entry: CacheEntry = {
+                url,
+                size: digest.bytes,
+                sha256,
+                fetchedAt: new Date().toISOString(),
+            };
+
+            const etag = response.headers['etag'];
+            const lastModified = response.headers['last-modified'];
+            if (typeof etag === 'string') entry.etag = etag;
+            if (typeof lastModified === 'string') entry.lastModified = lastModified;
+
+            cache.record(fileName, entry);
+        }
+
+        activeLogger().log(chalk.green(`[FETCH SUCCESS] ${serviceCode} (${sizeMB} MB) -> ${filePath}`));
 
         return {
             service: serviceCode,
             success: true,
             filePath,
+            provenance: { ...header, url, source: 'fresh', size: digest.bytes, sha256 },
         };
     } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error(chalk.red(`[FETCH FAILED] ${serviceCode}: ${errorMsg}`));
+        activeLogger().error(chalk.red(`[FETCH FAILED] ${serviceCode}: ${errorMsg}`));
 
         // Clean up partial file
-        if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
+        if (fs.existsSync(tempPath)) {
+            fs.unlinkSync(tempPath);
         }
 
         return {
@@ -81,15 +252,101 @@ export async function fetchPricingData(
     }
 }
 
+/**
+ * Savings Plans offer files carry a reduced header (no formatVersion / offerCode)
+ */
+export function isSavingsPlanUrl(url: string): boolean {
+    return url.includes('/savingsPlan/');
+}
+
+/**
+ * Fetch the regional offer files of one service
+ * Resolves each region through region_index.json - only the requested regions are downloaded.
+ * The "global" region downloads the service's full current/index.json instead.
+ */
+export async function fetchRegionalPricingData(
+    serviceCode: string,
+    indexUrl: string,
+    regions: string[],
+    outputDir: string = 'raw',
+    cache: RawCache | null = null
+): Promise<FetchResult[]> {
+    const failAll = (error: string): FetchResult[] => regions.map(region => ({
+        service: serviceCode,
+        region,
+        success: false,
+        filePath: regionalRawFile(serviceCode, region, outputDir),
+        error,
+    }));
+
+    let index: RegionIndex | null = null;
+
+    if (regions.some(region => region !== GLOBAL_REGION)) {
+        try {
+            index = await fetchRegionIndex(serviceCode, toRegionIndexUrl(indexUrl));
+        } catch (error) {
+            const errorMsg = error instanceof Error ? error.message : String(error);
+            activeLogger().error(chalk.red(`[FETCH FAILED] ${serviceCode} region index: ${errorMsg}`));
+            return failAll(`Region index: ${errorMsg}`);
+        }
+    }
+
+    const results: FetchResult[] = [];
+
+    for (const region of regions) {
+        if (region === GLOBAL_REGION) {
+            const result = await fetchPricingData(
+                serviceCode,
+                indexUrl,
+                outputDir,
+                path.join(serviceCode, `${GLOBAL_REGION}.json`),
+                cache
+            );
+
+            results.push({ ...result, region });
+            continue;
+        }
+
+        const entry = index?.regions[region];
+
+        if (!entry) {
+            activeLogger().error(chalk.red(`[FETCH FAILED] ${serviceCode}: ${region} not listed in region_index.json`));
+            results.push({
+                service: serviceCode,
+                region,
+                success: false,
+                filePath: regionalRawFile(serviceCode, region, outputDir),
+                error: `Region ${region} not listed in region_index.json`,
+            });
+            continue;
+        }
+
+        const result = await fetchPricingData(
+            serviceCode,
+            `${AWS_PRICING_HOST}${entry.currentVersionUrl}`,
+            outputDir,
+            path.join(serviceCode, `${region}.json`),
+            cache
+        );
+
+        results.push({ ...result, region });
+    }
+
+    return results;
+}
+
 /**
  * Fetch multiple services in parallel
- * Fails if ANY service fails
+ * Fails if ANY service/region fails
  */
 export async function fetchAllServices(
-    services: Array<{ code: string; url: string }>,
-    concurrency: number = 5
+    services: Array<{ code: string; url: string; regions: string[] }>,
+    concurrency: number = 5,
+    outputDir: string = 'raw'
 ): Promise<FetchResult[]> {
-    console.log(chalk.bold(`\n[FETCH] Starting download of ${services.length} services...\n`));
+    const cache = RawCache.load(outputDir);
+    const fileCount = services.reduce((sum, s) => sum + s.regions.length, 0);
+    activeLogger().log(chalk.bold(`\n[FETCH] Starting download of ${services.length} services (${fileCount} files)...\n`));
 
     const results: FetchResult[] = [];
 
@@ -97,23 +354,27 @@ export async function fetchAllServices(
     for (let i = 0; i < services.length; i += concurrency) {
         const batch = services.slice(i, i + concurrency);
         const batchResults = await Promise.all(
-            batch.map(s => fetchPricingData(s.code, s.url))
+            batch.map(s => fetchRegionalPricingData(s.code, s.url, s.regions, outputDir, cache))
         );
-        results.push(...batchResults);
+        results.push(...batchResults.flat());
     }
 
+    // Persist validators of everything downloaded, even if some files failed
+    cache.save();
+
     // Check for failures
     const failures = results.filter(r => !r.success);
 
     if (failures.length > 0) {
-        console.error(chalk.red.bold(`\n[FETCH FAILED] ${failures.length} service(s) failed:\n`));
+        activeLogger().error(chalk.red.bold(`\n[FETCH FAILED] ${failures.length} file(s) failed:\n`));
         failures.forEach(f => {
-            console.error(chalk.red(`  - ${f.service}: ${f.error}`));
+            activeLogger().error(chalk.red(`  - ${f.service} (${f.region}): ${f.error}`));
         });
-        throw new Error(`[FETCH FAILED] ${failures.length} service(s) failed to download. Pipeline aborted.`);
+        throw new Error(`[FETCH FAILED] ${failures.length} file(s) failed to download. Pipeline aborted.`);
     }
 
-    console.log(chalk.green.bold(`\n[FETCH SUCCESS] All ${services.length} services downloaded successfully\n`));
+    const cachedCount = results.filter(r => r.provenance?.source === 'cache').length;
+    activeLogger().log(chalk.green.bold(`\n[FETCH SUCCESS] All ${services.length} services downloaded (${fileCount} files, ${cachedCount} from cache)\n`));
 
     return results;
 }
@@ -1,51 +1,107 @@
-import fs from 'fs';
-import path from 'path';
-import { getEnabledServices } from '../registry/service-registry.js';
-import { fetchAllServices } from './fetcher.js';
+import { getEnabledServices, getServiceByCode } from '../registry/service-registry.js';
+import { ServicePlugin, pluginRegions } from '../registry/plugin.js';
+import { GLOBAL_REGION } from '../normalize/common.js';
+import { offerIndexUrl } from './services.js';
+import { fetchAllServices, resolveRawDir } from './fetcher.js';
 import { generateManifest, validateManifest, writeManifest, DownloadResult } from './manifest.js';
 
+export interface FetchJob {
+    code: string;
+    url: string;
+    regions: string[];
+}
+
+/**
+ * Offer files the selected services need, per service code: each plugin's regions,
+ * plus the global offer of every service a plugin reads as an additional offer
+ */
+export function planFetchJobs(
+    regions: string[],
+    plugins: ServicePlugin[] = getEnabledServices()
+): FetchJob[] {
+    const jobs = new Map<string, FetchJob>();
+
+    const addJob = (code: string, url: string, jobRegions: string[]) => {
+        const job = jobs.get(code) || { code, url, regions: [] };
+        for (const region of jobRegions) {
+            if (!job.regions.includes(region)) {
+                job.regions.push(region);
+            }
+        }
+        jobs.set(code, job);
+    };
+
+    for (const service of plugins) {
+        addJob(service.code, service.fetchUrl, pluginRegions(service, regions));
+    }
+
+    for (const service of plugins) {
+        for (const code of service.additionalOffers || []) {
+            addJob(code, getServiceByCode(code)?.fetchUrl || offerIndexUrl(code), [GLOBAL_REGION]);
+        }
+    }
+
+    return Array.from(jobs.values());
+}
+
 /**
- * Fetch all enabled services from ServiceRegistry
+ * Codes of the fetched services that have a plugin
+ * (additional offers are inputs to other processors, not services of their own)
+ */
+export function pluginServiceCodes(
+    downloaded: string[],
+    plugins: ServicePlugin[] = getEnabledServices()
+): string[] {
+    return downloaded.filter(code => plugins.some(s => s.code === code));
+}
+
+/**
+ * Fetch all enabled services from ServiceRegistry (or a selection) for the given regions
  * Returns array of successfully fetched service codes
  * Generates download manifest and validates all downloads
  */
-export async function fetchAll(): Promise<string[]> {
-    const enabledServices = getEnabledServices();
-
-    const servicesToFetch = enabledServices.map(s => ({
-        code: s.code,
-        name: s.name,
-        url: s.fetchUrl,
-        enabled: true,
-    }));
+export async function fetchAll(
+    regions: string[],
+    rawDir: string = resolveRawDir(),
+    plugins: ServicePlugin[] = getEnabledServices()
+): Promise<string[]> {
+    const servicesToFetch = planFetchJobs(regions, plugins);
 
     // Fetch all services (throws on failure)
-    const fetchResults = await fetchAllServices(
-        servicesToFetch.map(s => ({ code: s.code, url: s.url }))
-    );
-
-    // Convert FetchResult[] to DownloadResult[]
-    const downloadResults: DownloadResult[] = fetchResults.map(r => ({
-        service: r.service,
-        success: r.success,
-        error: r.error,
-    }));
-
-    // Validate all files exist and are non-empty
+    const fetchResults = await fetchAllServices(servicesToFetch, 5, rawDir);
+
+    // Collapse per-region FetchResult[] into one DownloadResult per service
+    const downloadResults: DownloadResult[] = servicesToFetch.map(s => {
+        const serviceResults = fetchResults.filter(r => r.service === s.code);
+        const failure = serviceResults.find(r => !r.success);
+
+        const result: DownloadResult = {
+            service: s.code,
+            success: !failure,
+            regions: serviceResults.filter(r => r.success && r.region).map(r => r.region!),
+            files: Object.fromEntries(
+                serviceResults
+                    .filter(r => r.success && r.region && r.provenance)
+                    .map(r => [r.region!, r.provenance!])
+            ),
+        };
+
+        if (failure?.error) {
+            result.error = failure.error;
+        }
+
+        return result;
+    });
+
+    // Validate every region file was verified (size, SHA-256, offer header)
     for (const result of downloadResults) {
-        if (result.success) {
-            const filePath = path.join('raw', `${result.service}.json`);
-
-            if (!fs.existsSync(filePath)) {
-                result.success = false;
-                result.error = 'File not found after download';
-            } else {
-                const stats = fs.statSync(filePath);
-                if (stats.size === 0) {
-                    result.success = false;
-                    result.error = 'File is empty (0 bytes)';
-                }
-            }
+        if (!result.success) continue;
+
+        const job = servicesToFetch.find(s => s.code === result.service)!;
+        const unverified = job.regions.find(region => !result.files[region]);
+        if (unverified) {
+            result.success = false;
+            result.error = `${unverified}: File not verified after download`;
         }
     }
 
@@ -53,11 +109,11 @@ export async function fetchAll(): Promise<string[]> {
     const manifest = generateManifest(downloadResults);
 
     // Write manifest to disk
-    writeManifest(manifest);
+    writeManifest(manifest, rawDir);
 
     // Validate manifest (throws if any failures)
     validateManifest(manifest);
 
-    // Return codes of all successfully downloaded services
-    return manifest.downloaded;
+    // Return codes of all successfully downloaded services with a plugin
+    return pluginServiceCodes(manifest.downloaded, plugins);
 }
@@ -0,0 +1,95 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { OfferHeader } from '../normalize/offer-stream.js';
+
+/**
+ * Download integrity checks
+ * A truncated body or an HTML error page must fail the fetch stage,
+ * not surface later as a JSON.parse error inside a processor
+ */
+
+/**
+ * Offer header fields recorded in the manifest
+ */
+export interface VerifiedOfferHeader {
+    formatVersion?: string;
+    offerCode?: string;
+    version: string;
+    publicationDate: string;
+}
+
+/**
+ * Body size must match Content-Length when the server sends one
+ */
+export function verifyContentLength(
+    serviceCode: string,
+    contentLength: unknown,
+    bytes: number
+): void {
+    if (contentLength === undefined || contentLength === null || contentLength === '') {
+        return;
+    }
+
+    const expected = Number(contentLength);
+
+    if (!Number.isInteger(expected) || expected < 0) {
+        throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Invalid Content-Length "${contentLength}"`);
+    }
+
+    if (expected !== bytes) {
+        throw new Error(
+            `[INTEGRITY FAILED] ${serviceCode}: Received ${bytes} bytes, Content-Length is ${expected} (truncated download)`
+        );
+    }
+}
+
+/**
+ * Offer files must carry formatVersion, offerCode, version and publicationDate,
+ * and offerCode must be the requested service
+ * Savings Plans offer files only carry version and publicationDate
+ */
+export function verifyOfferHeader(
+    serviceCode: string,
+    header: OfferHeader,
+    savingsPlan: boolean
+): VerifiedOfferHeader {
+    const required: Array<keyof OfferHeader> = savingsPlan
+        ? ['version', 'publicationDate']
+        : ['formatVersion', 'offerCode', 'version', 'publicationDate'];
+
+    const missing = required.filter(field => !header[field]);
+    if (missing.length > 0) {
+        throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Offer header missing ${missing.join(', ')}`);
+    }
+
+    if (header.offerCode && header.offerCode !== serviceCode) {
+        throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Offer file is for ${header.offerCode}`);
+    }
+
+    if (Number.isNaN(Date.parse(header.publicationDate!))) {
+        throw new Error(`[INTEGRITY FAILED] ${serviceCode}: Invalid publicationDate "${header.publicationDate}"`);
+    }
+
+    const verified: VerifiedOfferHeader = {
+        version: header.version!,
+        publicationDate: header.publicationDate!,
+    };
+
+    if (header.formatVersion) verified.formatVersion = header.formatVersion;
+    if (header.offerCode) verified.offerCode = header.offerCode;
+
+    return verified;
+}
+
+/**
+ * SHA-256 of a file on disk
+ */
+export async function hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+
+    for await (const chunk of fs.createReadStream(filePath)) {
+        hash.update(chunk);
+    }
+
+    return hash.digest('hex');
+}
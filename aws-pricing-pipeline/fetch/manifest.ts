@@ -1,21 +1,44 @@
 import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
+import { FetchSource } from './cache.js';
+import { VerifiedOfferHeader } from './integrity.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Download Manifest
- * Tracks which services were successfully downloaded
+ * Tracks which services were successfully downloaded, and the provenance
+ * of every offer file: URL, size, SHA-256 and the AWS offer publication
  */
 
+/**
+ * Provenance of one verified offer file (raw/<Service>/<region>.json)
+ */
+export interface OfferFileProvenance extends VerifiedOfferHeader {
+    url: string;
+    /** Downloaded now, or reused from the raw cache on 304 */
+    source: FetchSource;
+    size: number;
+    sha256: string;
+}
+
 export interface DownloadResult {
     service: string;
     success: boolean;
     error?: string;
+    /** Regional offer files fetched for this service */
+    regions: string[];
+    /** Region → provenance of its verified offer file */
+    files: Record<string, OfferFileProvenance>;
 }
 
 export interface DownloadManifest {
     downloaded: string[];
     failed: string[];
+    /** Service code → regions whose offer file was fetched (raw/<Service>/<region>.json) */
+    regions: Record<string, string[]>;
+    /** Service code → region → offer file provenance ("fresh" download or reused from "cache") */
+    files: Record<string, Record<string, OfferFileProvenance>>;
     timestamp: string;
 }
 
@@ -31,9 +54,18 @@ export function generateManifest(results: DownloadResult[]): DownloadManifest {
         .filter(r => !r.success)
         .map(r => r.service);
 
+    const regions: Record<string, string[]> = {};
+    const files: Record<string, Record<string, OfferFileProvenance>> = {};
+    for (const result of results.filter(r => r.success)) {
+        regions[result.service] = [...result.regions];
+        files[result.service] = { ...result.files };
+    }
+
     return {
         downloaded,
         failed,
+        regions,
+        files,
         timestamp: new Date().toISOString(),
     };
 }
@@ -73,11 +105,16 @@ export function writeManifest(manifest: DownloadManifest, outputDir: string = 'r
     const manifestPath = path.join(outputDir, 'download-manifest.json');
     fs.writeFileSync(manifestPath, JSON.stringify(manifest, null, 2));
 
-    console.log(chalk.green(`[MANIFEST] Written to ${manifestPath}`));
-    console.log(chalk.blue(`[MANIFEST] Downloaded: ${manifest.downloaded.length} services`));
+    activeLogger().log(chalk.green(`[MANIFEST] Written to ${manifestPath}`));
+    activeLogger().log(chalk.blue(`[MANIFEST] Downloaded: ${manifest.downloaded.length} services`));
+
+    const cachedFiles = Object.values(manifest.files).flatMap(Object.values).filter(f => f.source === 'cache').length;
+    if (cachedFiles > 0) {
+        activeLogger().log(chalk.blue(`[MANIFEST] Reused from cache: ${cachedFiles} file(s)`));
+    }
 
     if (manifest.failed.length > 0) {
-        console.log(chalk.red(`[MANIFEST] Failed: ${manifest.failed.length} services`));
+        activeLogger().log(chalk.red(`[MANIFEST] Failed: ${manifest.failed.length} services`));
     }
 }
 
@@ -0,0 +1,119 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import { readOfferHeader } from '../normalize/offer-stream.js';
+import { getEnabledServices } from '../registry/service-registry.js';
+import { ServicePlugin } from '../registry/plugin.js';
+import { regionalRawFile, isSavingsPlanUrl } from './fetcher.js';
+import { verifyOfferHeader, hashFile } from './integrity.js';
+import { readManifest, DownloadManifest } from './manifest.js';
+import { planFetchJobs, pluginServiceCodes } from './index.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Offline replay
+ * Stands in for the fetch stage: verifies an existing raw directory (e.g. an
+ * archived snapshot) against its download manifest, without any network access.
+ * Processing, validation, diffing and versioning then run unchanged.
+ *
+ * Every offer file the enabled services need for the requested regions must be
+ * listed in the manifest and still match its recorded size, SHA-256 and offer header.
+ */
+
+/**
+ * Verify one offer file against its manifest provenance
+ * Returns a problem description, or null if the file is intact
+ */
+async function verifySnapshotFile(
+    manifest: DownloadManifest,
+    code: string,
+    region: string,
+    rawDir: string
+): Promise<string | null> {
+    const provenance = manifest.files[code]?.[region];
+
+    if (!provenance) {
+        return `${code} (${region}): Not listed in the snapshot manifest`;
+    }
+
+    const filePath = regionalRawFile(code, region, rawDir);
+
+    if (!fs.existsSync(filePath)) {
+        return `${code} (${region}): File not found: ${filePath}`;
+    }
+
+    const size = fs.statSync(filePath).size;
+    if (size !== provenance.size) {
+        return `${code} (${region}): ${size} bytes, manifest records ${provenance.size}`;
+    }
+
+    if (await hashFile(filePath) !== provenance.sha256) {
+        return `${code} (${region}): SHA-256 does not match the manifest`;
+    }
+
+    const header = verifyOfferHeader(code, await readOfferHeader(filePath), isSavingsPlanUrl(provenance.url));
+
+    if (header.version !== provenance.version || header.publicationDate !== provenance.publicationDate) {
+        return `${code} (${region}): Offer ${header.version} (${header.publicationDate}), ` +
+            `manifest records ${provenance.version} (${provenance.publicationDate})`;
+    }
+
+    return null;
+}
+
+/**
+ * Replay a raw snapshot for the given regions
+ * Returns the codes of the replayed services with a plugin, like fetchAll
+ * CRASHES if any required offer file is missing or differs from the manifest
+ */
+export async function replaySnapshot(
+    regions: string[],
+    rawDir: string,
+    plugins: ServicePlugin[] = getEnabledServices()
+): Promise<string[]> {
+    activeLogger().log(chalk.blue(`[REPLAY] Verifying raw snapshot ${rawDir} (no network)`));
+
+    const manifest = readManifest(rawDir);
+
+    if (manifest.failed.length > 0) {
+        throw new Error(`[REPLAY FAILED] Snapshot manifest lists failed downloads: ${manifest.failed.join(', ')}`);
+    }
+
+    if (!manifest.files) {
+        throw new Error(
+            `[REPLAY FAILED] Snapshot manifest at ${rawDir} has no file provenance. ` +
+            `Fetch it again to record sizes and SHA-256 hashes.`
+        );
+    }
+
+    const jobs = planFetchJobs(regions, plugins);
+    const problems: string[] = [];
+    let fileCount = 0;
+
+    for (const job of jobs) {
+        if (!manifest.downloaded.includes(job.code)) {
+            problems.push(`${job.code}: Not downloaded in this snapshot`);
+            continue;
+        }
+
+        for (const region of job.regions) {
+            const problem = await verifySnapshotFile(manifest, job.code, region, rawDir);
+
+            if (problem) {
+                problems.push(problem);
+            } else {
+                fileCount++;
+            }
+        }
+    }
+
+    if (problems.length > 0) {
+        const lines = problems.map(p => `  - ${p}`).join('\n');
+        throw new Error(`[REPLAY FAILED] ${problems.length} offer file(s) do not match the snapshot manifest:\n${lines}`);
+    }
+
+    activeLogger().log(chalk.green(
+        `[REPLAY] ${fileCount} offer file(s) verified against manifest of ${manifest.timestamp}`
+    ));
+
+    return pluginServiceCodes(jobs.map(job => job.code), plugins);
+}
@@ -13,6 +13,22 @@ export interface ServiceDefinition {
 }
 
 const AWS_PRICING_BASE = 'https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws';
+const AWS_SAVINGS_PLAN_BASE = 'https://pricing.us-east-1.amazonaws.com/savingsPlan/v1.0/aws';
+
+/**
+ * Current offer index URL for a service code
+ */
+export function offerIndexUrl(code: string): string {
+    return `${AWS_PRICING_BASE}/${code}/current/index.json`;
+}
+
+/**
+ * Current region index URL for a Savings Plans offer code
+ * Savings Plans offers are regional only - there is no global current/index.json
+ */
+export function savingsPlanIndexUrl(code: string): string {
+    return `${AWS_SAVINGS_PLAN_BASE}/${code}/current/region_index.json`;
+}
 
 export const SERVICES: ServiceDefinition[] = [
     // Compute
@@ -344,6 +360,14 @@ export const SERVICES: ServiceDefinition[] = [
         url: `${AWS_PRICING_BASE}/AmazonPinpoint/current/index.json`,
         enabled: true,
     },
+
+    // Savings Plans
+    {
+        code: 'AWSComputeSavingsPlan',
+        name: 'Compute Savings Plans',
+        url: savingsPlanIndexUrl('AWSComputeSavingsPlan'),
+        enabled: true,
+    },
 ];
 
 /**
@@ -0,0 +1,13 @@
+/**
+ * Jest runs the TypeScript sources as ES modules (see the test script in package.json)
+ * Imports keep their .js suffix in the sources, so they are mapped back to the .ts files
+ */
+export default {
+    preset: 'ts-jest/presets/default-esm',
+    testEnvironment: 'node',
+    extensionsToTreatAsEsm: ['.ts'],
+    moduleNameMapper: {
+        '^(\\.{1,2}/.*)\\.js$': '$1',
+    },
+    testPathIgnorePatterns: ['/node_modules/', '/dist/'],
+};
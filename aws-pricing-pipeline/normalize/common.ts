@@ -39,6 +39,147 @@ export function normalizeRegion(awsRegion: string): string {
     return normalized;
 }
 
+/**
+ * Region key for globally priced services (e.g. CloudFront)
+ */
+export const GLOBAL_REGION = 'global';
+
+/**
+ * Normalize CloudFront edge location groups
+ * CloudFront prices by edge geography, not by region
+ */
+const EDGE_GEOGRAPHY_MAP: Record<string, string> = {
+    'United States': 'unitedStates',
+    'Canada': 'canada',
+    'Europe': 'europe',
+    'Israel': 'israel',
+    'South Africa': 'southAfrica',
+    'Middle East': 'middleEast',
+    'South America': 'southAmerica',
+    'Japan': 'japan',
+    'Australia': 'australia',
+    'New Zealand': 'newZealand',
+    'Asia Pacific': 'asiaPacific',
+    'India': 'india',
+    'Indonesia': 'indonesia',
+};
+
+export function normalizeEdgeGeography(awsLocation: string): string {
+    const normalized = EDGE_GEOGRAPHY_MAP[awsLocation];
+    if (!normalized) {
+        throw new Error(
+            `[EDGE GEOGRAPHY NORMALIZATION FAILED] Unknown CloudFront edge location: "${awsLocation}". ` +
+            `Add mapping to EDGE_GEOGRAPHY_MAP.`
+        );
+    }
+
+    return normalized;
+}
+
+/**
+ * Every region code the pipeline knows how to price
+ */
+export const KNOWN_REGIONS: string[] = Object.values(REGION_MAP);
+
+/**
+ * Regions priced when PRICING_REGIONS is not set
+ */
+export const DEFAULT_REGIONS: string[] = ['us-east-1', 'eu-west-1', 'ap-southeast-2'];
+
+/**
+ * Resolve the set of regions to price
+ * Accepts a comma-separated list (e.g. "us-east-1,eu-west-1"), defaulting to
+ * PRICING_REGIONS and then DEFAULT_REGIONS. CRASHES on unknown region codes.
+ */
+export function resolveRegions(spec: string | undefined = process.env.PRICING_REGIONS): string[] {
+    if (!spec || spec.trim() === '') {
+        return [...DEFAULT_REGIONS];
+    }
+
+    const regions: string[] = [];
+
+    for (const entry of spec.split(',')) {
+        const region = entry.trim();
+        if (region === '') continue;
+
+        if (!KNOWN_REGIONS.includes(region)) {
+            throw new Error(
+                `[REGION CONFIG FAILED] Unknown region "${region}". ` +
+                `Known regions: ${KNOWN_REGIONS.join(', ')}`
+            );
+        }
+
+        if (!regions.includes(region)) {
+            regions.push(region);
+        }
+    }
+
+    if (regions.length === 0) {
+        throw new Error(`[REGION CONFIG FAILED] No regions in "${spec}"`);
+    }
+
+    return regions;
+}
+
+/**
+ * Check whether an AWS location name refers to the given region
+ * Unknown locations (edge locations, "External", unmapped regions) never match
+ */
+export function isRegionLocation(awsLocation: string | undefined, region: string): boolean {
+    if (!awsLocation) {
+        return false;
+    }
+
+    try {
+        return normalizeRegion(awsLocation) === region;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * AWS usage type prefixes by region
+ * Usage types are "<PREFIX>-<Name>" (e.g. "EUW2-TimedStorage-ByteHrs");
+ * us-east-1 usage types are usually unprefixed
+ */
+const USAGE_TYPE_PREFIX: Record<string, string> = {
+    'us-east-1': 'USE1',
+    'us-east-2': 'USE2',
+    'us-west-1': 'USW1',
+    'us-west-2': 'USW2',
+    'eu-west-1': 'EU',
+    'eu-central-1': 'EUC1',
+    'eu-west-2': 'EUW2',
+    'eu-west-3': 'EUW3',
+    'eu-north-1': 'EUN1',
+    'ap-northeast-1': 'APN1',
+    'ap-northeast-2': 'APN2',
+    'ap-southeast-1': 'APS1',
+    'ap-southeast-2': 'APS2',
+    'ap-south-1': 'APS3',
+    'ca-central-1': 'CAN1',
+    'ca-west-1': 'CAW1',
+    'sa-east-1': 'SAE1',
+};
+
+/**
+ * Strip the region prefix from an AWS usage type
+ * "APS2-ReadCapacityUnit-Hrs" → "ReadCapacityUnit-Hrs"
+ */
+export function stripUsageTypePrefix(usagetype: string, region: string): string {
+    if (region === GLOBAL_REGION) {
+        return usagetype;
+    }
+
+    const prefix = USAGE_TYPE_PREFIX[region];
+
+    if (!prefix) {
+        throw new Error(`[REGION NORMALIZATION FAILED] No usage type prefix for region "${region}". Add mapping to USAGE_TYPE_PREFIX.`);
+    }
+
+    return usagetype.startsWith(`${prefix}-`) ? usagetype.slice(prefix.length + 1) : usagetype;
+}
+
 /**
  * Validate currency (must be USD)
  */
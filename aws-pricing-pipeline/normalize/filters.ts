@@ -12,7 +12,7 @@ export interface SKUFilter {
 
 /**
  * EC2 SKU Filters
- * Only Linux, Shared Tenancy, On-Demand instances
+ * Only Linux, Shared Tenancy instances (On-Demand and Reserved terms)
  */
 export const EC2_FILTERS: SKUFilter[] = [
     {
@@ -28,7 +28,7 @@ export const EC2_FILTERS: SKUFilter[] = [
     {
         field: 'capacitystatus',
         allowedValues: ['Used', 'UnusedCapacityReservation'],
-        description: 'On-Demand only (no Spot)',
+        description: 'Shared capacity only (no Spot)',
     },
     {
         field: 'preInstalledSw',
@@ -39,19 +39,26 @@ export const EC2_FILTERS: SKUFilter[] = [
 
 /**
  * S3 SKU Filters
- * Standard storage classes, no special configurations
+ * Components are then selected by usage type; the S3 offer files Glacier Deep Archive
+ * and data transfer SKUs under their own service codes
  */
 export const S3_FILTERS: SKUFilter[] = [
     {
-        field: 'storageClass',
-        allowedValues: [
-            'General Purpose',
-            'Infrequent Access',
-            'Archive',
-            'Deep Archive',
-            'Intelligent-Tiering',
-        ],
-        description: 'Standard storage classes',
+        field: 'servicecode',
+        allowedValues: ['AmazonS3', 'AmazonS3GlacierDeepArchive', 'AWSDataTransfer'],
+        description: 'S3, Glacier Deep Archive and S3 data transfer SKUs only',
+    },
+];
+
+/**
+ * VPC SKU Filters
+ * Components are then selected by usage type
+ */
+export const VPC_FILTERS: SKUFilter[] = [
+    {
+        field: 'servicecode',
+        allowedValues: ['AmazonVPC'],
+        description: 'VPC service SKUs only',
     },
 ];
 
@@ -62,11 +69,96 @@ export const S3_FILTERS: SKUFilter[] = [
 export const LAMBDA_FILTERS: SKUFilter[] = [
     {
         field: 'group',
-        allowedValues: ['AWS-Lambda-Duration', 'AWS-Lambda-Requests'],
+        allowedValues: ['AWS-Lambda-Duration', 'AWS-Lambda-Requests', 'AWS-Lambda-Storage-Duration'],
         description: 'Standard Lambda pricing (no provisioned concurrency)',
     },
 ];
 
+/**
+ * RDS Instance SKU Filters
+ * MySQL/PostgreSQL, Single-AZ instances only
+ */
+export const RDS_INSTANCE_FILTERS: SKUFilter[] = [
+    {
+        field: 'databaseEngine',
+        allowedValues: ['MySQL', 'PostgreSQL'],
+        description: 'MySQL and PostgreSQL only',
+    },
+    {
+        field: 'deploymentOption',
+        allowedValues: ['Single-AZ'],
+        description: 'Single-AZ deployments only',
+    },
+];
+
+/**
+ * ElastiCache SKU Filters
+ * Provisioned nodes of the Redis, Valkey and Memcached engines
+ */
+export const ELASTICACHE_FILTERS: SKUFilter[] = [
+    {
+        field: 'cacheEngine',
+        allowedValues: ['Redis', 'Valkey', 'Memcached'],
+        description: 'Redis, Valkey and Memcached only',
+    },
+];
+
+/**
+ * DynamoDB SKU Filters
+ * Components are then selected by usage type
+ */
+export const DYNAMODB_FILTERS: SKUFilter[] = [
+    {
+        field: 'servicecode',
+        allowedValues: ['AmazonDynamoDB'],
+        description: 'DynamoDB service SKUs only',
+    },
+];
+
+/**
+ * CloudFront SKU Filters
+ */
+export const CLOUDFRONT_FILTERS: SKUFilter[] = [
+    {
+        field: 'servicecode',
+        allowedValues: ['AmazonCloudFront'],
+        description: 'CloudFront service SKUs only',
+    },
+];
+
+/**
+ * Lambda@Edge SKU Filters (from the AWSLambda offer)
+ */
+export const LAMBDA_EDGE_FILTERS: SKUFilter[] = [
+    {
+        field: 'group',
+        allowedValues: ['AWS-Lambda-Edge-Duration', 'AWS-Lambda-Edge-Requests'],
+        description: 'Lambda@Edge duration and requests',
+    },
+];
+
+/**
+ * Savings Plans SKU Filters
+ * Hourly commitments with a standard term and purchase option
+ */
+export const SAVINGS_PLAN_FILTERS: SKUFilter[] = [
+    {
+        field: 'granularity',
+        allowedValues: ['hourly'],
+        description: 'Hourly commitments',
+    },
+    {
+        field: 'purchaseTerm',
+        allowedValues: ['1yr', '3yr'],
+        description: '1 and 3 year terms',
+    },
+    {
+        field: 'purchaseOption',
+        allowedValues: ['No Upfront', 'Partial Upfront', 'All Upfront'],
+        description: 'All purchase options',
+    },
+];
+
 /**
  * Apply filters to AWS product attributes
  * Returns true if SKU passes all filters
@@ -0,0 +1,172 @@
+import { SimpleRate, PricingTier, ComponentPricing } from '../schema/base.js';
+import { normalizeUnit, parseAwsPrice } from './units.js';
+import { expandTiers } from './tiers.js';
+import { SKUFilter, applySKUFilters } from './filters.js';
+import { isRegionLocation, GLOBAL_REGION } from './common.js';
+import { withProvenance, dimensionProvenance } from './provenance.js';
+import { streamOfferFile, OfferHeader, OfferProduct, OfferTerm, OfferPriceDimension } from './offer-stream.js';
+
+/**
+ * Offer file → pricing components
+ * Shared by all processors: turns On-Demand terms into SimpleRate / PricingTier[]
+ */
+
+export interface OfferCandidate {
+    sku: string;
+    productFamily?: string;
+    attributes: Record<string, string>;
+    /** SimpleRate for single-dimension terms, PricingTier[] for tiered terms */
+    pricing: ComponentPricing;
+    /** Raw term, for processors that need dimension descriptions or rate codes */
+    term: OfferTerm;
+}
+
+export interface OfferCandidateOptions {
+    /** Region code - products must be located in it (location or regionCode attribute); "global" matches every product */
+    region: string;
+
+    /** Allow-list SKU filters (deny by default) */
+    filters: SKUFilter[];
+
+    /** Additional predicate, evaluated after region and filters */
+    match?: (product: OfferProduct) => boolean;
+}
+
+export interface OfferCandidates {
+    header: OfferHeader;
+    candidates: OfferCandidate[];
+}
+
+/**
+ * Check whether a product belongs to the region
+ */
+export function isProductInRegion(product: OfferProduct, region: string): boolean {
+    const attrs = product.attributes;
+    return attrs.regionCode === region || isRegionLocation(attrs.location, region);
+}
+
+/**
+ * Exactly one On-Demand term per SKU
+ */
+export function singleTerm(sku: string, terms: Record<string, OfferTerm>): OfferTerm {
+    const entries = Object.values(terms);
+
+    if (entries.length !== 1) {
+        throw new Error(`[OFFER] Expected exactly one On-Demand term for SKU ${sku}, found ${entries.length}`);
+    }
+
+    return entries[0]!;
+}
+
+/**
+ * Price dimensions sorted by beginRange (tier order)
+ */
+export function sortedDimensions(term: OfferTerm): OfferPriceDimension[] {
+    return Object.values(term.priceDimensions)
+        .sort((a, b) => parseFloat(a.beginRange || '0') - parseFloat(b.beginRange || '0'));
+}
+
+function dimensionRate(sku: string, term: OfferTerm, dimension: OfferPriceDimension): SimpleRate {
+    return withProvenance({
+        rate: parseAwsPrice(dimension.pricePerUnit.USD ?? ''),
+        unit: normalizeUnit(dimension.unit),
+    }, dimensionProvenance(sku, term, dimension));
+}
+
+export function termToSimpleRate(sku: string, term: OfferTerm): SimpleRate {
+    const dimensions = sortedDimensions(term);
+
+    if (dimensions.length !== 1) {
+        throw new Error(`[OFFER] Expected a single price dimension for SKU ${sku}, found ${dimensions.length}`);
+    }
+
+    return dimensionRate(sku, term, dimensions[0]!);
+}
+
+export function termToTiers(sku: string, term: OfferTerm): PricingTier[] {
+    const dimensions = sortedDimensions(term);
+
+    if (dimensions.length === 0) {
+        throw new Error(`[OFFER] No price dimensions for SKU ${sku}`);
+    }
+
+    const tiers = expandTiers(
+        dimensions.map(d => ({
+            beginRange: d.beginRange || '0',
+            endRange: d.endRange || 'Inf',
+            pricePerUnit: d.pricePerUnit.USD ?? '',
+        })),
+        normalizeUnit(dimensions[0]!.unit)
+    );
+
+    // expandTiers maps dimensions to tiers one to one
+    return tiers.map((tier, i) => withProvenance(tier, dimensionProvenance(sku, term, dimensions[i]!)));
+}
+
+/**
+ * Tiered for multi-dimension terms, simple otherwise
+ */
+export function termToComponentPricing(sku: string, term: OfferTerm): ComponentPricing {
+    return Object.keys(term.priceDimensions).length > 1 ? termToTiers(sku, term) : termToSimpleRate(sku, term);
+}
+
+/**
+ * Steady-state rate of a term whose first tier is a free allowance
+ * (e.g. Elastic IP remaps) - the highest tier is what customers pay
+ */
+export function termToSteadyStateRate(sku: string, term: OfferTerm): SimpleRate {
+    const dimensions = sortedDimensions(term);
+    const dimension = dimensions[dimensions.length - 1];
+
+    if (!dimension) {
+        throw new Error(`[OFFER] No price dimensions for SKU ${sku}`);
+    }
+
+    return dimensionRate(sku, term, dimension);
+}
+
+/**
+ * Stream an offer file and return every On-Demand candidate component
+ * that passes the region, SKU filters and match predicate
+ */
+export async function extractOfferCandidates(
+    filePath: string,
+    options: OfferCandidateOptions
+): Promise<OfferCandidates> {
+    const products = new Map<string, OfferProduct>();
+    const candidates: OfferCandidate[] = [];
+
+    const header = await streamOfferFile(filePath, {
+        termTypes: ['OnDemand'],
+        onProduct: product => {
+            if (options.region !== GLOBAL_REGION && !isProductInRegion(product, options.region)) return;
+            if (!applySKUFilters(product.attributes, options.filters)) return;
+            if (options.match && !options.match(product)) return;
+
+            products.set(product.sku, product);
+        },
+        onTerms: (_termType, sku, terms) => {
+            const product = products.get(sku);
+            if (!product) return;
+
+            const term = singleTerm(sku, terms);
+            const candidate: OfferCandidate = {
+                sku,
+                attributes: product.attributes,
+                pricing: termToComponentPricing(sku, term),
+                term,
+            };
+
+            if (product.productFamily) {
+                candidate.productFamily = product.productFamily;
+            }
+
+            candidates.push(candidate);
+        },
+    });
+
+    // Deterministic order regardless of offer file layout
+    candidates.sort((a, b) => a.sku.localeCompare(b.sku));
+
+    return { header, candidates };
+}
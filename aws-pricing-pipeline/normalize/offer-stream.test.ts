@@ -0,0 +1,191 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { OfferProduct, OfferTerm, offerPublicationDate, readOfferHeader, streamOfferFile } from './offer-stream.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'offer-stream-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+function writeOffer(name: string, content: unknown): string {
+    const filePath = path.join(tempDir, name);
+    fs.writeFileSync(filePath, typeof content === 'string' ? content : JSON.stringify(content, null, 2));
+    return filePath;
+}
+
+function onDemandTerm(sku: string, price: string): Record<string, OfferTerm> {
+    return {
+        [`${sku}.JRTCKXETXF`]: {
+            offerTermCode: 'JRTCKXETXF',
+            sku,
+            effectiveDate: '2024-06-01T00:00:00Z',
+            priceDimensions: {
+                [`${sku}.JRTCKXETXF.6YS6EN2CT7`]: {
+                    rateCode: `${sku}.JRTCKXETXF.6YS6EN2CT7`,
+                    beginRange: '0',
+                    endRange: 'Inf',
+                    unit: 'Hrs',
+                    pricePerUnit: { USD: price },
+                    appliesTo: [],
+                },
+            },
+            termAttributes: {},
+        },
+    };
+}
+
+const OFFER = {
+    formatVersion: 'v1.0',
+    disclaimer: 'This pricing list is for informational purposes only.',
+    offerCode: 'AmazonEC2',
+    version: '20240601000000',
+    publicationDate: '2024-06-01T00:00:00Z',
+    products: {
+        SKU1: { sku: 'SKU1', productFamily: 'Compute Instance', attributes: { instanceType: 't3.micro', vcpu: '2' } },
+        SKU2: { sku: 'SKU2', productFamily: 'Storage' },
+    },
+    terms: {
+        OnDemand: {
+            SKU1: onDemandTerm('SKU1', '0.0104000000'),
+            SKU2: onDemandTerm('SKU2', '0.0800000000'),
+        },
+        Reserved: {
+            SKU1: onDemandTerm('SKU1', '0.0065000000'),
+        },
+    },
+};
+
+describe('streamOfferFile', () => {
+    it('delivers every product and the OnDemand terms of each SKU, and returns the header', async () => {
+        const products: OfferProduct[] = [];
+        const terms: Array<[string, string, Record<string, OfferTerm>]> = [];
+
+        const header = await streamOfferFile(writeOffer('ec2.json', OFFER), {
+            onProduct: product => products.push(product),
+            onTerms: (termType, sku, skuTerms) => terms.push([termType, sku, skuTerms]),
+        });
+
+        expect(header).toEqual({
+            formatVersion: 'v1.0',
+            disclaimer: OFFER.disclaimer,
+            offerCode: 'AmazonEC2',
+            version: '20240601000000',
+            publicationDate: '2024-06-01T00:00:00Z',
+        });
+        expect(products).toEqual([
+            { sku: 'SKU1', productFamily: 'Compute Instance', attributes: { instanceType: 't3.micro', vcpu: '2' } },
+            { sku: 'SKU2', productFamily: 'Storage', attributes: {} },
+        ]);
+        expect(terms).toEqual([
+            ['OnDemand', 'SKU1', OFFER.terms.OnDemand.SKU1],
+            ['OnDemand', 'SKU2', OFFER.terms.OnDemand.SKU2],
+        ]);
+    });
+
+    it('delivers Reserved terms only when requested', async () => {
+        const termTypes: string[] = [];
+
+        await streamOfferFile(writeOffer('ec2-reserved.json', OFFER), {
+            termTypes: ['OnDemand', 'Reserved'],
+            onTerms: (termType, sku) => termTypes.push(`${termType}:${sku}`),
+        });
+
+        expect(termTypes).toEqual(['OnDemand:SKU1', 'OnDemand:SKU2', 'Reserved:SKU1']);
+    });
+
+    it('keeps numbers, booleans and nulls inside captured subtrees', async () => {
+        const values = { count: 2, flag: true, none: null, list: [1, 'a'] };
+        const captured: unknown[] = [];
+
+        await streamOfferFile(writeOffer('values.json', { ...OFFER, terms: { OnDemand: { SKU1: values } } }), {
+            onTerms: (_termType, _sku, terms) => captured.push(terms),
+        });
+
+        expect(captured).toEqual([values]);
+    });
+
+    it('reads Savings Plans offers, where products and terms are arrays', async () => {
+        const rate = {
+            discountedSku: 'SKU1',
+            discountedUsageType: 'BoxUsage:t3.micro',
+            discountedOperation: 'RunInstances',
+            discountedServiceCode: 'AmazonEC2',
+            rateCode: 'PLAN1.SKU1',
+            unit: 'Hrs',
+            discountedRate: { price: '0.0075', currency: 'USD' },
+        };
+        const products: OfferProduct[] = [];
+        const plans: unknown[] = [];
+
+        const header = await streamOfferFile(writeOffer('savings-plan.json', {
+            version: '20240601000000',
+            publicationDate: '2024-06-01T00:00:00Z',
+            regionCode: 'us-east-1',
+            products: [{ sku: 'PLAN1', productFamily: 'ComputeSavingsPlans', attributes: { purchaseOption: 'No Upfront' } }],
+            terms: {
+                savingsPlan: [
+                    { sku: 'PLAN1', leaseContractLength: { duration: 1, unit: 'year' }, rates: [rate] },
+                    { sku: 'PLAN2' },
+                ],
+            },
+        }), {
+            onProduct: product => products.push(product),
+            onSavingsPlanTerm: term => plans.push(term),
+        });
+
+        expect(header.regionCode).toBe('us-east-1');
+        expect(products).toEqual([{ sku: 'PLAN1', productFamily: 'ComputeSavingsPlans', attributes: { purchaseOption: 'No Upfront' } }]);
+        expect(plans).toEqual([
+            { sku: 'PLAN1', leaseContractLength: { duration: 1, unit: 'year' }, rates: [rate] },
+            { sku: 'PLAN2', rates: [] },
+        ]);
+    });
+
+    it('crashes on a truncated file', async () => {
+        const content = JSON.stringify(OFFER);
+        const filePath = writeOffer('truncated.json', content.slice(0, content.length / 2));
+
+        await expect(streamOfferFile(filePath, { onProduct: () => { } })).rejects.toThrow('[OFFER STREAM FAILED]');
+    });
+
+    it('passes handler errors through', async () => {
+        const filePath = writeOffer('handler-error.json', OFFER);
+
+        await expect(streamOfferFile(filePath, {
+            onProduct: () => { throw new Error('[EC2] Duplicate SKU'); },
+        })).rejects.toThrow('[EC2] Duplicate SKU');
+    });
+
+    it('crashes on a missing file', async () => {
+        await expect(streamOfferFile(path.join(tempDir, 'missing.json'), {})).rejects.toThrow('[OFFER STREAM FAILED] File not found');
+    });
+});
+
+describe('readOfferHeader', () => {
+    it('reads the header fields listed before products', async () => {
+        expect(await readOfferHeader(writeOffer('header.json', OFFER))).toEqual({
+            formatVersion: 'v1.0',
+            disclaimer: OFFER.disclaimer,
+            offerCode: 'AmazonEC2',
+            version: '20240601000000',
+            publicationDate: '2024-06-01T00:00:00Z',
+        });
+    });
+
+    it('crashes on a body that is not a JSON object', async () => {
+        await expect(readOfferHeader(writeOffer('error.html', '<html>Access Denied</html>'))).rejects.toThrow('[OFFER STREAM FAILED]');
+        await expect(readOfferHeader(writeOffer('array.json', '[1, 2]'))).rejects.toThrow('Offer file is not a JSON object');
+    });
+});
+
+describe('offerPublicationDate', () => {
+    it('normalizes the publication date to an ISO timestamp', () => {
+        expect(offerPublicationDate({ publicationDate: '2024-06-01T00:00:00Z' }, 'ec2.json')).toBe('2024-06-01T00:00:00.000Z');
+    });
+
+    it('crashes without a valid publication date', () => {
+        expect(() => offerPublicationDate({}, 'ec2.json')).toThrow('[OFFER] Invalid publicationDate "undefined" in ec2.json');
+        expect(() => offerPublicationDate({ publicationDate: 'soon' }, 'ec2.json')).toThrow('[OFFER] Invalid publicationDate');
+    });
+});
@@ -0,0 +1,338 @@
+import fs from 'fs';
+import { Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import streamJson from 'stream-json';
+
+/**
+ * Streaming AWS offer file reader
+ * Walks products and terms in a single pass with bounded memory
+ *
+ * Only one product or one SKU's terms is materialized at a time.
+ * Callers decide what to keep - everything else is discarded as it streams past.
+ *
+ * Also reads Savings Plans offer files, where products is an array and
+ * terms.savingsPlan is an array of terms carrying their discounted rates.
+ */
+
+export interface OfferHeader {
+    formatVersion?: string;
+    disclaimer?: string;
+    offerCode?: string;
+    version?: string;
+    publicationDate?: string;
+    /** Savings Plans regional offer files only */
+    regionCode?: string;
+}
+
+export interface OfferProduct {
+    sku: string;
+    productFamily?: string;
+    attributes: Record<string, string>;
+}
+
+export interface OfferPriceDimension {
+    rateCode: string;
+    description?: string;
+    beginRange?: string;
+    endRange?: string;
+    unit: string;
+    pricePerUnit: Record<string, string>;
+    appliesTo?: string[];
+}
+
+export interface OfferTerm {
+    offerTermCode: string;
+    sku: string;
+    effectiveDate?: string;
+    priceDimensions: Record<string, OfferPriceDimension>;
+    termAttributes?: Record<string, string>;
+}
+
+export type OfferTermType = 'OnDemand' | 'Reserved';
+
+/**
+ * Savings Plans rate: the discounted price of one usage SKU of another service
+ */
+export interface SavingsPlanRate {
+    discountedSku: string;
+    discountedUsageType: string;
+    discountedOperation: string;
+    discountedServiceCode: string;
+    rateCode: string;
+    unit: string;
+    discountedRate: { price: string; currency: string };
+}
+
+export interface SavingsPlanTerm {
+    sku: string;
+    description?: string;
+    effectiveDate?: string;
+    leaseContractLength?: { duration: number; unit: string };
+    rates: SavingsPlanRate[];
+}
+
+export interface OfferStreamHandlers {
+    /** Term types to materialize (default: OnDemand only) */
+    termTypes?: OfferTermType[];
+
+    /** Called once per product */
+    onProduct?: (product: OfferProduct) => void;
+
+    /** Called once per SKU for each requested term type */
+    onTerms?: (termType: OfferTermType, sku: string, terms: Record<string, OfferTerm>) => void;
+
+    /** Called once per Savings Plans term (Savings Plans offer files only) */
+    onSavingsPlanTerm?: (term: SavingsPlanTerm) => void;
+}
+
+interface ParserToken {
+    name: string;
+    value?: string;
+}
+
+type Capture =
+    | { kind: 'product' }
+    | { kind: 'terms'; termType: OfferTermType; sku: string }
+    | { kind: 'savingsPlanTerm' };
+
+/**
+ * Token walker
+ * Tracks the key path of the token stream and assembles captured subtrees
+ */
+class OfferTokenWalker {
+    readonly header: OfferHeader = {};
+
+    private keyStack: Array<string | null> = [];
+    private key: string | null = null;
+
+    private capture: Capture | null = null;
+    private build: any[] = [];
+
+    constructor(
+        private readonly handlers: OfferStreamHandlers,
+        private readonly termTypes: Set<string>
+    ) { }
+
+    push(token: ParserToken): void {
+        switch (token.name) {
+            case 'keyValue':
+                this.key = token.value ?? null;
+                return;
+
+            case 'startObject':
+            case 'startArray': {
+                const container = token.name === 'startArray' ? [] : {};
+
+                if (this.capture) {
+                    this.attach(container);
+                    this.build.push(container);
+                } else {
+                    const capture = this.matchCapture([...this.keyStack.slice(1), this.key]);
+                    if (capture) {
+                        this.capture = capture;
+                        this.build = [container];
+                    }
+                }
+
+                this.keyStack.push(this.key);
+                this.key = null;
+                return;
+            }
+
+            case 'endObject':
+            case 'endArray': {
+                this.keyStack.pop();
+                this.key = null;
+
+                if (this.capture) {
+                    const completed = this.build.pop();
+                    if (this.build.length === 0) {
+                        this.deliver(this.capture, completed);
+                        this.capture = null;
+                    }
+                }
+                return;
+            }
+
+            default: {
+                const value = primitiveValue(token);
+
+                if (this.capture) {
+                    this.attach(value);
+                } else if (this.keyStack.length === 1 && this.key && typeof value === 'string') {
+                    (this.header as Record<string, string>)[this.key] = value;
+                }
+
+                this.key = null;
+            }
+        }
+    }
+
+    private attach(value: unknown): void {
+        const parent = this.build[this.build.length - 1];
+
+        if (Array.isArray(parent)) {
+            parent.push(value);
+        } else if (this.key !== null) {
+            parent[this.key] = value;
+        }
+    }
+
+    /**
+     * products.<sku>, terms.<termType>.<sku> and terms.savingsPlan[] are the only captured paths
+     * (array items have a null key - Savings Plans products are an array)
+     */
+    private matchCapture(path: Array<string | null>): Capture | null {
+        if (path.length === 2 && path[0] === 'products' && this.handlers.onProduct) {
+            return { kind: 'product' };
+        }
+
+        if (path.length === 3 && path[0] === 'terms' && path[1] === 'savingsPlan' && path[2] === null) {
+            return this.handlers.onSavingsPlanTerm ? { kind: 'savingsPlanTerm' } : null;
+        }
+
+        if (path.length === 3 && path[0] === 'terms' && this.termTypes.has(path[1]!) && this.handlers.onTerms) {
+            return { kind: 'terms', termType: path[1] as OfferTermType, sku: path[2]! };
+        }
+
+        return null;
+    }
+
+    private deliver(capture: Capture, value: any): void {
+        if (capture.kind === 'product') {
+            this.handlers.onProduct!({
+                sku: value.sku,
+                productFamily: value.productFamily,
+                attributes: value.attributes || {},
+            });
+        } else if (capture.kind === 'savingsPlanTerm') {
+            this.handlers.onSavingsPlanTerm!({ ...value, rates: value.rates || [] });
+        } else {
+            this.handlers.onTerms!(capture.termType, capture.sku, value);
+        }
+    }
+}
+
+function primitiveValue(token: ParserToken): string | number | boolean | null {
+    switch (token.name) {
+        case 'stringValue':
+            return token.value ?? '';
+        case 'numberValue':
+            return Number(token.value);
+        case 'trueValue':
+            return true;
+        case 'falseValue':
+            return false;
+        case 'nullValue':
+            return null;
+        default:
+            throw new Error(`[OFFER STREAM FAILED] Unexpected parser token: ${token.name}`);
+    }
+}
+
+/**
+ * Publication date of an offer as an ISO timestamp - the lastUpdated of processor output,
+ * so reprocessing an unchanged offer yields identical output
+ * CRASHES if the offer has no valid publicationDate
+ */
+export function offerPublicationDate(header: OfferHeader, filePath: string): string {
+    const timestamp = header.publicationDate ? Date.parse(header.publicationDate) : NaN;
+
+    if (Number.isNaN(timestamp)) {
+        throw new Error(`[OFFER] Invalid publicationDate "${header.publicationDate}" in ${filePath}`);
+    }
+
+    return new Date(timestamp).toISOString();
+}
+
+/**
+ * Read only the header of an offer file
+ * AWS lists the header fields before products, so parsing stops at the first
+ * top-level object or array - constant time even for multi-GB files.
+ * CRASHES if the file is not a JSON object (e.g. a truncated or HTML error body)
+ */
+export async function readOfferHeader(filePath: string): Promise<OfferHeader> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`[OFFER STREAM FAILED] File not found: ${filePath}`);
+    }
+
+    const header: Record<string, string> = {};
+    const source = fs.createReadStream(filePath);
+    const tokens = source.pipe(streamJson.parser({ packValues: true, streamValues: false }));
+    let depth = 0;
+    let key: string | null = null;
+
+    try {
+        for await (const token of tokens as AsyncIterable<ParserToken>) {
+            if (depth === 0 && token.name !== 'startObject') {
+                throw new Error('Offer file is not a JSON object');
+            }
+
+            if (token.name === 'startObject' || token.name === 'startArray') {
+                if (depth === 1) break; // products / terms reached
+                depth++;
+            } else if (token.name === 'keyValue') {
+                key = token.value ?? null;
+            } else if (token.name === 'endObject') {
+                break;
+            } else {
+                if (key && token.name === 'stringValue') {
+                    header[key] = token.value ?? '';
+                }
+                key = null;
+            }
+        }
+    } catch (error) {
+        throw new Error(
+            `[OFFER STREAM FAILED] ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    } finally {
+        source.destroy();
+    }
+
+    return header as OfferHeader;
+}
+
+/**
+ * Stream an AWS offer file (index.json format)
+ * Products are listed before terms in every AWS offer file, so callers
+ * can decide in onProduct which SKUs to keep and look them up in onTerms.
+ *
+ * Returns the offer header (formatVersion, offerCode, version, publicationDate)
+ */
+export async function streamOfferFile(
+    filePath: string,
+    handlers: OfferStreamHandlers
+): Promise<OfferHeader> {
+    if (!fs.existsSync(filePath)) {
+        throw new Error(`[OFFER STREAM FAILED] File not found: ${filePath}`);
+    }
+
+    const walker = new OfferTokenWalker(handlers, new Set(handlers.termTypes || ['OnDemand']));
+
+    const sink = new Writable({
+        objectMode: true,
+        write(token: ParserToken, _encoding, callback) {
+            try {
+                walker.push(token);
+                callback();
+            } catch (error) {
+                callback(error instanceof Error ? error : new Error(String(error)));
+            }
+        },
+    });
+
+    try {
+        await pipeline(
+            fs.createReadStream(filePath),
+            streamJson.parser({ packValues: true, streamValues: false }),
+            sink
+        );
+    } catch (error) {
+        throw new Error(
+            `[OFFER STREAM FAILED] ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+
+    return walker.header;
+}
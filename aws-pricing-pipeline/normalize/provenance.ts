@@ -0,0 +1,135 @@
+import { SimpleRate, PricingTier } from '../schema/base.js';
+
+/**
+ * Per-rate provenance
+ * Every SimpleRate / PricingTier a processor emits records where its price came from:
+ * - offer: a price dimension of an offer file (SKU, term code, rate code, description)
+ * - implied: implied by an offer term without a dimension of its own
+ *   (e.g. the zero upfront fee of a No Upfront reservation)
+ * - fallback: a hardcoded value, not backed by the offer file
+ *
+ * Provenance is attached out of band (rate objects stay schema-shaped) and
+ * collected into a per-service lineage file when a version is written.
+ * Rates copied or built without one of these helpers are reported as untracked.
+ */
+
+export type RateProvenance =
+    | {
+        source: 'offer';
+        sku: string;
+        /** Absent for Savings Plans rates, whose terms have no term code */
+        termCode?: string;
+        rateCode: string;
+        description?: string;
+    }
+    | {
+        source: 'implied';
+        sku: string;
+        termCode: string;
+        reason: string;
+    }
+    | {
+        source: 'fallback';
+        reason: string;
+    };
+
+export type LineageSource = RateProvenance['source'] | 'untracked';
+
+export type LineageEntry = RateProvenance | { source: 'untracked' };
+
+const provenance = new WeakMap<object, RateProvenance>();
+
+/**
+ * Attach provenance to a rate (or tier) and return it
+ */
+export function withProvenance<T extends SimpleRate | PricingTier>(rate: T, source: RateProvenance): T {
+    provenance.set(rate, source);
+    return rate;
+}
+
+/**
+ * Provenance of a rate, if one was recorded
+ */
+export function provenanceOf(rate: object): RateProvenance | undefined {
+    return provenance.get(rate);
+}
+
+/**
+ * Provenance of one price dimension of an offer term
+ */
+export function dimensionProvenance(
+    sku: string,
+    term: { offerTermCode?: string },
+    dimension: { rateCode: string; description?: string }
+): RateProvenance {
+    const source: RateProvenance = { source: 'offer', sku, rateCode: dimension.rateCode };
+
+    if (term.offerTermCode) source.termCode = term.offerTermCode;
+    if (dimension.description) source.description = dimension.description;
+
+    return source;
+}
+
+/**
+ * Mark a hardcoded rate - or every tier of hardcoded tiers - as a fallback
+ */
+export function fallback<T extends SimpleRate | PricingTier[]>(value: T, reason: string): T {
+    const rates: Array<SimpleRate | PricingTier> = Array.isArray(value) ? value : [value];
+
+    for (const rate of rates) {
+        withProvenance(rate, { source: 'fallback', reason });
+    }
+
+    return value;
+}
+
+function isRate(value: unknown): value is SimpleRate | PricingTier {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+    const record = value as Record<string, unknown>;
+    return typeof record.rate === 'number' && typeof record.unit === 'string';
+}
+
+/**
+ * Provenance of every rate under data.components, keyed by dotted path
+ * (e.g. "components.storage.standard.0" for the first tier)
+ * Must run on the processor's own output - copies lose their provenance
+ */
+export function collectLineage(data: { components?: unknown }): Record<string, LineageEntry> {
+    const lineage: Record<string, LineageEntry> = {};
+
+    const visit = (value: unknown, path: string): void => {
+        if (isRate(value)) {
+            lineage[path] = provenanceOf(value) ?? { source: 'untracked' };
+            return;
+        }
+
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => visit(item, `${path}.${index}`));
+            return;
+        }
+
+        if (typeof value === 'object' && value !== null) {
+            for (const key of Object.keys(value).sort()) {
+                visit((value as Record<string, unknown>)[key], `${path}.${key}`);
+            }
+        }
+    };
+
+    visit(data.components, 'components');
+
+    return lineage;
+}
+
+/**
+ * Count lineage entries by source
+ */
+export function summarizeLineage(lineage: Record<string, LineageEntry>): Record<LineageSource, number> {
+    const summary: Record<LineageSource, number> = { offer: 0, implied: 0, fallback: 0, untracked: 0 };
+
+    for (const entry of Object.values(lineage)) {
+        summary[entry.source]++;
+    }
+
+    return summary;
+}
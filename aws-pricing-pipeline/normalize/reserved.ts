@@ -0,0 +1,164 @@
+import { ReservedRate } from '../schema/commitments.js';
+import { normalizeUnit, parseAwsPrice } from './units.js';
+import { OfferTerm, OfferPriceDimension } from './offer-stream.js';
+import { withProvenance, dimensionProvenance, RateProvenance } from './provenance.js';
+
+/**
+ * Reserved term normalization
+ * terms.Reserved.<sku>.<offerTermCode> → "<length>_<class>_<purchaseOption>" → ReservedRate
+ * Savings Plans products → "<length>_<purchaseOption>"
+ *
+ * Each reserved term has up to two price dimensions:
+ * - "Quantity": the upfront fee (→ flat)
+ * - "Hrs": the recurring hourly charge (→ hour)
+ */
+
+const LEASE_CONTRACT_LENGTHS: Record<string, string> = {
+    '1yr': '1yr',
+    '3yr': '3yr',
+};
+
+const OFFERING_CLASSES: Record<string, string> = {
+    'standard': 'standard',
+    'convertible': 'convertible',
+};
+
+const PURCHASE_OPTIONS: Record<string, string> = {
+    'No Upfront': 'noUpfront',
+    'Partial Upfront': 'partialUpfront',
+    'All Upfront': 'allUpfront',
+};
+
+/**
+ * Utilization-based offerings retired by AWS but still listed in older
+ * RDS/ElastiCache offers - not sold anymore, never published
+ */
+const LEGACY_PURCHASE_OPTIONS = new Set([
+    'Light Utilization',
+    'Medium Utilization',
+    'Heavy Utilization',
+]);
+
+function commitmentAttribute(
+    sku: string,
+    attributes: Record<string, string> | undefined,
+    name: string,
+    allowed: Record<string, string>
+): string {
+    const value = attributes?.[name];
+    const normalized = value !== undefined ? allowed[value] : undefined;
+
+    if (!normalized) {
+        throw new Error(
+            `[RESERVED TERM FAILED] Unknown ${name} "${value}" for SKU ${sku}. ` +
+            `Known values: ${Object.keys(allowed).join(', ')}`
+        );
+    }
+
+    return normalized;
+}
+
+/**
+ * Whether a reserved term is a retired utilization-based offering
+ */
+export function isLegacyReservedTerm(term: OfferTerm): boolean {
+    return LEGACY_PURCHASE_OPTIONS.has(term.termAttributes?.PurchaseOption ?? '');
+}
+
+/**
+ * Term key for a reserved term
+ * RDS and ElastiCache offers omit OfferingClass - their reservations are all standard
+ */
+export function reservedTermKey(sku: string, term: OfferTerm): string {
+    const attrs = term.termAttributes;
+    const length = commitmentAttribute(sku, attrs, 'LeaseContractLength', LEASE_CONTRACT_LENGTHS);
+    const offeringClass = attrs?.OfferingClass === undefined
+        ? 'standard'
+        : commitmentAttribute(sku, attrs, 'OfferingClass', OFFERING_CLASSES);
+    const purchaseOption = commitmentAttribute(sku, attrs, 'PurchaseOption', PURCHASE_OPTIONS);
+
+    return `${length}_${offeringClass}_${purchaseOption}`;
+}
+
+/**
+ * Term key for a Savings Plans product (purchaseTerm / purchaseOption attributes)
+ */
+export function savingsPlanTermKey(sku: string, attributes: Record<string, string>): string {
+    const length = commitmentAttribute(sku, attributes, 'purchaseTerm', LEASE_CONTRACT_LENGTHS);
+    const purchaseOption = commitmentAttribute(sku, attributes, 'purchaseOption', PURCHASE_OPTIONS);
+
+    return `${length}_${purchaseOption}`;
+}
+
+/**
+ * Split a reserved term into its upfront fee and recurring hourly charge
+ * CRASHES on unexpected dimensions - a No Upfront term may omit the fee,
+ * an All Upfront term may omit the hourly charge, nothing else may be missing
+ */
+export function termToReservedRate(sku: string, term: OfferTerm): ReservedRate {
+    let upfront: OfferPriceDimension | undefined;
+    let recurring: OfferPriceDimension | undefined;
+
+    for (const dimension of Object.values(term.priceDimensions)) {
+        const unit = normalizeUnit(dimension.unit);
+
+        if (unit === 'flat' && !upfront) {
+            upfront = dimension;
+        } else if (unit === 'hour' && !recurring) {
+            recurring = dimension;
+        } else {
+            throw new Error(
+                `[RESERVED TERM FAILED] Unexpected ${dimension.unit} dimension ${dimension.rateCode} for SKU ${sku}`
+            );
+        }
+    }
+
+    const purchaseOption = term.termAttributes?.PurchaseOption;
+
+    if (!upfront && purchaseOption !== 'No Upfront') {
+        throw new Error(`[RESERVED TERM FAILED] ${purchaseOption} term ${term.offerTermCode} for SKU ${sku} has no upfront fee`);
+    }
+
+    if (!recurring && purchaseOption !== 'All Upfront') {
+        throw new Error(`[RESERVED TERM FAILED] ${purchaseOption} term ${term.offerTermCode} for SKU ${sku} has no hourly charge`);
+    }
+
+    // A missing dimension is a zero charge implied by the purchase option
+    const sourceOf = (dimension: OfferPriceDimension | undefined, implied: string): RateProvenance => dimension
+        ? dimensionProvenance(sku, term, dimension)
+        : { source: 'implied', sku, termCode: term.offerTermCode, reason: `${purchaseOption} term has no ${implied}` };
+
+    return {
+        upfront: withProvenance(
+            { rate: upfront ? parseAwsPrice(upfront.pricePerUnit.USD ?? '') : 0, unit: 'flat' },
+            sourceOf(upfront, 'upfront fee')
+        ),
+        recurring: withProvenance(
+            { rate: recurring ? parseAwsPrice(recurring.pricePerUnit.USD ?? '') : 0, unit: 'hour' },
+            sourceOf(recurring, 'hourly charge')
+        ),
+    };
+}
+
+/**
+ * All reserved offerings of one SKU, keyed by term key
+ * CRASHES if two terms map to the same key
+ */
+export function termsToReservedRates(sku: string, terms: Record<string, OfferTerm>): Record<string, ReservedRate> {
+    const rates: Record<string, ReservedRate> = {};
+
+    for (const term of Object.values(terms)) {
+        if (isLegacyReservedTerm(term)) continue;
+
+        const key = reservedTermKey(sku, term);
+
+        if (rates[key]) {
+            throw new Error(`[RESERVED TERM FAILED] Multiple ${key} terms for SKU ${sku}`);
+        }
+
+        rates[key] = termToReservedRate(sku, term);
+    }
+
+    // Deterministic key order regardless of offer file layout
+    return Object.fromEntries(Object.entries(rates).sort(([a], [b]) => a.localeCompare(b)));
+}
@@ -26,6 +26,10 @@ const AWS_UNIT_MAP: Record<string, PricingUnit> = {
     'GBMonth': 'gb_month',
     'GB-month': 'gb_month',
 
+    // Provisioned performance units (EBS)
+    'IOPS-Mo': 'iops_month',
+    'GiBps-mo': 'gibps_month',
+
     // Compute units
     'vCPU-Hours': 'vcpu_hour',
     'vCPU-hrs': 'vcpu_hour',
@@ -33,14 +37,27 @@ const AWS_UNIT_MAP: Record<string, PricingUnit> = {
     'eCPU-hrs': 'ecpu_hour',
     'GB-Second': 'second', // Lambda GB-seconds
     'GB-Seconds': 'second',
+    'Lambda-GB-Second': 'second',
+
+    // Capacity units (priced per provisioned unit-hour)
+    'ReadCapacityUnit-Hrs': 'hour',
+    'WriteCapacityUnit-Hrs': 'hour',
+    'ReplicatedWriteCapacityUnit-Hrs': 'hour',
+    'ReplWriteCapacityUnit-Hrs': 'hour',
 
     // Request units
+    'ReadRequestUnits': 'request',
+    'WriteRequestUnits': 'request',
+    'ReplicatedWriteRequestUnits': 'request',
+    'ReplWriteRequestUnits': 'request',
     'Requests': 'request',
     'requests': 'request',
     'Request': 'request',
     '1M Requests': 'million_requests',
     '1M requests': 'million_requests',
     'Million Requests': 'million_requests',
+    'Invocations': 'request', // CloudFront Functions
+    'URL': 'request', // CloudFront invalidation paths
 
     // Transition/operation units
     'Transitions': 'transition',
@@ -51,6 +68,7 @@ const AWS_UNIT_MAP: Record<string, PricingUnit> = {
     'flat': 'flat',
     'Each': 'flat',
     'each': 'flat',
+    'Quantity': 'flat', // Reserved Instance upfront fee
 };
 
 /**
@@ -0,0 +1,32 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Pipeline lifecycle events
+ * One event per service per state transition, emitted once every region of the
+ * service reached that state
+ */
+
+export type PipelineStage = 'fetch' | 'process' | 'validate' | 'diff' | 'publish';
+
+export interface ServiceEvent {
+    /** Service code (AmazonEC2) */
+    service: string;
+    /** Plugin id (ec2) */
+    id: string;
+    regions: string[];
+}
+
+export interface PipelineEventMap {
+    /** A stage started */
+    'stage': [stage: PipelineStage];
+    /** Raw offer files downloaded (or verified, when replaying) */
+    'service:fetched': [event: ServiceEvent];
+    /** Processor output produced */
+    'service:normalized': [event: ServiceEvent];
+    /** Processor output passed its schema */
+    'service:validated': [event: ServiceEvent];
+    /** Service files published: the version is in place, with its metadata, and latest points at it */
+    'service:written': [event: ServiceEvent & { version: string }];
+}
+
+export class PipelineEvents extends EventEmitter<PipelineEventMap> { }
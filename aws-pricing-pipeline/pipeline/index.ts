@@ -0,0 +1,252 @@
+import chalk from 'chalk';
+import { planFetchJobs, FetchJob } from '../fetch/index.js';
+import { resolveRawDir } from '../fetch/fetcher.js';
+import { getEnabledServices, resolveServices } from '../registry/service-registry.js';
+import { resolveRegions } from '../normalize/common.js';
+import { ServiceStateTracker } from '../utils/service-state.js';
+import { activeLogger, withLogger, PipelineLogger } from '../utils/logger.js';
+import { DiffResult, BumpType } from '../versioning/diff.js';
+import { acquireOutputLock } from '../versioning/lock.js';
+import { VersionInfo, BumpReason, RawSource } from '../versioning/bump.js';
+import { PipelineEvents, PipelineStage } from './events.js';
+import {
+    StageContext,
+    VersionPlan,
+    rawStage,
+    processStage,
+    validateStage,
+    diffStage,
+    versionStage,
+    writeStage,
+} from './stages.js';
+
+/**
+ * Programmatic pipeline API
+ * Runs the pipeline up to a stage and returns a typed result - never exits the
+ * process and never throws for pipeline failures (they are in result.failures).
+ * Progress goes to options.logger - nothing is printed unless one is given
+ * (or set for every call with setDefaultLogger).
+ */
+
+export { PipelineEvents } from './events.js';
+export { setDefaultLogger, SILENT_LOGGER } from '../utils/logger.js';
+export type { PipelineLogger } from '../utils/logger.js';
+export type { PipelineStage, PipelineEventMap, ServiceEvent } from './events.js';
+export {
+    listVersionSummaries,
+    inspectVersion,
+    rollbackVersion,
+    pruneVersions,
+    tagVersion,
+    untagVersion,
+} from '../versioning/manage.js';
+export type { VersionSummary, VersionDetails, PruneOptions, PruneResult, HistoryEntry } from '../versioning/manage.js';
+export { materializeVersion, readServiceFile, listServiceRegions } from '../versioning/store.js';
+export { applyPatch, applyVerifiedPatch, documentHash, verifyPatches } from '../versioning/patch.js';
+export type { PatchOperation, PatchIndex } from '../versioning/patch.js';
+
+export interface PipelineOptions {
+    /** Region codes (default: PRICING_REGIONS, then the default regions) */
+    regions?: string[];
+
+    /** Plugin ids or service codes (default: every enabled service) */
+    services?: string[];
+
+    /** Raw offer directory (default: PRICING_RAW_DIR, then raw) */
+    rawDir?: string;
+
+    /** Versioned output directory (default: output/aws) */
+    outputDir?: string;
+
+    /** "fetch" downloads the raw offers (default), "replay" verifies the raw directory offline */
+    raw?: RawSource['mode'];
+
+    /** Last stage to run (default: publish) */
+    until?: PipelineStage;
+
+    /** Stop before writing - the result carries the diffs and planned version */
+    dryRun?: boolean;
+
+    /** Fail validation if any published rate is a hardcoded fallback or has no provenance */
+    strict?: boolean;
+
+    /** Approval file for changes crossing a guardrail (default: PRICING_APPROVALS, then pricing-approvals.json) */
+    approvalsFile?: string;
+
+    /** Lifecycle event subscribers */
+    events?: PipelineEvents;
+
+    /** Receives progress output, e.g. console (default: silent, see setDefaultLogger) */
+    logger?: PipelineLogger;
+}
+
+export interface PipelineFailure {
+    stage: PipelineStage;
+    /** Service code, when a single service failed */
+    service?: string;
+    error: string;
+}
+
+export interface PipelineResult {
+    success: boolean;
+    /** Last stage that completed (null if none did) */
+    completed: PipelineStage | null;
+    /** A new version was written */
+    published: boolean;
+    /** Nothing but volatile fields changed against latest - publishing was skipped */
+    unchanged: boolean;
+    regions: string[];
+    /** Selected service codes */
+    services: string[];
+    /** Offer files the selection needs */
+    fetchJobs: FetchJob[];
+    diffs: DiffResult[];
+    /** New version - planned unless published */
+    version: VersionInfo | null;
+    bumpType: BumpType | null;
+    bumpReason?: BumpReason;
+    /** Directory of the published version */
+    versionDir: string | null;
+    /** Service state machine summary */
+    summary: { versioned: number; unsupported: number; total: number };
+    failures: PipelineFailure[];
+}
+
+const STAGES: PipelineStage[] = ['fetch', 'process', 'validate', 'diff', 'publish'];
+
+/**
+ * Run the pipeline
+ */
+export async function runPipeline(options: PipelineOptions = {}): Promise<PipelineResult> {
+    return options.logger ? withLogger(options.logger, () => run(options)) : run(options);
+}
+
+async function run(options: PipelineOptions): Promise<PipelineResult> {
+    const until = options.until ?? 'publish';
+    const stateTracker = new ServiceStateTracker();
+
+    const result: PipelineResult = {
+        success: false,
+        completed: null,
+        published: false,
+        unchanged: false,
+        regions: [],
+        services: [],
+        fetchJobs: [],
+        diffs: [],
+        version: null,
+        bumpType: null,
+        versionDir: null,
+        summary: stateTracker.getSummary(),
+        failures: [],
+    };
+
+    let stage: PipelineStage = 'fetch';
+    let releaseLock: (() => void) | null = null;
+
+    const enter = (next: PipelineStage): boolean => {
+        if (STAGES.indexOf(next) > STAGES.indexOf(until)) {
+            return false;
+        }
+
+        stage = next;
+        options.events?.emit('stage', next);
+        return true;
+    };
+
+    try {
+        const context: StageContext = {
+            regions: resolveRegions(options.regions?.join(',') ?? process.env.PRICING_REGIONS),
+            services: resolveServices(options.services?.join(',')),
+            rawDir: resolveRawDir(options.rawDir ?? process.env.PRICING_RAW_DIR),
+            outputDir: options.outputDir || 'output/aws',
+        };
+
+        if (options.strict) context.strict = true;
+        if (options.approvalsFile) context.approvalsFile = options.approvalsFile;
+        if (options.events) context.events = options.events;
+
+        result.regions = context.regions;
+        result.services = context.services.map(s => s.code);
+
+        activeLogger().log(chalk.blue(`[REGIONS] ${context.regions.join(', ')}`));
+        activeLogger().log(chalk.blue(`[SERVICES] ${context.services.map(s => s.id).join(', ')}`));
+
+        result.fetchJobs = planFetchJobs(context.regions, context.services);
+
+        // A version must contain every enabled service
+        if (until === 'publish' && !options.dryRun && context.services.length !== getEnabledServices().length) {
+            throw new Error(
+                '[PIPELINE] Publishing writes a complete version - select a subset of services only for a dry run'
+            );
+        }
+
+        const mode = options.raw ?? 'fetch';
+
+        enter('fetch');
+
+        // Nothing to download in a dry run that stops after fetching
+        if (until === 'fetch' && options.dryRun) {
+            result.completed = 'fetch';
+            return succeed(result, stateTracker);
+        }
+
+        const { fetchedServices, manifest } = await rawStage(context, mode);
+        result.completed = 'fetch';
+
+        if (!enter('process')) return succeed(result, stateTracker);
+        const outputs = await processStage(context, fetchedServices, stateTracker);
+        result.completed = 'process';
+
+        if (!enter('validate')) return succeed(result, stateTracker);
+        validateStage(context, outputs, stateTracker);
+        result.completed = 'validate';
+
+        if (!enter('diff')) return succeed(result, stateTracker);
+
+        // Hold the lock from reading latest until the new version is published
+        if (until === 'publish' && !options.dryRun) releaseLock = acquireOutputLock(context.outputDir);
+
+        result.diffs = diffStage(context, outputs);
+        const plan = versionStage(context, outputs, result.diffs);
+        applyPlan(result, plan);
+        result.completed = 'diff';
+
+        // No-op: the run succeeds without creating a version
+        if (plan.unchanged || options.dryRun || !enter('publish')) return succeed(result, stateTracker);
+        result.versionDir = writeStage(context, outputs, result.diffs, plan, {
+            mode,
+            rawDir: context.rawDir,
+            manifestTimestamp: manifest.timestamp,
+        }, stateTracker);
+        result.published = true;
+        result.completed = 'publish';
+
+        return succeed(result, stateTracker);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const failedServices = stateTracker.getUnsupportedServices().filter(s => s.error);
+
+        result.failures = failedServices.length > 0
+            ? failedServices.map(s => ({ stage, service: s.service, error: s.error! }))
+            : [{ stage, error: message }];
+        result.summary = stateTracker.getSummary();
+
+        return result;
+    } finally {
+        releaseLock?.();
+    }
+}
+
+function applyPlan(result: PipelineResult, plan: VersionPlan): void {
+    result.version = plan.version;
+    result.bumpType = plan.bumpType;
+    result.unchanged = plan.unchanged;
+    if (plan.bumpReason) result.bumpReason = plan.bumpReason;
+}
+
+function succeed(result: PipelineResult, stateTracker: ServiceStateTracker): PipelineResult {
+    result.success = true;
+    result.summary = stateTracker.getSummary();
+    return result;
+}
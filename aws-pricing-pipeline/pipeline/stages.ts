@@ -0,0 +1,452 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { fetchAll } from '../fetch/index.js';
+import { replaySnapshot } from '../fetch/replay.js';
+import { readManifest, DownloadManifest } from '../fetch/manifest.js';
+import { ServicePlugin, pluginRegions } from '../registry/plugin.js';
+import { getAllServices } from '../registry/service-registry.js';
+import { assertServiceParity } from '../validate/parity.js';
+import { validatePricingData } from '../validate/validate.js';
+import { collectLineage, summarizeLineage, LineageEntry } from '../normalize/provenance.js';
+import { ServiceStateTracker } from '../utils/service-state.js';
+import {
+    diffPricing,
+    diffOptions,
+    hasChanges,
+    loadPreviousVersion,
+    listPreviousServices,
+    listPreviousRegions,
+    DiffResult,
+    BumpType,
+} from '../versioning/diff.js';
+import {
+    resolveApprovalsFile,
+    readApprovals,
+    applyApprovals,
+    blockedChanges,
+    assertNoBlockedChanges,
+} from '../versioning/guardrails.js';
+import {
+    getCurrentVersion,
+    bumpVersion,
+    createVersionDirectory,
+    publishVersionDirectory,
+    removeStagingDirectories,
+    updateLatestPointer,
+    writeVersionMetadata,
+    VersionInfo,
+    BumpReason,
+    RawSource,
+} from '../versioning/bump.js';
+import { maxBump } from '../versioning/policy.js';
+import { appendHistory } from '../versioning/manage.js';
+import { createManifest, writeVersionFile, writeManifest, readServiceFile } from '../versioning/store.js';
+import { createPatch, documentHash, writePatches } from '../versioning/patch.js';
+import { writeDiffArtifacts } from '../versioning/artifacts.js';
+import { PipelineEvents } from './events.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Pipeline stages
+ * The six steps of a pipeline run, callable on their own so a run can stop
+ * after any stage (CLI subcommands, dry runs)
+ */
+
+/**
+ * Normalized pricing for one service in one region
+ */
+export interface ServiceOutput {
+    code: string;
+    name: string;
+    region: string;
+    data: any;
+    /** Provenance of every rate in data, keyed by path */
+    lineage: Record<string, LineageEntry>;
+}
+
+/**
+ * What a run operates on
+ */
+export interface StageContext {
+    regions: string[];
+    services: ServicePlugin[];
+    rawDir: string;
+    outputDir: string;
+    /** Fail validation if any rate is a fallback or has no provenance */
+    strict?: boolean;
+    /** Approval file for changes crossing a guardrail (default: PRICING_APPROVALS, then pricing-approvals.json) */
+    approvalsFile?: string;
+    /** Lifecycle event subscribers */
+    events?: PipelineEvents;
+}
+
+/**
+ * Planned version bump
+ */
+export interface VersionPlan {
+    version: VersionInfo;
+    bumpType: BumpType;
+    bumpReason?: BumpReason;
+    /** Nothing but volatile fields changed against latest - there is nothing to publish */
+    unchanged: boolean;
+}
+
+/**
+ * Step 1: Fetch raw pricing data (regional offer files only), or replay the raw directory
+ * Returns the fetched service codes and the validated download manifest
+ */
+export async function rawStage(
+    context: StageContext,
+    mode: RawSource['mode']
+): Promise<{ fetchedServices: string[]; manifest: DownloadManifest }> {
+    let fetchedServices: string[];
+
+    if (mode === 'replay') {
+        activeLogger().log(chalk.bold.yellow(`\n[STEP 1/6] Replaying raw snapshot ${context.rawDir}...\n`));
+        fetchedServices = await replaySnapshot(context.regions, context.rawDir, context.services);
+        activeLogger().log(chalk.green(`✓ Replayed ${fetchedServices.length} services: ${fetchedServices.join(', ')}\n`));
+    } else {
+        activeLogger().log(chalk.bold.yellow('\n[STEP 1/6] Fetching AWS pricing data...\n'));
+        fetchedServices = await fetchAll(context.regions, context.rawDir, context.services);
+        activeLogger().log(chalk.green(`✓ Fetched ${fetchedServices.length} services: ${fetchedServices.join(', ')}\n`));
+    }
+
+    // Validate download manifest
+    const manifest = readManifest(context.rawDir);
+    activeLogger().log(chalk.blue(`[MANIFEST] Downloaded: ${manifest.downloaded.length} services`));
+    activeLogger().log(chalk.blue(`[MANIFEST] Failed: ${manifest.failed.length} services`));
+
+    if (manifest.failed.length > 0) {
+        throw new Error(`Download validation failed. See manifest for details.`);
+    }
+
+    for (const service of context.services.filter(s => fetchedServices.includes(s.code))) {
+        context.events?.emit('service:fetched', {
+            service: service.code,
+            id: service.id,
+            regions: pluginRegions(service, context.regions),
+        });
+    }
+
+    return { fetchedServices, manifest };
+}
+
+/**
+ * Step 2: Process every selected service in every region, then check parity
+ */
+export async function processStage(
+    context: StageContext,
+    fetchedServices: string[],
+    stateTracker: ServiceStateTracker
+): Promise<ServiceOutput[]> {
+    // Mark all downloaded services
+    fetchedServices.forEach(service => stateTracker.markDownloaded(service));
+
+    activeLogger().log(chalk.bold.yellow('\n[STEP 2/6] Processing services...\n'));
+
+    const outputs: ServiceOutput[] = [];
+    const processedServices: string[] = [];
+
+    for (const service of context.services) {
+        const regions = pluginRegions(service, context.regions);
+
+        for (const region of regions) {
+            try {
+                const data = await service.processor(region, context.rawDir);
+                outputs.push({
+                    code: service.code,
+                    name: service.id,
+                    region,
+                    data,
+                    // Before anything copies the rates - copies carry no provenance
+                    lineage: collectLineage(data),
+                });
+            } catch (error) {
+                stateTracker.markFailed(service.code, error instanceof Error ? error.message : String(error));
+                throw error;
+            }
+        }
+        processedServices.push(service.code);
+
+        // Mark as normalized once every region is processed
+        stateTracker.markNormalized(service.code);
+        context.events?.emit('service:normalized', { service: service.code, id: service.id, regions });
+    }
+
+    // Step 2.5: CRITICAL - Validate service parity
+    activeLogger().log(chalk.bold.yellow('\n[STEP 2.5/6] Validating service parity...\n'));
+    assertServiceParity(fetchedServices, processedServices);
+    activeLogger().log(chalk.green(`✓ Service parity validated: ${processedServices.length} services fetched and processed\n`));
+
+    return outputs;
+}
+
+/**
+ * Step 3: Validate every output against its plugin's schema
+ */
+export function validateStage(
+    context: StageContext,
+    outputs: ServiceOutput[],
+    stateTracker: ServiceStateTracker
+): void {
+    activeLogger().log(chalk.bold.yellow('\n[STEP 3/6] Validating pricing data...\n'));
+
+    for (const service of context.services) {
+        const serviceOutputs = outputs.filter(o => o.code === service.code);
+
+        for (const output of serviceOutputs) {
+            try {
+                validatePricingData(output.data, service.schema, `${service.name} (${output.region})`);
+                if (context.strict) assertNoFallbacks(`${service.name} (${output.region})`, output.lineage);
+            } catch (error) {
+                stateTracker.markFailed(service.code, error instanceof Error ? error.message : String(error));
+                throw error;
+            }
+            activeLogger().log(chalk.green(`✓ ${service.name} (${output.region}) validated`));
+        }
+
+        // Mark as validated once every region passes
+        stateTracker.markValidated(service.code);
+        context.events?.emit('service:validated', {
+            service: service.code,
+            id: service.id,
+            regions: serviceOutputs.map(o => o.region),
+        });
+    }
+}
+
+/**
+ * Strict mode: every rate must come from an offer file
+ * CRASHES listing every fallback or untracked rate
+ */
+function assertNoFallbacks(label: string, lineage: Record<string, LineageEntry>): void {
+    const problems = Object.entries(lineage)
+        .filter(([, entry]) => entry.source === 'fallback' || entry.source === 'untracked')
+        .map(([ratePath, entry]) => `  - ${ratePath}: ${entry.source === 'fallback' ? `fallback (${entry.reason})` : 'untracked'}`);
+
+    if (problems.length > 0) {
+        throw new Error(
+            `[PROVENANCE FAILED] ${label}: ${problems.length} rate(s) not backed by the offer file:\n${problems.join('\n')}`
+        );
+    }
+}
+
+/**
+ * Step 4: Diff every output against the latest published version
+ */
+export function diffStage(context: StageContext, outputs: ServiceOutput[]): DiffResult[] {
+    activeLogger().log(chalk.bold.yellow('\n[STEP 4/6] Computing diffs...\n'));
+
+    const approvals = readApprovals(resolveApprovalsFile(context.approvalsFile));
+    const diffs: DiffResult[] = [];
+
+    for (const output of outputs) {
+        const plugin = context.services.find(s => s.code === output.code)!;
+        const previous = loadPreviousVersion(output.name, output.region, context.outputDir);
+        // A new service or region diffs against nothing: the whole file is an added entry (minor)
+        const diff = diffPricing(previous, output.data, output.name, output.region, diffOptions(plugin));
+        diffs.push(diff);
+
+        if (previous) {
+            activeLogger().log(chalk.blue(`[DIFF] ${diff.service} (${diff.region}): ${diff.reason}`));
+        } else {
+            activeLogger().log(chalk.yellow(`[DIFF] ${output.name} (${output.region}): No previous version (new service or region)`));
+        }
+    }
+
+    // Service regions in latest this run does not produce would silently disappear from the new version
+    for (const service of listPreviousServices(context.outputDir)) {
+        const plugin = getAllServices().find(s => s.id === service);
+
+        for (const region of listPreviousRegions(service, context.outputDir)) {
+            if (outputs.some(o => o.name === service && o.region === region)) continue;
+
+            const previous = loadPreviousVersion(service, region, context.outputDir);
+            const diff = diffPricing(previous, null, service, region, plugin ? diffOptions(plugin) : {});
+            diffs.push(diff);
+            activeLogger().log(chalk.red(`[DIFF] ${service} (${region}): Not produced by this run - removed from the new version`));
+        }
+    }
+
+    applyApprovals(diffs, approvals);
+    for (const { diff, change } of blockedChanges(diffs)) {
+        activeLogger().log(chalk.red(`[GUARDRAIL] ${change.path} (${diff.region}): ${change.guardrail!.violation}`));
+    }
+
+    return diffs;
+}
+
+/**
+ * Whether the outputs match latest exactly (ignoring volatile fields):
+ * no diff - new and dropped service regions included - has changes
+ */
+function isUnchanged(outputs: ServiceOutput[], diffs: DiffResult[]): boolean {
+    return outputs.length > 0 && !diffs.some(hasChanges);
+}
+
+/**
+ * Step 5: Determine the version bump from the diffs
+ */
+export function versionStage(context: StageContext, outputs: ServiceOutput[], diffs: DiffResult[]): VersionPlan {
+    activeLogger().log(chalk.bold.yellow('\n[STEP 5/6] Determining version bump...\n'));
+
+    const currentVersion = getCurrentVersion(context.outputDir);
+    const changedDiffs = diffs.filter(hasChanges);
+
+    // Determine the highest priority bump type from all diffs
+    const maxBumpType: BumpType = changedDiffs.length > 0
+        ? maxBump(changedDiffs.map(d => d.bumpType))
+        : 'minor';
+
+    // Find the service that caused the highest bump
+    const causingDiff = changedDiffs.find(d => d.bumpType === maxBumpType);
+
+    const plan: VersionPlan = {
+        version: bumpVersion(currentVersion, maxBumpType),
+        bumpType: maxBumpType,
+        unchanged: isUnchanged(outputs, diffs),
+    };
+
+    if (plan.unchanged) {
+        activeLogger().log(chalk.green(`[NO-OP] No pricing or schema changes against latest (${currentVersion.current})`));
+    }
+
+    if (causingDiff) {
+        plan.bumpReason = {
+            service: causingDiff.service,
+            region: causingDiff.region,
+            type: causingDiff.bumpType,
+            reason: causingDiff.reason,
+        };
+    }
+
+    return plan;
+}
+
+/**
+ * Step 6: Write the new version, its metadata and diff report, then move latest
+ * The version is written to a staging directory and renamed into place once complete.
+ * Call only while holding the output lock. Returns the version directory
+ */
+export function writeStage(
+    context: StageContext,
+    outputs: ServiceOutput[],
+    diffs: DiffResult[],
+    plan: VersionPlan,
+    rawSource: RawSource,
+    stateTracker: ServiceStateTracker
+): string {
+    activeLogger().log(chalk.bold.yellow('\n[STEP 6/6] Writing versioned output...\n'));
+
+    assertNoBlockedChanges(diffs, resolveApprovalsFile(context.approvalsFile));
+
+    const newVersion = plan.version;
+    removeStagingDirectories(context.outputDir);
+    const stagingDir = createVersionDirectory(newVersion, context.outputDir);
+
+    try {
+        writeVersionFiles(context, outputs, diffs, plan, rawSource, stagingDir, stateTracker);
+    } catch (error) {
+        fs.rmSync(stagingDir, { recursive: true, force: true });
+        throw error;
+    }
+
+    const versionDir = publishVersionDirectory(stagingDir, newVersion, context.outputDir);
+
+    // Update latest pointer
+    updateLatestPointer(newVersion.next, context.outputDir);
+    appendHistory(context.outputDir, {
+        action: 'publish',
+        version: newVersion.next,
+        previousLatest: newVersion.current !== 'v0.0.0' ? newVersion.current : null,
+    });
+
+    // Mark all services as versioned - published, so subscribers can read them through latest
+    for (const service of context.services) {
+        stateTracker.markVersioned(service.code);
+        context.events?.emit('service:written', {
+            service: service.code,
+            id: service.id,
+            regions: outputs.filter(o => o.code === service.code).map(o => o.region),
+            version: newVersion.next,
+        });
+    }
+
+    // Validate all services reached VERSIONED state
+    stateTracker.validateAllVersioned();
+
+    return versionDir;
+}
+
+/**
+ * Write every file of a version into its (staging) directory
+ */
+function writeVersionFiles(
+    context: StageContext,
+    outputs: ServiceOutput[],
+    diffs: DiffResult[],
+    plan: VersionPlan,
+    rawSource: RawSource,
+    versionDir: string,
+    stateTracker: ServiceStateTracker
+): void {
+    const newVersion = plan.version;
+    const manifest = createManifest(newVersion.next);
+    let stored = 0;
+
+    // Store service files in the object store: services/<service>/<region>.json
+    for (const output of outputs) {
+        const filePath = `services/${output.name}/${output.region}.json`;
+        if (writeVersionFile(context.outputDir, manifest, filePath, output.data)) stored++;
+
+        // Lineage sidecar: lineage/<service>/<region>.json, outside services/ so readers never load it as pricing
+        const lineage = {
+            service: output.name,
+            region: output.region,
+            summary: summarizeLineage(output.lineage),
+            rates: output.lineage,
+        };
+
+        if (writeVersionFile(context.outputDir, manifest, `lineage/${output.name}/${output.region}.json`, lineage)) stored++;
+        activeLogger().log(chalk.green(`[WRITE] ${filePath} (+ lineage)`));
+    }
+
+    writeManifest(versionDir, manifest);
+    activeLogger().log(chalk.green(`[WRITE] ${path.join(versionDir, 'manifest.json')}: ${Object.keys(manifest.files).length} files, ${stored} new objects`));
+
+    // JSON Patch deltas from latest (still the previous version) for clients that cache service files
+    if (fs.existsSync(path.join(context.outputDir, 'latest'))) {
+        const patches = [];
+
+        for (const output of outputs) {
+            const previous = readServiceFile(context.outputDir, 'latest', output.name, output.region);
+            if (!previous) continue;
+
+            // As published: undefined fields dropped, version set
+            const published = JSON.parse(JSON.stringify({ ...output.data, version: newVersion.next }));
+            const plugin = context.services.find(s => s.code === output.code)!;
+
+            patches.push({
+                service: output.name,
+                region: output.region,
+                operations: createPatch(previous, published, output.name, diffOptions(plugin)),
+                fromHash: documentHash(previous),
+                toHash: documentHash(published),
+            });
+        }
+
+        writePatches(versionDir, { from: newVersion.current, to: newVersion.next, patches: {} }, patches);
+    }
+
+    // Mark as output once every region is written
+    for (const service of context.services) {
+        stateTracker.markOutput(service.code);
+    }
+
+    // Write metadata with bump reason
+    writeVersionMetadata(newVersion, versionDir, context.regions, plan.bumpReason, rawSource);
+
+    // Write diff report and machine-readable diff artifacts
+    writeDiffArtifacts(versionDir, diffs, newVersion);
+}
@@ -0,0 +1,103 @@
+import { ZodSchema } from 'zod';
+import { SKUFilter } from '../normalize/filters.js';
+import { GLOBAL_REGION } from '../normalize/common.js';
+import { VersionRuleOverride } from '../versioning/policy.js';
+import { GuardrailOverride } from '../versioning/guardrails.js';
+
+/**
+ * Service Plugin
+ * Bundles everything the pipeline needs to support one AWS service
+ *
+ * Registering a plugin in SERVICE_REGISTRY adds the service to
+ * fetch, parity, validation, diffing and the state machine.
+ */
+
+/**
+ * Pricing scope
+ * - regional: processed once per configured region (raw/<Service>/<region>.json)
+ * - global: processed once with region "global" (raw/<Service>/global.json),
+ *   for services priced by edge geography rather than region (e.g. CloudFront)
+ */
+export type PricingScope = 'regional' | 'global';
+
+export interface ServicePlugin<T = any> {
+    /** Service code (matches AWS pricing API) */
+    code: string;
+
+    /** Human-readable service name */
+    name: string;
+
+    /** Output identifier - services/<id>/<region>.json, matches the schema's service literal */
+    id: string;
+
+    /** AWS Pricing API URL (current/index.json) */
+    fetchUrl: string;
+
+    /** Zod schema every processor output must pass */
+    schema: ZodSchema<T>;
+
+    /** Allow-list SKU filters the processor applies to the offer file (never empty) */
+    filters: SKUFilter[];
+
+    /** Processor function - reads raw/<Service>/<region>.json under rawDir */
+    processor: (region: string, rawDir: string) => Promise<T>;
+
+    /** Pricing scope (default: regional) */
+    scope?: PricingScope;
+
+    /** Other services' global offer files the processor reads (service codes) */
+    additionalOffers?: string[];
+
+    /** Versioning policy overrides for paths of this service's output (default rules otherwise) */
+    versionRules?: VersionRuleOverride[];
+
+    /** Price-change guardrail overrides for paths of this service's output (default thresholds otherwise) */
+    guardrails?: GuardrailOverride[];
+
+    /** Whether this service is enabled in the pipeline */
+    enabled: boolean;
+}
+
+/**
+ * Define a service plugin
+ * Ties the processor's return type to its schema at compile time
+ */
+export function defineServicePlugin<T>(plugin: ServicePlugin<T>): ServicePlugin<T> {
+    return plugin;
+}
+
+/**
+ * Regions a plugin is processed for
+ */
+export function pluginRegions(plugin: ServicePlugin, regions: string[]): string[] {
+    return plugin.scope === 'global' ? [GLOBAL_REGION] : regions;
+}
+
+/**
+ * Validate a set of plugins
+ * CRASHES on duplicate codes or output ids - they would silently overwrite each other
+ * CRASHES on a plugin without SKU filters - nothing would bound what its processor reads
+ */
+export function assertValidPlugins(plugins: ServicePlugin[]): void {
+    const codes = new Set<string>();
+    const ids = new Set<string>();
+
+    for (const plugin of plugins) {
+        if (codes.has(plugin.code)) {
+            throw new Error(`[REGISTRY] Duplicate service code: ${plugin.code}`);
+        }
+        if (ids.has(plugin.id)) {
+            throw new Error(`[REGISTRY] Duplicate output id: ${plugin.id} (${plugin.code})`);
+        }
+        if (!/^[a-z0-9-]+$/.test(plugin.id)) {
+            throw new Error(`[REGISTRY] Invalid output id "${plugin.id}" for ${plugin.code}: use lowercase letters, digits and dashes`);
+        }
+
+        if (plugin.filters.length === 0) {
+            throw new Error(`[REGISTRY] No SKU filters for ${plugin.code}: filters are an allow-list and must not be empty`);
+        }
+
+        codes.add(plugin.code);
+        ids.add(plugin.id);
+    }
+}
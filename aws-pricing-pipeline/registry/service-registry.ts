@@ -1,8 +1,13 @@
-import { processEC2 } from '../services/ec2.js';
-import { processS3 } from '../services/s3.js';
-import { processLambda } from '../services/lambda.js';
-import { processVPC } from '../services/vpc.js';
-import { processRDS } from '../services/rds.js';
+import { ec2Plugin } from '../services/ec2.js';
+import { s3Plugin } from '../services/s3.js';
+import { lambdaPlugin } from '../services/lambda.js';
+import { vpcPlugin } from '../services/vpc.js';
+import { rdsPlugin } from '../services/rds.js';
+import { dynamoDBPlugin } from '../services/dynamodb.js';
+import { elastiCachePlugin } from '../services/elasticache.js';
+import { cloudFrontPlugin } from '../services/cloudfront.js';
+import { savingsPlansPlugin } from '../services/savingsplans.js';
+import { ServicePlugin, assertValidPlugins } from './plugin.js';
 
 /**
  * Service Registry
@@ -11,67 +16,27 @@ import { processRDS } from '../services/rds.js';
  * CRITICAL: Every enabled service MUST have both a fetcher and processor
  */
 
-export interface ServiceDefinition {
-    /** Service code (matches AWS pricing API) */
-    code: string;
-
-    /** Human-readable service name */
-    name: string;
-
-    /** AWS Pricing API URL */
-    fetchUrl: string;
-
-    /** Processor function */
-    processor: (region: string) => Promise<any>;
-
-    /** Whether this service is enabled in the pipeline */
-    enabled: boolean;
-}
-
-const AWS_PRICING_BASE = 'https://pricing.us-east-1.amazonaws.com/offers/v1.0/aws';
+export type ServiceDefinition = ServicePlugin;
 
 /**
  * Service Registry
- * Add new services here - they will automatically be fetched and processed
+ * Add new plugins here - they will automatically be fetched, processed,
+ * validated, diffed and tracked by the state machine
  */
 export const SERVICE_REGISTRY: ServiceDefinition[] = [
-    {
-        code: 'AmazonEC2',
-        name: 'EC2',
-        fetchUrl: `${AWS_PRICING_BASE}/AmazonEC2/current/index.json`,
-        processor: processEC2,
-        enabled: true,
-    },
-    {
-        code: 'AmazonS3',
-        name: 'S3',
-        fetchUrl: `${AWS_PRICING_BASE}/AmazonS3/current/index.json`,
-        processor: processS3,
-        enabled: true,
-    },
-    {
-        code: 'AWSLambda',
-        name: 'Lambda',
-        fetchUrl: `${AWS_PRICING_BASE}/AWSLambda/current/index.json`,
-        processor: processLambda,
-        enabled: true,
-    },
-    {
-        code: 'AmazonVPC',
-        name: 'VPC',
-        fetchUrl: `${AWS_PRICING_BASE}/AmazonVPC/current/index.json`,
-        processor: processVPC,
-        enabled: true,
-    },
-    {
-        code: 'AmazonRDS',
-        name: 'RDS',
-        fetchUrl: `${AWS_PRICING_BASE}/AmazonRDS/current/index.json`,
-        processor: processRDS,
-        enabled: true,
-    },
+    ec2Plugin,
+    s3Plugin,
+    lambdaPlugin,
+    vpcPlugin,
+    rdsPlugin,
+    dynamoDBPlugin,
+    elastiCachePlugin,
+    cloudFrontPlugin,
+    savingsPlansPlugin,
 ];
 
+assertValidPlugins(SERVICE_REGISTRY);
+
 /**
  * Get all enabled services
  */
@@ -99,3 +64,41 @@ export function getServiceByCode(code: string): ServiceDefinition | undefined {
 export function getEnabledServiceCodes(): string[] {
     return getEnabledServices().map(s => s.code);
 }
+
+/**
+ * Resolve a service selection
+ * Accepts a comma-separated list of plugin ids or service codes (e.g. "ec2,AmazonS3"),
+ * defaulting to every enabled service. CRASHES on unknown or disabled services.
+ */
+export function resolveServices(spec: string | undefined): ServiceDefinition[] {
+    if (!spec || spec.trim() === '') {
+        return getEnabledServices();
+    }
+
+    const selected: ServiceDefinition[] = [];
+
+    for (const entry of spec.split(',')) {
+        const name = entry.trim();
+        if (name === '') continue;
+
+        const service = getEnabledServices().find(s => s.id === name || s.code === name);
+
+        if (!service) {
+            throw new Error(
+                `[SERVICE CONFIG FAILED] Unknown or disabled service "${name}". ` +
+                `Enabled services: ${getEnabledServices().map(s => s.id).join(', ')}`
+            );
+        }
+
+        if (!selected.includes(service)) {
+            selected.push(service);
+        }
+    }
+
+    if (selected.length === 0) {
+        throw new Error(`[SERVICE CONFIG FAILED] No services in "${spec}"`);
+    }
+
+    // Registry order, so output does not depend on how the list was written
+    return getEnabledServices().filter(s => selected.includes(s));
+}
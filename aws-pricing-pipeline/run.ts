@@ -2,213 +2,453 @@
 
 import fs from 'fs';
 import path from 'path';
+import { parseArgs } from 'util';
 import chalk from 'chalk';
-import { fetchAll } from './fetch/index.js';
-import { getEnabledServices } from './registry/service-registry.js';
-import { assertServiceParity } from './validate/parity.js';
-import { validatePricingData } from './validate/validate.js';
-import { deepSortObject } from './utils/deterministic.js';
+import { resolveRawDir } from './fetch/fetcher.js';
 import { readManifest } from './fetch/manifest.js';
-import { ServiceStateTracker } from './utils/service-state.js';
-import { EC2ServicePricing } from './schema/ec2.schema.js';
-import { S3ServicePricing } from './schema/s3.schema.js';
-import { LambdaServicePricing } from './schema/lambda.schema.js';
-import { VPCServicePricing } from './schema/vpc.schema.js';
-import { RDSServicePricing } from './schema/rds.schema.js';
-import { diffPricing, loadPreviousVersion, generateDiffReport, DiffResult } from './versioning/diff.js';
-import { getCurrentVersion, bumpVersion, createVersionDirectory, updateLatestPointer, writeVersionMetadata } from './versioning/bump.js';
-
-type BumpType = 'major' | 'minor' | 'patch';
+import { generateDiffReport } from './versioning/diff.js';
+import { blockedChanges } from './versioning/guardrails.js';
+import { listVersions } from './versioning/bump.js';
+import {
+    listVersionSummaries,
+    inspectVersion,
+    rollbackVersion,
+    pruneVersions,
+    tagVersion,
+    untagVersion,
+    PruneOptions,
+} from './versioning/manage.js';
+import { materializeVersion } from './versioning/store.js';
+import { verifyPatches } from './versioning/patch.js';
+import { runPipeline, setDefaultLogger, PipelineOptions, PipelineResult, PipelineStage } from './pipeline/index.js';
 
 /**
  * AWS Pricing Pipeline
- * Main orchestrator
+ * Command line entry point
+ *
+ * Commands:
+ * - run (default): fetch, then publish
+ * - fetch: download raw offer files
+ * - process / validate / diff / publish: replay the raw directory and stop after that stage
+ * - status: raw manifest and published versions
+ * - versions / inspect / rollback / prune / tag / untag: manage published versions
+ * - materialize: write a version as a plain directory
+ * - verify-patches: check a version's JSON Patch deltas against the published files
+ *
+ * PRICING_REPLAY=1 makes "run" replay the raw directory (PRICING_RAW_DIR, default raw/)
+ * instead of fetching: the snapshot is verified against its manifest, everything else is unchanged.
  */
 
-async function main() {
-    console.log(chalk.bold.cyan('\n╔════════════════════════════════════════╗'));
-    console.log(chalk.bold.cyan('║  AWS Pricing Pipeline                  ║'));
-    console.log(chalk.bold.cyan('║  Deterministic • Auditable • Versioned ║'));
-    console.log(chalk.bold.cyan('╚════════════════════════════════════════╝\n'));
+const COMMANDS = [
+    'run', 'fetch', 'process', 'validate', 'diff', 'publish',
+    'status', 'versions', 'inspect', 'rollback', 'prune', 'tag', 'untag', 'materialize', 'verify-patches',
+] as const;
+
+type Command = typeof COMMANDS[number];
+
+/** Commands that read or manage the output directory without running the pipeline */
+type OutputCommand = 'status' | 'versions' | 'inspect' | 'rollback' | 'prune' | 'tag' | 'untag' | 'materialize' | 'verify-patches';
+
+/** Positional arguments of each command */
+const COMMAND_ARGS: Partial<Record<Command, string[]>> = {
+    inspect: ['version'],
+    rollback: ['version'],
+    tag: ['version', 'tag'],
+    untag: ['tag'],
+    materialize: ['version', 'dir'],
+    'verify-patches': ['version'],
+};
+
+interface CliOptions {
+    command: Command;
+    /** Positional arguments after the command, as listed in COMMAND_ARGS */
+    args: string[];
+    pipeline: PipelineOptions;
+    rawDir: string;
+    outputDir: string;
+    /** prune: newest versions to keep */
+    keep?: number;
+    /** rollback: why latest moves */
+    reason?: string;
+}
+
+/** Last pipeline stage of each pipeline command */
+const COMMAND_STAGES: Record<Exclude<Command, OutputCommand>, PipelineStage> = {
+    run: 'publish',
+    fetch: 'fetch',
+    process: 'process',
+    validate: 'validate',
+    diff: 'diff',
+    publish: 'publish',
+};
+
+const USAGE = `Usage: run [command] [options]
+
+Commands:
+  run        Fetch, process, validate, diff and publish (default)
+  fetch      Download raw offer files and the download manifest
+  process    Verify the raw directory and run the processors
+  validate   ... and validate against the schemas
+  diff       ... and diff against the latest version
+  publish    ... and write the new version
+  status     Show the raw manifest and published versions
+
+Version management:
+  versions             List published versions with their bump reasons
+  inspect <version>    Show a version's metadata, services, changes and history
+  rollback <version>   Point latest at an earlier version (requires --reason)
+  prune                Delete old versions (keeps latest, tagged and vN.0.0 versions)
+  tag <version> <tag>  Tag a version - tagged versions are never pruned
+  untag <tag>          Remove a tag
+  materialize <version> <dir>
+                       Write a version (or latest) as a plain directory of JSON files
+  verify-patches <version>
+                       Apply the version's JSON Patches to the previous version and check the hashes
+
+Options:
+  --services <list>  Comma-separated plugin ids or service codes (default: all enabled)
+  --regions <list>   Comma-separated region codes (default: PRICING_REGIONS)
+  --out-dir <dir>    Versioned output directory (default: PRICING_OUTPUT_DIR, output/aws)
+  --raw-dir <dir>    Raw offer directory (default: PRICING_RAW_DIR, raw)
+  --dry-run          Print the diffs and planned version bump without writing
+                     (fetch: print the planned offer files without downloading)
+  --strict           Fail validation if any rate is a hardcoded fallback
+  --approvals <file> Approved guardrail changes (default: PRICING_APPROVALS, pricing-approvals.json)
+  --reason <text>    rollback: why latest moves (recorded in history.json)
+  --keep <n>         prune: newest versions to keep (default: 10)
+                     (prune --dry-run: list the versions without deleting)
+`;
+
+/**
+ * Parse command line arguments
+ * CRASHES on unknown commands or options
+ */
+function parseCli(argv: string[]): CliOptions | null {
+    let parsed;
 
     try {
-        // Initialize service state tracker
-        const stateTracker = new ServiceStateTracker();
+        parsed = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            options: {
+                'services': { type: 'string' },
+                'regions': { type: 'string' },
+                'out-dir': { type: 'string' },
+                'raw-dir': { type: 'string' },
+                'dry-run': { type: 'boolean', default: false },
+                'strict': { type: 'boolean', default: false },
+                'approvals': { type: 'string' },
+                'reason': { type: 'string' },
+                'keep': { type: 'string' },
+                'help': { type: 'boolean', short: 'h', default: false },
+            },
+        });
+    } catch (error) {
+        throw new Error(`[CLI] ${error instanceof Error ? error.message : String(error)}\n\n${USAGE}`);
+    }
 
-        // Step 1: Fetch raw pricing data
-        console.log(chalk.bold.yellow('\n[STEP 1/6] Fetching AWS pricing data...\n'));
-        const fetchedServices = await fetchAll();
-        console.log(chalk.green(`✓ Fetched ${fetchedServices.length} services: ${fetchedServices.join(', ')}\n`));
+    const { values, positionals } = parsed;
 
-        // Validate download manifest
-        const manifest = readManifest();
-        console.log(chalk.blue(`[MANIFEST] Downloaded: ${manifest.downloaded.length} services`));
-        console.log(chalk.blue(`[MANIFEST] Failed: ${manifest.failed.length} services`));
+    if (values.help) {
+        return null;
+    }
 
-        if (manifest.failed.length > 0) {
-            throw new Error(`Download validation failed. See manifest for details.`);
-        }
+    const [command = 'run', ...args] = positionals;
+
+    if (!COMMANDS.includes(command as Command)) {
+        throw new Error(`[CLI] Unknown command "${command}"\n\n${USAGE}`);
+    }
+
+    const expected = COMMAND_ARGS[command as Command] ?? [];
+    if (args.length !== expected.length) {
+        const usage = [command, ...expected.map(arg => `<${arg}>`)].join(' ');
+        throw new Error(`[CLI] Usage: ${usage}\n\n${USAGE}`);
+    }
+
+    if (command === 'rollback' && !values.reason) {
+        throw new Error(`[CLI] rollback requires --reason <text>\n\n${USAGE}`);
+    }
+
+    const keep = values.keep === undefined ? undefined : Number(values.keep);
+    if (keep !== undefined && (!Number.isInteger(keep) || keep < 1)) {
+        throw new Error(`[CLI] --keep must be a positive integer, got "${values.keep}"\n\n${USAGE}`);
+    }
+
+    const list = (value: string | undefined) => value?.split(',').map(v => v.trim()).filter(Boolean);
+    const services = list(values.services);
+    const regions = list(values.regions);
+    const rawDir = resolveRawDir(values['raw-dir'] ?? process.env.PRICING_RAW_DIR);
+    const outputDir = values['out-dir'] || process.env.PRICING_OUTPUT_DIR || 'output/aws';
+
+    // "run" fetches (or replays with PRICING_REPLAY=1), every other command replays
+    const fetches = (command === 'run' && process.env.PRICING_REPLAY !== '1') || command === 'fetch';
+
+    const pipeline: PipelineOptions = {
+        rawDir,
+        outputDir,
+        raw: fetches ? 'fetch' : 'replay',
+        dryRun: values['dry-run'] ?? false,
+        strict: values.strict ?? false,
+    };
+
+    if (services) pipeline.services = services;
+    if (regions) pipeline.regions = regions;
+    if (values.approvals) pipeline.approvalsFile = values.approvals;
+    if (command in COMMAND_STAGES) pipeline.until = COMMAND_STAGES[command as Exclude<Command, OutputCommand>];
+
+    const options: CliOptions = { command: command as Command, args, pipeline, rawDir, outputDir };
+    if (keep !== undefined) options.keep = keep;
+    if (values.reason) options.reason = values.reason;
+
+    return options;
+}
 
-        // Mark all downloaded services
-        fetchedServices.forEach(service => stateTracker.markDownloaded(service));
+/**
+ * Print the diffs and planned bump of a run that does not write
+ */
+function printPlan(result: PipelineResult): void {
+    if (result.unchanged) {
+        console.log(chalk.bold.green(`[PLAN] No pricing or schema changes against ${result.version!.current} - nothing to publish`));
+        return;
+    }
 
-        // Step 2: Process services from registry
-        console.log(chalk.bold.yellow('\n[STEP 2/6] Processing services...\n'));
+    console.log(generateDiffReport(result.diffs));
 
-        const region = 'us-east-1';
-        const enabledServices = getEnabledServices();
-        const serviceDataMap = new Map<string, any>();
-        const processedServices: string[] = [];
+    const reason = result.bumpReason
+        ? `${result.bumpReason.service} (${result.bumpReason.region}): ${result.bumpReason.reason}`
+        : 'No previous version (new services or regions)';
 
-        for (const service of enabledServices) {
-            const data = await service.processor(region);
-            serviceDataMap.set(service.code, data);
-            processedServices.push(service.code);
+    console.log(chalk.bold.cyan(`[PLAN] ${result.version!.current} → ${result.version!.next} (${result.bumpType})`));
+    console.log(chalk.cyan(`[PLAN] ${reason}`));
+
+    const blocked = blockedChanges(result.diffs);
+    if (blocked.length > 0) {
+        console.log(chalk.bold.red(`[PLAN] ${blocked.length} change(s) blocked by guardrails - publishing needs an approval for each`));
+    }
+}
 
-            // Mark as normalized
-            stateTracker.markNormalized(service.code);
+/**
+ * Report a finished pipeline command
+ */
+function printResult(options: CliOptions, result: PipelineResult): void {
+    const { command } = options;
+
+    if (command === 'fetch' && options.pipeline.dryRun) {
+        for (const job of result.fetchJobs) {
+            console.log(chalk.blue(`[PLAN] ${job.code}: ${job.regions.join(', ')} → ${options.rawDir}/${job.code}/`));
         }
+        return;
+    }
 
-        // Step 2.5: CRITICAL - Validate service parity
-        console.log(chalk.bold.yellow('\n[STEP 2.5/6] Validating service parity...\n'));
-        assertServiceParity(fetchedServices, processedServices);
-        console.log(chalk.green(`✓ Service parity validated: ${processedServices.length} services fetched and processed\n`));
-
-        // Step 3: Validate pricing data
-        console.log(chalk.bold.yellow('\n[STEP 3/6] Validating pricing data...\n'));
-
-        const schemaMap: Record<string, any> = {
-            'AmazonEC2': EC2ServicePricing,
-            'AmazonS3': S3ServicePricing,
-            'AWSLambda': LambdaServicePricing,
-            'AmazonVPC': VPCServicePricing,
-            'AmazonRDS': RDSServicePricing,
-        };
-
-        for (const [code, data] of serviceDataMap.entries()) {
-            const schema = schemaMap[code];
-            if (schema) {
-                const serviceName = enabledServices.find(s => s.code === code)?.name || code;
-                validatePricingData(data, schema, serviceName);
-                console.log(chalk.green(`✓ ${serviceName} validated`));
-
-                // Mark as validated
-                stateTracker.markValidated(code);
-            }
+    if (result.completed === 'diff') {
+        printPlan(result);
+        return;
+    }
+
+    if (!result.published) {
+        console.log(chalk.bold.green(`\n✓ ${command} completed for ${result.services.length} services`));
+        return;
+    }
+
+    console.log(chalk.bold.green(`\n✓ Pipeline completed successfully!`));
+    console.log(chalk.green(`✓ ${result.summary.versioned}/${result.summary.total} services fully supported\n`));
+    console.log(chalk.green(`Version: ${result.version!.next}`));
+    console.log(chalk.green(`Output: ${result.versionDir}/`));
+    console.log(chalk.green(`Services: ${result.services.length}`));
+    console.log(chalk.green(`Regions: ${result.regions.join(', ')}`));
+}
+
+/**
+ * status: raw manifest and published versions (read-only)
+ */
+function statusCommand(context: CliOptions): void {
+    console.log(chalk.bold(`[STATUS] Raw directory: ${context.rawDir}`));
+
+    if (fs.existsSync(path.join(context.rawDir, 'download-manifest.json'))) {
+        const manifest = readManifest(context.rawDir);
+        console.log(chalk.blue(`  Manifest: ${manifest.timestamp}`));
+
+        for (const code of manifest.downloaded) {
+            const files = manifest.files?.[code] || {};
+            const regions = (manifest.regions[code] || []).map(region => {
+                const file = files[region];
+                return file ? `${region} (${file.publicationDate})` : region;
+            });
+            console.log(chalk.green(`  ${code}: ${regions.join(', ')}`));
         }
-        // Step 4: Diff against previous version
-        console.log(chalk.bold.yellow('\n[STEP 4/6] Computing diffs...\n'));
-
-        const diffs: DiffResult[] = [];
-
-        const services = Array.from(serviceDataMap.entries()).map(([code, data]) => ({
-            name: enabledServices.find(s => s.code === code)?.name.toLowerCase() || code.toLowerCase(),
-            data,
-        }));
-
-        for (const service of services) {
-            const previous = loadPreviousVersion(service.name);
-            if (previous) {
-                const diff = diffPricing(previous, service.data, service.name);
-                diffs.push(diff);
-                console.log(chalk.blue(`[DIFF] ${diff.summary}`));
-            } else {
-                console.log(chalk.yellow(`[DIFF] ${service.name}: No previous version (new service)`));
-            }
+
+        for (const code of manifest.failed) {
+            console.log(chalk.red(`  ${code}: failed`));
         }
+    } else {
+        console.log(chalk.yellow('  No download manifest - run "fetch" first'));
+    }
 
-        // Step 5: Determine version bump
-        console.log(chalk.bold.yellow('\n[STEP 5/6] Determining version bump...\n'));
+    console.log(chalk.bold(`\n[STATUS] Output directory: ${context.outputDir}`));
 
-        const currentVersion = getCurrentVersion();
+    const versions = listVersions(context.outputDir);
+    const latestMetadata = path.join(context.outputDir, 'latest', 'metadata.json');
 
-        // Determine the highest priority bump type from all diffs
-        const maxBumpType: BumpType = diffs.length > 0
-            ? diffs.reduce((max: BumpType, d) => {
-                const priority: Record<BumpType, number> = { major: 3, minor: 2, patch: 1 };
-                return priority[d.bumpType] > priority[max] ? d.bumpType : max;
-            }, 'patch' as BumpType)
-            : 'minor'; // Default to minor for new services
+    if (versions.length === 0) {
+        console.log(chalk.yellow('  No published versions'));
+        return;
+    }
 
-        // Find the service that caused the highest bump
-        const causingDiff = diffs.find(d => d.bumpType === maxBumpType) || diffs[0];
+    if (fs.existsSync(latestMetadata)) {
+        console.log(chalk.blue(`  Latest: ${JSON.parse(fs.readFileSync(latestMetadata, 'utf-8')).version}`));
+    }
 
-        const bumpReason = causingDiff ? {
-            service: causingDiff.service,
-            type: causingDiff.bumpType,
-            reason: causingDiff.reason
-        } : undefined;
+    console.log(chalk.blue(`  Versions: ${versions.join(', ')}`));
+}
 
-        const newVersion = bumpVersion(currentVersion, maxBumpType);
+/**
+ * versions / inspect / rollback / prune / tag / untag / materialize / verify-patches
+ * CRASHES on unknown versions or tags
+ */
+function versionCommand(context: CliOptions): void {
+    const { command, args, outputDir } = context;
 
-        // Step 6: Write output
-        console.log(chalk.bold.yellow('\n[STEP 6/6] Writing versioned output...\n'));
+    switch (command) {
+        case 'versions': {
+            const summaries = listVersionSummaries(outputDir);
 
-        const versionDir = createVersionDirectory(newVersion);
-        const servicesDir = path.join(versionDir, 'services');
+            if (summaries.length === 0) {
+                console.log(chalk.yellow(`No published versions in ${outputDir}`));
+            }
 
-        // Write service files with deterministic output
-        for (const service of services) {
-            const filePath = path.join(servicesDir, `${service.name}.json`);
+            for (const { version, metadata, latest, tags } of summaries) {
+                const labels = [...(latest ? ['latest'] : []), ...tags];
+                const reason = metadata.bumpReason
+                    ? `${metadata.bumpReason.type}: ${metadata.bumpReason.service} (${metadata.bumpReason.region}) ${metadata.bumpReason.reason}`
+                    : 'initial version or new services';
 
-            // Update version in data
-            const dataWithVersion = {
-                ...service.data,
-                version: newVersion.next,
-            };
+                console.log(chalk.bold(`${version}${labels.length > 0 ? ` [${labels.join(', ')}]` : ''}`) + chalk.gray(`  ${metadata.createdAt}`));
+                console.log(chalk.blue(`  ${reason}`));
+            }
+            return;
+        }
 
-            // Sort keys recursively for deterministic output
-            const sorted = deepSortObject(dataWithVersion);
+        case 'inspect': {
+            const details = inspectVersion(args[0]!, outputDir);
+            const { metadata } = details;
 
-            fs.writeFileSync(filePath, JSON.stringify(sorted, null, 2));
-            console.log(chalk.green(`[WRITE] ${filePath}`));
+            console.log(chalk.bold(`${details.version}${details.latest ? ' (latest)' : ''}`));
+            console.log(chalk.blue(`  Created: ${metadata.createdAt}`));
+            console.log(chalk.blue(`  Previous: ${metadata.previousVersion ?? '-'}`));
+            if (metadata.bumpReason) {
+                console.log(chalk.blue(`  Bump: ${metadata.bumpReason.type} - ${metadata.bumpReason.service} (${metadata.bumpReason.region}): ${metadata.bumpReason.reason}`));
+            }
+            if (metadata.raw) {
+                console.log(chalk.blue(`  Raw: ${metadata.raw.mode} ${metadata.raw.rawDir} (manifest ${metadata.raw.manifestTimestamp})`));
+            }
+            if (details.tags.length > 0) {
+                console.log(chalk.blue(`  Tags: ${details.tags.join(', ')}`));
+            }
+            if (details.changes) {
+                const { serviceRegions, byBump } = details.changes;
+                console.log(chalk.blue(`  Changes: ${serviceRegions} service regions (${byBump.major} major, ${byBump.minor} minor, ${byBump.patch} patch)`));
+            }
 
-            // Mark as output
-            const serviceCode = enabledServices.find(s => s.name.toLowerCase() === service.name)?.code;
-            if (serviceCode) {
-                stateTracker.markOutput(serviceCode);
+            console.log(chalk.bold('  Services:'));
+            for (const [service, regions] of Object.entries(details.services)) {
+                console.log(chalk.green(`    ${service}: ${regions.join(', ')}`));
             }
+
+            if (details.history.length > 0) {
+                console.log(chalk.bold('  History:'));
+                for (const entry of details.history) {
+                    const detail = entry.reason ? ` - ${entry.reason}` : entry.tag ? ` ${entry.tag}` : '';
+                    console.log(chalk.gray(`    ${entry.at} ${entry.action}${detail} (${entry.user})`));
+                }
+            }
+            return;
         }
 
-        // Write metadata with bump reason
-        writeVersionMetadata(newVersion, versionDir, bumpReason);
+        case 'rollback':
+            rollbackVersion(args[0]!, context.reason!, outputDir);
+            return;
 
-        // Write diff report
-        const diffReport = generateDiffReport(diffs);
-        const diffReportPath = path.join(versionDir, 'DIFF_REPORT.md');
-        fs.writeFileSync(diffReportPath, diffReport);
-        console.log(chalk.green(`[WRITE] ${diffReportPath}`));
+        case 'prune': {
+            const pruneOptions: PruneOptions = { dryRun: context.pipeline.dryRun ?? false };
+            if (context.keep !== undefined) pruneOptions.keep = context.keep;
 
-        // Update latest pointer
-        updateLatestPointer(newVersion);
+            const result = pruneVersions(pruneOptions, outputDir);
 
-        // Mark all services as versioned
-        for (const service of services) {
-            const serviceCode = enabledServices.find(s => s.name.toLowerCase() === service.name)?.code;
-            if (serviceCode) {
-                stateTracker.markVersioned(serviceCode);
+            for (const [version, why] of Object.entries(result.kept)) {
+                console.log(chalk.green(`  keep   ${version} (${why})`));
+            }
+            for (const version of result.removed) {
+                console.log(chalk.yellow(`  ${pruneOptions.dryRun ? 'would remove' : 'removed'} ${version}`));
             }
+            if (result.deletedObjects > 0) {
+                console.log(chalk.yellow(`  deleted ${result.deletedObjects} unreferenced objects`));
+            }
+            return;
         }
 
-        // Validate all services reached VERSIONED state
-        stateTracker.validateAllVersioned();
+        case 'tag':
+            tagVersion(args[0]!, args[1]!, outputDir);
+            return;
+
+        case 'untag':
+            untagVersion(args[0]!, outputDir);
+            return;
+
+        case 'materialize':
+            materializeVersion(outputDir, args[0]!, args[1]!);
+            return;
 
-        const summary = stateTracker.getSummary();
-        console.log(chalk.bold.green(`\n✓ Pipeline completed successfully!`));
-        console.log(chalk.green(`✓ ${summary.versioned}/${summary.total} services fully supported\n`));
-        console.log(chalk.green(`Version: ${newVersion.next}`));
-        console.log(chalk.green(`Output: output/aws/${newVersion.next}/`));
-        console.log(chalk.green(`Services: ${services.length}`));
+        case 'verify-patches':
+            console.log(chalk.bold.green(`✓ ${verifyPatches(outputDir, args[0]!)} patches of ${args[0]} verified`));
+            return;
+    }
+}
 
+async function main() {
+    // The library is silent by default - the CLI shows progress
+    setDefaultLogger(console);
+
+    try {
+        const options = parseCli(process.argv.slice(2));
+
+        if (!options) {
+            console.log(USAGE);
+            process.exit(0);
+        }
+
+        if (options.command === 'status') {
+            statusCommand(options);
+            process.exit(0);
+        }
+
+        if (!(options.command in COMMAND_STAGES)) {
+            versionCommand(options);
+            process.exit(0);
+        }
+
+        console.log(chalk.bold.cyan('\n╔════════════════════════════════════════╗'));
+        console.log(chalk.bold.cyan('║  AWS Pricing Pipeline                  ║'));
+        console.log(chalk.bold.cyan('║  Deterministic • Auditable • Versioned ║'));
+        console.log(chalk.bold.cyan('╚════════════════════════════════════════╝\n'));
+
+        const result = await runPipeline(options.pipeline);
+
+        if (!result.success) {
+            console.error(chalk.bold.red('\n✗ Pipeline failed!\n'));
+
+            for (const failure of result.failures) {
+                const where = failure.service ? `${failure.stage}, ${failure.service}` : failure.stage;
+                console.error(chalk.red(`[${where}] ${failure.error}`));
+            }
+
+            process.exit(1);
+        }
+
+        printResult(options, result);
         process.exit(0);
     } catch (error) {
         console.error(chalk.bold.red('\n✗ Pipeline failed!\n'));
         console.error(chalk.red(error instanceof Error ? error.message : String(error)));
-
-        if (error instanceof Error && error.stack) {
-            console.error(chalk.gray(error.stack));
-        }
-
         process.exit(1);
     }
 }
@@ -16,6 +16,8 @@ export const PricingUnit = z.enum([
     'ecpu_hour',
     'second',
     'minute',
+    'iops_month',
+    'gibps_month',
 ]);
 
 export type PricingUnit = z.infer<typeof PricingUnit>;
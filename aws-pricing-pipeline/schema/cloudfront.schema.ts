@@ -0,0 +1,52 @@
+import { z } from 'zod';
+import { BaseServicePricing, SimpleRate, PricingTier } from './base.js';
+
+/**
+ * CloudFront Request Pricing
+ */
+export const CloudFrontRequestPricing = z.object({
+    http: SimpleRate,  // per HTTP request
+    https: SimpleRate, // per HTTPS request
+});
+
+/**
+ * CloudFront pricing for one edge geography (e.g. "unitedStates", "europe")
+ */
+export const CloudFrontGeographyPricing = z.object({
+    dataTransferOut: z.array(PricingTier),   // to internet, tiered per GB
+    dataTransferToOrigin: SimpleRate.optional(),
+    requests: CloudFrontRequestPricing,
+    originShield: SimpleRate.optional(),     // per request reaching Origin Shield
+});
+
+/**
+ * Lambda@Edge Pricing
+ */
+export const LambdaAtEdgePricing = z.object({
+    requests: SimpleRate, // per request
+    duration: SimpleRate, // per GB-second
+});
+
+/**
+ * CloudFront Functions Pricing
+ */
+export const CloudFrontFunctionsPricing = z.object({
+    invocations: SimpleRate, // per invocation
+});
+
+/**
+ * Complete CloudFront Service Pricing
+ * Region is always "global" - geography is the pricing dimension
+ */
+export const CloudFrontServicePricing = BaseServicePricing.extend({
+    service: z.literal('cloudfront'),
+    components: z.object({
+        // Keyed by normalized edge geography (see normalizeEdgeGeography)
+        geographies: z.record(z.string(), CloudFrontGeographyPricing),
+        invalidations: z.array(PricingTier), // per path, first paths free
+        lambdaAtEdge: LambdaAtEdgePricing,
+        functions: CloudFrontFunctionsPricing,
+    }),
+});
+
+export type CloudFrontServicePricing = z.infer<typeof CloudFrontServicePricing>;
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { SimpleRate } from './base.js';
+
+/**
+ * Commitment pricing (Reserved Instances, Savings Plans)
+ * Shared by every service that sells reserved capacity (EC2, RDS, ElastiCache, ...)
+ * and by the Savings Plans service
+ */
+
+/**
+ * Reserved term key: <length>_<offeringClass>_<purchaseOption>
+ * e.g. "1yr_standard_noUpfront", "3yr_convertible_allUpfront"
+ */
+export const ReservedTermKey = z.string().regex(
+    /^(1yr|3yr)_(standard|convertible)_(noUpfront|partialUpfront|allUpfront)$/,
+    'Reserved term key must be <1yr|3yr>_<standard|convertible>_<noUpfront|partialUpfront|allUpfront>'
+);
+
+export type ReservedTermKey = z.infer<typeof ReservedTermKey>;
+
+/**
+ * One reserved offering
+ * upfront: one-time fee (0 for No Upfront), recurring: hourly charge (0 for All Upfront)
+ */
+export const ReservedRate = z.object({
+    upfront: SimpleRate.extend({ unit: z.literal('flat') }),
+    recurring: SimpleRate.extend({ unit: z.literal('hour') }),
+});
+
+export type ReservedRate = z.infer<typeof ReservedRate>;
+
+/**
+ * Commitments block
+ * reserved: resource type (e.g. "m5.large", "db.r6g.xlarge") → term key → rate
+ */
+export const CommitmentPricing = z.object({
+    reserved: z.record(z.string(), z.record(ReservedTermKey, ReservedRate)),
+});
+
+export type CommitmentPricing = z.infer<typeof CommitmentPricing>;
+
+/**
+ * Savings Plans term key: <length>_<purchaseOption>
+ * e.g. "1yr_noUpfront", "3yr_allUpfront"
+ */
+export const SavingsPlanTermKey = z.string().regex(
+    /^(1yr|3yr)_(noUpfront|partialUpfront|allUpfront)$/,
+    'Savings Plans term key must be <1yr|3yr>_<noUpfront|partialUpfront|allUpfront>'
+);
+
+export type SavingsPlanTermKey = z.infer<typeof SavingsPlanTermKey>;
+
+/**
+ * Savings Plans rates of one resource: term key → discounted usage rate
+ */
+export const SavingsPlanRates = z.record(SavingsPlanTermKey, SimpleRate);
+
+export type SavingsPlanRates = z.infer<typeof SavingsPlanRates>;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from '@jest/globals';
+import { PricingTier } from './base.js';
+import { calculateServiceCost, formatCents, priceComponent } from './cost.js';
+
+const TRANSFER_TIERS: PricingTier[] = [
+    { upTo: 10240, rate: 0.09, unit: 'gb' },
+    { upTo: 51200, rate: 0.085, unit: 'gb' },
+    { upTo: 'Infinity', rate: 0.07, unit: 'gb' },
+];
+
+describe('priceComponent', () => {
+    it('prices a simple rate as quantity × rate', () => {
+        expect(priceComponent({ rate: 0.0116, unit: 'hour' }, { quantity: 730, unit: 'hour' }))
+            .toEqual({ quantity: 730, unit: 'hour', cents: 847 });
+    });
+
+    it('splits usage across cumulative tiers', () => {
+        const priced = priceComponent(TRANSFER_TIERS, { quantity: 60000, unit: 'gb' });
+
+        // 10240 × 0.09 + 40960 × 0.085 + 8800 × 0.07 = 921.60 + 3481.60 + 616.00
+        expect(priced.cents).toBe(501920);
+        expect(priced.tiers).toEqual([
+            { upTo: 10240, quantity: 10240, rate: 0.09, cents: 92160 },
+            { upTo: 51200, quantity: 40960, rate: 0.085, cents: 348160 },
+            { upTo: 'Infinity', quantity: 8800, rate: 0.07, cents: 61600 },
+        ]);
+    });
+
+    it('leaves out tiers the usage does not reach', () => {
+        const priced = priceComponent(TRANSFER_TIERS, { quantity: 10240, unit: 'gb' });
+
+        expect(priced.cents).toBe(92160);
+        expect(priced.tiers).toEqual([{ upTo: 10240, quantity: 10240, rate: 0.09, cents: 92160 }]);
+    });
+
+    it('rounds half-up to the cent without floating point error', () => {
+        // 1.005 is 1.00499999999999989... as a double
+        expect(priceComponent({ rate: 1.005, unit: 'hour' }, { quantity: 1, unit: 'hour' }).cents).toBe(101);
+        expect(priceComponent({ rate: 0.005, unit: 'hour' }, { quantity: 1, unit: 'hour' }).cents).toBe(1);
+        expect(priceComponent({ rate: 0.0049, unit: 'hour' }, { quantity: 1, unit: 'hour' }).cents).toBe(0);
+    });
+
+    it('rounds a tiered component once, not per tier', () => {
+        const tiers: PricingTier[] = [
+            { upTo: 1, rate: 0.005, unit: 'gb' },
+            { upTo: 'Infinity', rate: 0.005, unit: 'gb' },
+        ];
+        const priced = priceComponent(tiers, { quantity: 2, unit: 'gb' });
+
+        expect(priced.tiers!.map(tier => tier.cents)).toEqual([1, 1]);
+        expect(priced.cents).toBe(1);
+    });
+
+    it('converts usage into the pricing unit', () => {
+        expect(priceComponent({ rate: 0.2, unit: 'million_requests' }, { quantity: 5_000_000, unit: 'request' }).cents).toBe(100);
+        expect(priceComponent({ rate: 0.01, unit: 'minute' }, { quantity: 2, unit: 'hour' }))
+            .toEqual({ quantity: 120, unit: 'minute', cents: 120 });
+    });
+
+    it('refuses to convert hours into Lambda GB-seconds', () => {
+        expect(() => priceComponent({ rate: 0.0000166667, unit: 'second' }, { quantity: 1, unit: 'hour' }))
+            .toThrow('[COST] Cannot convert hour to second');
+    });
+
+    it('refuses incompatible units', () => {
+        expect(() => priceComponent({ rate: 0.023, unit: 'gb_month' }, { quantity: 1, unit: 'hour' }))
+            .toThrow('[COST] Cannot convert hour to gb_month');
+    });
+});
+
+describe('calculateServiceCost', () => {
+    it('resolves component paths whose keys contain dots', () => {
+        const components = { instances: { 't3.micro': { rate: 0.0104, unit: 'hour' } } };
+
+        expect(calculateServiceCost('ec2', components, { 'instances.t3.micro': { quantity: 100, unit: 'hour' } }))
+            .toEqual([{ service: 'ec2', component: 'instances.t3.micro', quantity: 100, unit: 'hour', cents: 104, cost: '1.04' }]);
+    });
+
+    it('crashes on an unknown component', () => {
+        expect(() => calculateServiceCost('ec2', {}, { 'instances.t3.micro': { quantity: 1, unit: 'hour' } }))
+            .toThrow('[COST] Unknown component ec2.instances.t3.micro');
+    });
+});
+
+describe('formatCents', () => {
+    it('formats cents as dollars', () => {
+        expect(formatCents(123456)).toBe('1234.56');
+        expect(formatCents(5)).toBe('0.05');
+        expect(formatCents(-150)).toBe('-1.50');
+    });
+});
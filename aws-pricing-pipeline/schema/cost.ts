@@ -0,0 +1,350 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { PricingUnit, ComponentPricing } from './base.js';
+import { getAllServices } from '../registry/service-registry.js';
+import { pluginRegions } from '../registry/plugin.js';
+import { readServiceFile } from '../versioning/store.js';
+
+/**
+ * Cost calculation engine
+ * Evaluates a usage document against a published pricing version
+ *
+ * The ONE place tier semantics are defined:
+ * - SimpleRate: quantity × rate
+ * - PricingTier[]: cumulative - each tier prices the quantity between the
+ *   previous tier's upTo and its own; "Infinity" prices everything above
+ *
+ * All arithmetic is exact (BigInt rationals); each component is rounded
+ * half-up to the cent once, and the total is the sum of component cents.
+ */
+
+/**
+ * One usage quantity, e.g. { quantity: 70000, unit: 'gb_month' }
+ */
+export const UsageQuantity = z.object({
+    quantity: z.number().nonnegative().finite(),
+    unit: PricingUnit,
+});
+
+export type UsageQuantity = z.infer<typeof UsageQuantity>;
+
+/**
+ * Usage document: service id → component path → quantity
+ * e.g. { s3: { 'storage.standard': { quantity: 70000, unit: 'gb_month' } } }
+ */
+export const UsageDocument = z.record(
+    z.string(),
+    z.record(z.string(), UsageQuantity)
+);
+
+export type UsageDocument = z.infer<typeof UsageDocument>;
+
+export interface TierCost {
+    upTo: number | 'Infinity';
+    quantity: number;
+    rate: number;
+    cents: number;
+}
+
+export interface ComponentCost {
+    service: string;
+    component: string;
+    /** Quantity in the pricing unit */
+    quantity: number;
+    unit: PricingUnit;
+    cents: number;
+    cost: string;
+    /** Per-tier breakdown (tiered components only) */
+    tiers?: TierCost[];
+}
+
+export interface CostBreakdown {
+    version: string;
+    region: string;
+    currency: 'USD';
+    components: ComponentCost[];
+    totalCents: number;
+    total: string;
+}
+
+export interface CostOptions {
+    /** Published version ("v1.2.0") or "latest" */
+    version: string;
+
+    /** Region of regional services - global services always use "global" */
+    region: string;
+
+    /** Pipeline output directory */
+    outputDir?: string;
+}
+
+/**
+ * Exact rational number
+ */
+interface Exact {
+    num: bigint;
+    den: bigint;
+}
+
+const ZERO: Exact = { num: 0n, den: 1n };
+
+function gcd(a: bigint, b: bigint): bigint {
+    a = a < 0n ? -a : a;
+    while (b !== 0n) {
+        [a, b] = [b, a % b];
+    }
+    return a;
+}
+
+function reduce(num: bigint, den: bigint): Exact {
+    const divisor = gcd(num, den) || 1n;
+    return { num: num / divisor, den: den / divisor };
+}
+
+/**
+ * Exact value of a JSON number (its shortest decimal representation)
+ * 0.0000166667 → 166667 / 10^10, 1.2e-7 → 12 / 10^8
+ */
+function exact(value: number): Exact {
+    if (!Number.isFinite(value)) {
+        throw new Error(`[COST] Cannot price non-finite value: ${value}`);
+    }
+
+    const [mantissa, exponentPart] = String(value).split('e');
+    const exponent = Number(exponentPart ?? 0);
+    const [whole, fraction = ''] = mantissa!.split('.');
+    const digits = BigInt(`${whole}${fraction}`);
+    const scale = fraction.length - exponent;
+
+    return scale >= 0
+        ? reduce(digits, 10n ** BigInt(scale))
+        : reduce(digits * 10n ** BigInt(-scale), 1n);
+}
+
+function add(a: Exact, b: Exact): Exact {
+    return reduce(a.num * b.den + b.num * a.den, a.den * b.den);
+}
+
+function sub(a: Exact, b: Exact): Exact {
+    return reduce(a.num * b.den - b.num * a.den, a.den * b.den);
+}
+
+function mul(a: Exact, b: Exact): Exact {
+    return reduce(a.num * b.num, a.den * b.den);
+}
+
+function min(a: Exact, b: Exact): Exact {
+    return a.num * b.den <= b.num * a.den ? a : b;
+}
+
+function isPositive(a: Exact): boolean {
+    return a.num > 0n;
+}
+
+/**
+ * Round half-up to whole cents
+ */
+function toCents(amount: Exact): number {
+    const scaled = amount.num * 100n;
+    const cents = (scaled * 2n + amount.den) / (amount.den * 2n);
+    return Number(cents);
+}
+
+function toNumber(amount: Exact): number {
+    return Number(amount.num) / Number(amount.den);
+}
+
+/**
+ * "1234.5" style USD string from cents
+ */
+export function formatCents(cents: number): string {
+    const sign = cents < 0 ? '-' : '';
+    const abs = Math.abs(cents);
+    return `${sign}${Math.floor(abs / 100)}.${String(abs % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Unit conversion groups - factors to the group's base unit
+ * Units outside a group only convert to themselves. second is not a time unit: it is
+ * only published for Lambda GB-seconds (memory × duration), so hours of usage never
+ * convert into it
+ */
+const UNIT_FACTORS: Partial<Record<PricingUnit, { group: string; factor: bigint }>> = {
+    minute: { group: 'time', factor: 1n },
+    hour: { group: 'time', factor: 60n },
+    request: { group: 'requests', factor: 1n },
+    million_requests: { group: 'requests', factor: 1_000_000n },
+};
+
+/**
+ * Convert a quantity into the pricing unit
+ * CRASHES on incompatible units (e.g. gb → hour)
+ */
+function convertQuantity(quantity: Exact, from: PricingUnit, to: PricingUnit): Exact {
+    if (from === to) {
+        return quantity;
+    }
+
+    const source = UNIT_FACTORS[from];
+    const target = UNIT_FACTORS[to];
+
+    if (!source || !target || source.group !== target.group) {
+        throw new Error(`[COST] Cannot convert ${from} to ${to}`);
+    }
+
+    return mul(quantity, reduce(source.factor, target.factor));
+}
+
+/**
+ * Price one component for one usage quantity
+ */
+export function priceComponent(
+    pricing: ComponentPricing,
+    usage: UsageQuantity
+): { quantity: number; unit: PricingUnit; cents: number; tiers?: TierCost[] } {
+    if (!Array.isArray(pricing)) {
+        const quantity = convertQuantity(exact(usage.quantity), usage.unit, pricing.unit);
+        return {
+            quantity: toNumber(quantity),
+            unit: pricing.unit,
+            cents: toCents(mul(quantity, exact(pricing.rate))),
+        };
+    }
+
+    const unit = pricing[0]!.unit;
+    const mixed = pricing.find(tier => tier.unit !== unit);
+    if (mixed) {
+        throw new Error(`[COST] Tiers mix units ${unit} and ${mixed.unit}`);
+    }
+
+    const quantity = convertQuantity(exact(usage.quantity), usage.unit, unit);
+    const tiers: TierCost[] = [];
+    let total = ZERO;
+    let previous = ZERO;
+
+    for (const tier of pricing) {
+        const upper = tier.upTo === 'Infinity' ? quantity : min(quantity, exact(tier.upTo));
+        const inTier = sub(upper, previous);
+
+        if (isPositive(inTier)) {
+            const cost = mul(inTier, exact(tier.rate));
+            total = add(total, cost);
+            tiers.push({ upTo: tier.upTo, quantity: toNumber(inTier), rate: tier.rate, cents: toCents(cost) });
+        }
+
+        if (tier.upTo === 'Infinity') break;
+        previous = exact(tier.upTo);
+    }
+
+    return { quantity: toNumber(quantity), unit, cents: toCents(total), tiers };
+}
+
+/**
+ * Resolve a dotted component path against a components object
+ * Keys may contain dots themselves ("instances.t3.micro") - the longest matching key wins
+ */
+function resolveComponent(components: unknown, componentPath: string): unknown {
+    if (componentPath === '') {
+        return components;
+    }
+
+    if (typeof components !== 'object' || components === null || Array.isArray(components)) {
+        return undefined;
+    }
+
+    const record = components as Record<string, unknown>;
+    const keys = Object.keys(record)
+        .filter(key => componentPath === key || componentPath.startsWith(`${key}.`))
+        .sort((a, b) => b.length - a.length);
+
+    for (const key of keys) {
+        const resolved = resolveComponent(record[key], componentPath.slice(key.length + 1));
+        if (resolved !== undefined) {
+            return resolved;
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Price a service's usage against its components
+ */
+export function calculateServiceCost(
+    service: string,
+    components: unknown,
+    usage: Record<string, UsageQuantity>
+): ComponentCost[] {
+    return Object.entries(usage).map(([component, quantity]) => {
+        const resolved = resolveComponent(components, component);
+
+        if (resolved === undefined) {
+            throw new Error(`[COST] Unknown component ${service}.${component}`);
+        }
+
+        const pricing = ComponentPricing.safeParse(resolved);
+        if (!pricing.success) {
+            throw new Error(`[COST] ${service}.${component} is not a SimpleRate or PricingTier[]`);
+        }
+
+        const priced = priceComponent(pricing.data, quantity);
+        const cost: ComponentCost = {
+            service,
+            component,
+            quantity: priced.quantity,
+            unit: priced.unit,
+            cents: priced.cents,
+            cost: formatCents(priced.cents),
+        };
+
+        if (priced.tiers) cost.tiers = priced.tiers;
+
+        return cost;
+    });
+}
+
+/**
+ * Evaluate a usage document against a published version
+ * Every service file is validated against its plugin's schema before pricing
+ */
+export function calculateCost(usage: UsageDocument, options: CostOptions): CostBreakdown {
+    const outputDir = options.outputDir || 'output/aws';
+    const versionDir = path.join(outputDir, options.version);
+
+    if (!fs.existsSync(versionDir)) {
+        throw new Error(`[COST] Version not found: ${versionDir}`);
+    }
+
+    const parsedUsage = UsageDocument.parse(usage);
+    const components: ComponentCost[] = [];
+
+    for (const [serviceId, serviceUsage] of Object.entries(parsedUsage)) {
+        const plugin = getAllServices().find(s => s.id === serviceId);
+
+        if (!plugin) {
+            throw new Error(`[COST] Unknown service: ${serviceId}`);
+        }
+
+        const [region] = pluginRegions(plugin, [options.region]);
+        const data = readServiceFile(outputDir, options.version, serviceId, region!);
+
+        if (!data) {
+            throw new Error(`[COST] No ${serviceId} pricing for ${region} in ${options.version}`);
+        }
+
+        const pricing = plugin.schema.parse(data);
+        components.push(...calculateServiceCost(serviceId, pricing.components, serviceUsage));
+    }
+
+    const totalCents = components.reduce((sum, c) => sum + c.cents, 0);
+
+    return {
+        version: options.version,
+        region: options.region,
+        currency: 'USD',
+        components,
+        totalCents,
+        total: formatCents(totalCents),
+    };
+}
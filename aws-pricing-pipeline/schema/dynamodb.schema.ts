@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { BaseServicePricing, SimpleRate, ComponentPricing } from './base.js';
+
+/**
+ * DynamoDB On-Demand Request Pricing
+ */
+export const DynamoDBOnDemandPricing = z.object({
+    readRequestUnits: SimpleRate,  // per read request unit
+    writeRequestUnits: SimpleRate, // per write request unit
+});
+
+/**
+ * DynamoDB Provisioned Capacity Pricing (tiered: free-tier units first)
+ */
+export const DynamoDBProvisionedPricing = z.object({
+    readCapacityUnits: ComponentPricing,  // per RCU-hour
+    writeCapacityUnits: ComponentPricing, // per WCU-hour
+});
+
+/**
+ * DynamoDB Table Storage Pricing (by table class)
+ */
+export const DynamoDBStoragePricing = z.object({
+    standard: ComponentPricing,   // per GB-month (first 25 GB free)
+    standardIA: ComponentPricing, // per GB-month
+});
+
+/**
+ * DynamoDB Backup Pricing
+ */
+export const DynamoDBBackupPricing = z.object({
+    pointInTimeRecovery: SimpleRate, // per GB-month of table size
+    onDemand: SimpleRate,            // per GB-month of backup storage
+});
+
+/**
+ * DynamoDB Global Tables Pricing
+ */
+export const DynamoDBGlobalTablesPricing = z.object({
+    replicatedWriteRequestUnits: SimpleRate,  // on-demand tables
+    replicatedWriteCapacityUnits: SimpleRate, // provisioned tables, per rWCU-hour
+});
+
+/**
+ * DynamoDB Streams Pricing
+ */
+export const DynamoDBStreamsPricing = z.object({
+    readRequestUnits: ComponentPricing, // per streams read request unit
+});
+
+/**
+ * Complete DynamoDB Service Pricing
+ */
+export const DynamoDBServicePricing = BaseServicePricing.extend({
+    service: z.literal('dynamodb'),
+    components: z.object({
+        onDemand: DynamoDBOnDemandPricing,
+        provisioned: DynamoDBProvisionedPricing,
+        storage: DynamoDBStoragePricing,
+        backup: DynamoDBBackupPricing,
+        globalTables: DynamoDBGlobalTablesPricing,
+        streams: DynamoDBStreamsPricing,
+    }),
+});
+
+export type DynamoDBServicePricing = z.infer<typeof DynamoDBServicePricing>;
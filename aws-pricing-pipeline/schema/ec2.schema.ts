@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { BaseServicePricing, SimpleRate, PricingTier } from './base.js';
+import { CommitmentPricing } from './commitments.js';
 
 /**
  * EC2 Instance Pricing
@@ -20,9 +21,10 @@ export const EBSVolumePricing = z.object({
     st1: SimpleRate,
     sc1: SimpleRate,
     standard: SimpleRate,
-    // IOPS pricing for io1/io2
+    // IOPS pricing for io1/io2/gp3 (io2 IOPS are tiered: ≤32,000, ≤64,000, above)
     io1_iops: SimpleRate.optional(),
-    io2_iops: SimpleRate.optional(),
+    io2_iops: z.array(PricingTier).optional(),
+    gp3_iops: SimpleRate.optional(),
     // Throughput pricing for gp3
     gp3_throughput: SimpleRate.optional(),
 });
@@ -63,6 +65,8 @@ export const EC2ServicePricing = BaseServicePricing.extend({
         snapshots: EBSSnapshotPricing,
         dataTransfer: DataTransferPricing,
         elasticIP: ElasticIPPricing,
+        // Reserved Instances, keyed by instance type
+        commitments: CommitmentPricing.optional(),
     }),
 });
 
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { BaseServicePricing, SimpleRate } from './base.js';
+import { CommitmentPricing } from './commitments.js';
+
+/**
+ * ElastiCache Service Pricing Schema
+ * Covers on-demand and reserved node pricing
+ */
+
+/**
+ * Cache engines the pipeline prices - a node type costs differently per engine
+ */
+export const ElastiCacheEngine = z.enum(['redis', 'valkey', 'memcached']);
+
+export type ElastiCacheEngine = z.infer<typeof ElastiCacheEngine>;
+
+export const ElastiCacheServicePricing = BaseServicePricing.extend({
+    service: z.literal('elasticache'),
+    components: z.object({
+        // Node pricing by engine, then node type (e.g., redis → cache.t3.micro)
+        nodes: z.record(ElastiCacheEngine, z.record(z.string(), SimpleRate)),
+
+        // Reserved nodes by engine, keyed by node type
+        commitments: z.record(ElastiCacheEngine, CommitmentPricing).optional(),
+    }),
+});
+
+export type ElastiCacheServicePricing = z.infer<typeof ElastiCacheServicePricing>;
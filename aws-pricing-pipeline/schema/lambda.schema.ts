@@ -1,19 +1,20 @@
 import { z } from 'zod';
-import { BaseServicePricing, SimpleRate } from './base.js';
+import { BaseServicePricing, SimpleRate, ComponentPricing } from './base.js';
 
 /**
  * Lambda Compute Pricing (by architecture)
+ * Tiered by monthly GB-seconds where the offer tiers it
  */
 export const LambdaComputePricing = z.object({
-    x86: SimpleRate, // per GB-second
-    arm: SimpleRate,  // per GB-second (Graviton2)
+    x86: ComponentPricing, // per GB-second
+    arm: ComponentPricing, // per GB-second (Graviton2)
 });
 
 /**
  * Lambda Request Pricing
  */
 export const LambdaRequestPricing = z.object({
-    requests: SimpleRate, // per million requests
+    requests: SimpleRate, // per request
 });
 
 /**
@@ -1,21 +1,32 @@
 import { z } from 'zod';
 import { BaseServicePricing, SimpleRate } from './base.js';
+import { CommitmentPricing } from './commitments.js';
 
 /**
  * RDS Service Pricing Schema
- * Covers on-demand instance pricing and storage pricing
+ * Covers on-demand and reserved instance pricing and storage pricing
  */
 
+/**
+ * Database engines the pipeline prices - an instance type costs differently per engine
+ */
+export const RDSEngine = z.enum(['mysql', 'postgresql']);
+
+export type RDSEngine = z.infer<typeof RDSEngine>;
+
 export const RDSServicePricing = BaseServicePricing.extend({
     service: z.literal('rds'),
     components: z.object({
-        // Instance pricing by instance type (e.g., db.t3.micro, db.m5.large)
-        instances: z.record(z.string(), SimpleRate),
+        // Instance pricing by engine, then instance type (e.g., mysql → db.t3.micro)
+        instances: z.record(RDSEngine, z.record(z.string(), SimpleRate)),
 
         // Storage pricing
         storage: z.object({
             gp3: SimpleRate,  // General Purpose SSD (gp3) per GB-month
         }),
+
+        // Reserved Instances by engine, keyed by instance type
+        commitments: z.record(RDSEngine, CommitmentPricing).optional(),
     }),
 });
 
@@ -0,0 +1,41 @@
+import { z } from 'zod';
+import { BaseServicePricing } from './base.js';
+import { SavingsPlanRates } from './commitments.js';
+
+/**
+ * Compute Savings Plans
+ * One commitment covers every instance family, EC2 and Lambda
+ */
+export const ComputeSavingsPlanPricing = z.object({
+    // Instance type (same keys as EC2InstancePricing) → term → hourly rate
+    instances: z.record(z.string(), SavingsPlanRates),
+
+    // Lambda duration, per GB-second
+    lambda: z.object({
+        x86: SavingsPlanRates,
+        arm: SavingsPlanRates.optional(),
+    }),
+});
+
+/**
+ * EC2 Instance Savings Plans
+ * Bought per instance family: family (e.g. "m5") → instance type → term → hourly rate
+ */
+export const EC2InstanceSavingsPlanPricing = z.record(
+    z.string(),
+    z.record(z.string(), SavingsPlanRates)
+);
+
+/**
+ * Complete Savings Plans Pricing
+ * Linux, shared tenancy instance usage only (matches EC2 SKU filters)
+ */
+export const SavingsPlansServicePricing = BaseServicePricing.extend({
+    service: z.literal('savingsplans'),
+    components: z.object({
+        compute: ComputeSavingsPlanPricing,
+        ec2Instance: EC2InstanceSavingsPlanPricing,
+    }),
+});
+
+export type SavingsPlansServicePricing = z.infer<typeof SavingsPlansServicePricing>;
@@ -25,14 +25,6 @@ export const PrivateLinkPricing = z.object({
     dataProcessed: z.array(PricingTier),
 });
 
-/**
- * VPC Data Transfer
- */
-export const VPCDataTransferPricing = z.object({
-    interAZ: SimpleRate,
-    interRegion: z.array(PricingTier),
-});
-
 /**
  * Complete VPC Service Pricing
  */
@@ -42,7 +34,6 @@ export const VPCServicePricing = BaseServicePricing.extend({
         natGateway: NATGatewayPricing,
         endpoint: VPCEndpointPricing,
         privateLink: PrivateLinkPricing,
-        dataTransfer: VPCDataTransferPricing,
     }),
 });
 
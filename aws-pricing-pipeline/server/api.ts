@@ -0,0 +1,294 @@
+import fs from 'fs';
+import path from 'path';
+import http from 'http';
+import crypto from 'crypto';
+import chalk from 'chalk';
+import { deepSortObject } from '../utils/deterministic.js';
+import { diffPricing, diffOptions, DiffResult } from '../versioning/diff.js';
+import { getAllServices } from '../registry/service-registry.js';
+import { listVersions, VERSION_PATTERN } from '../versioning/bump.js';
+import { listServiceRegions, listVersionFiles, readServiceFile } from '../versioning/store.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Local pricing API
+ * Serves the versioned output tree over HTTP - read-only, fully offline
+ *
+ * Routes:
+ * - GET /versions
+ * - GET /versions/:v/services/:service[?region=]
+ * - GET /latest/services/:service/components/*path[?region=]
+ * - GET /diff?from=&to=
+ *
+ * Every response carries an ETag of its deterministic JSON (deepSortObject).
+ * Versioned paths never change once published and are cached as immutable; paths through
+ * latest are revalidated. A malformed path escape is a 400.
+ */
+
+const SEGMENT_PATTERN = /^[a-z0-9-]+$/;
+const LATEST = 'latest';
+
+const IMMUTABLE_CACHE = 'public, max-age=31536000, immutable';
+const REVALIDATE_CACHE = 'no-cache';
+
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+interface ApiResponse {
+    body: unknown;
+    immutable: boolean;
+}
+
+function readJson(filePath: string): any {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+/**
+ * Check a version ("v1.2.0" or "latest") exists
+ */
+function assertVersion(outputDir: string, version: string): void {
+    if (version !== LATEST && !VERSION_PATTERN.test(version)) {
+        throw new ApiError(400, `Invalid version: ${version}`);
+    }
+
+    const dir = path.join(outputDir, version);
+
+    if (!fs.existsSync(dir)) {
+        throw new ApiError(404, `Version not found: ${version}`);
+    }
+}
+
+/**
+ * Region files of one service: region → pricing JSON
+ */
+function readServiceRegions(outputDir: string, version: string, service: string): Record<string, any> {
+    assertVersion(outputDir, version);
+
+    if (!SEGMENT_PATTERN.test(service)) {
+        throw new ApiError(400, `Invalid service: ${service}`);
+    }
+
+    const available = listServiceRegions(outputDir, version, service);
+
+    if (available.length === 0) {
+        throw new ApiError(404, `Service not found: ${service}`);
+    }
+
+    const regions: Record<string, any> = {};
+
+    for (const region of available) {
+        regions[region] = readServiceFile(outputDir, version, service, region);
+    }
+
+    return regions;
+}
+
+/**
+ * Pick one region - required unless the service has exactly one (e.g. "global")
+ */
+function selectRegion(regions: Record<string, any>, service: string, region: string | null): [string, any] {
+    if (region !== null) {
+        if (!SEGMENT_PATTERN.test(region)) {
+            throw new ApiError(400, `Invalid region: ${region}`);
+        }
+        if (!(region in regions)) {
+            throw new ApiError(404, `No ${service} pricing for region ${region}`);
+        }
+        return [region, regions[region]];
+    }
+
+    const available = Object.keys(regions);
+
+    if (available.length !== 1) {
+        throw new ApiError(400, `Specify ?region= for ${service} (available: ${available.join(', ')})`);
+    }
+
+    return [available[0]!, regions[available[0]!]];
+}
+
+function getVersions(outputDir: string): ApiResponse {
+    const latestMetadata = path.join(outputDir, LATEST, 'metadata.json');
+
+    return {
+        body: {
+            latest: fs.existsSync(latestMetadata) ? readJson(latestMetadata).version : null,
+            versions: listVersions(outputDir).map(version => {
+                const metadataPath = path.join(outputDir, version, 'metadata.json');
+                return fs.existsSync(metadataPath) ? readJson(metadataPath) : { version };
+            }),
+        },
+        immutable: false,
+    };
+}
+
+function getService(outputDir: string, version: string, service: string, region: string | null): ApiResponse {
+    const regions = readServiceRegions(outputDir, version, service);
+
+    return {
+        body: region === null ? { service, version, regions } : selectRegion(regions, service, region)[1],
+        immutable: version !== LATEST,
+    };
+}
+
+function getLatestComponent(outputDir: string, service: string, componentPath: string[], region: string | null): ApiResponse {
+    const regions = readServiceRegions(outputDir, LATEST, service);
+    const [, data] = selectRegion(regions, service, region);
+
+    let node: any = data.components;
+
+    for (const segment of componentPath) {
+        if (typeof node !== 'object' || node === null || Array.isArray(node) || !(segment in node)) {
+            throw new ApiError(404, `Component not found: ${service}/${componentPath.join('/')}`);
+        }
+        node = node[segment];
+    }
+
+    return { body: node, immutable: false };
+}
+
+function getDiff(outputDir: string, from: string | null, to: string | null): ApiResponse {
+    if (!from || !to) {
+        throw new ApiError(400, 'Both ?from= and ?to= are required');
+    }
+
+    assertVersion(outputDir, from);
+    assertVersion(outputDir, to);
+
+    const serviceFiles = (version: string): string[] => listVersionFiles(outputDir, version)
+        .filter(file => file.startsWith('services/'))
+        .map(file => file.slice('services/'.length, -'.json'.length));
+
+    const keys = Array.from(new Set([...serviceFiles(from), ...serviceFiles(to)])).sort();
+    const diffs: DiffResult[] = [];
+
+    for (const key of keys) {
+        const [service, region] = key.split('/') as [string, string];
+        const load = (version: string) => readServiceFile(outputDir, version, service, region);
+
+        const plugin = getAllServices().find(p => p.id === service);
+        diffs.push(diffPricing(load(from), load(to), service, region, plugin ? diffOptions(plugin) : {}));
+    }
+
+    return {
+        body: { from, to, diffs },
+        immutable: from !== LATEST && to !== LATEST,
+    };
+}
+
+/**
+ * Path segments of a request, URL-decoded
+ * CRASHES (400) on a malformed escape
+ */
+function pathSegments(url: URL): string[] {
+    try {
+        return url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+    } catch (error) {
+        if (error instanceof URIError) {
+            throw new ApiError(400, `Malformed URL: ${url.pathname}`);
+        }
+        throw error;
+    }
+}
+
+/**
+ * Route a GET request
+ */
+export function handleRequest(outputDir: string, url: URL): ApiResponse {
+    const segments = pathSegments(url);
+    const region = url.searchParams.get('region');
+
+    if (segments.length === 1 && segments[0] === 'versions') {
+        return getVersions(outputDir);
+    }
+
+    if (segments.length === 4 && segments[0] === 'versions' && segments[2] === 'services') {
+        return getService(outputDir, segments[1]!, segments[3]!, region);
+    }
+
+    if (segments.length >= 4 && segments[0] === LATEST && segments[1] === 'services' && segments[3] === 'components') {
+        return getLatestComponent(outputDir, segments[2]!, segments.slice(4), region);
+    }
+
+    if (segments.length === 1 && segments[0] === 'diff') {
+        return getDiff(outputDir, url.searchParams.get('from'), url.searchParams.get('to'));
+    }
+
+    throw new ApiError(404, `Unknown route: ${url.pathname}`);
+}
+
+/**
+ * Strong ETag of the deterministic JSON
+ */
+export function etagFor(body: unknown): string {
+    const hash = crypto.createHash('sha256').update(JSON.stringify(deepSortObject(body))).digest('hex');
+    return `"${hash}"`;
+}
+
+/**
+ * Create the HTTP server (not yet listening)
+ * Request errors go to the logger active at creation (silent unless the caller set one)
+ */
+export function createPricingServer(outputDir: string = 'output/aws'): http.Server {
+    const logger = activeLogger();
+
+    return http.createServer((req, res) => {
+        const send = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+            res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+            res.end(status === 304 ? undefined : JSON.stringify(body, null, 2));
+        };
+
+        if (req.method !== 'GET') {
+            send(405, { error: `Method not allowed: ${req.method}` }, { 'Allow': 'GET' });
+            return;
+        }
+
+        try {
+            const response = handleRequest(outputDir, new URL(req.url || '/', 'http://localhost'));
+            const body = deepSortObject(response.body);
+            const etag = etagFor(body);
+            const headers = {
+                'ETag': etag,
+                'Cache-Control': response.immutable ? IMMUTABLE_CACHE : REVALIDATE_CACHE,
+            };
+
+            if (req.headers['if-none-match'] === etag) {
+                send(304, null, headers);
+                return;
+            }
+
+            send(200, body, headers);
+        } catch (error) {
+            if (error instanceof ApiError) {
+                send(error.status, { error: error.message });
+                return;
+            }
+
+            const message = error instanceof Error ? error.message : String(error);
+            logger.error(chalk.red(`[API] ${req.url}: ${message}`));
+            send(500, { error: message });
+        }
+    });
+}
+
+/**
+ * Start serving on a port
+ */
+export async function startPricingServer(port: number, outputDir: string = 'output/aws'): Promise<http.Server> {
+    if (!fs.existsSync(outputDir)) {
+        throw new Error(`[API] Output directory not found: ${outputDir}`);
+    }
+
+    const server = createPricingServer(outputDir);
+
+    await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, resolve);
+    });
+
+    activeLogger().log(chalk.green(`[API] Serving ${outputDir} on http://localhost:${port}`));
+
+    return server;
+}
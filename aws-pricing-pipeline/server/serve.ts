@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+
+import chalk from 'chalk';
+import { startPricingServer } from './api.js';
+import { setDefaultLogger } from '../utils/logger.js';
+
+/**
+ * Local pricing API entry point
+ * PORT (default 8787), PRICING_OUTPUT_DIR (default output/aws)
+ */
+
+// The library is silent by default - the server entry point shows its output
+setDefaultLogger(console);
+
+const port = parseInt(process.env.PORT || '8787', 10);
+const outputDir = process.env.PRICING_OUTPUT_DIR || 'output/aws';
+
+startPricingServer(port, outputDir).catch(error => {
+    console.error(chalk.red(error instanceof Error ? error.message : String(error)));
+    process.exit(1);
+});
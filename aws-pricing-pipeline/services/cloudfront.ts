@@ -0,0 +1,264 @@
+import fs from 'fs';
+import { Logger, Timer } from '../utils/logger.js';
+import { CloudFrontServicePricing } from '../schema/cloudfront.schema.js';
+import { SimpleRate, PricingTier } from '../schema/base.js';
+import { assertSingleRegion, normalizeEdgeGeography, GLOBAL_REGION } from '../normalize/common.js';
+import { CLOUDFRONT_FILTERS, LAMBDA_EDGE_FILTERS } from '../normalize/filters.js';
+import { extractOfferCandidates, termToSimpleRate, termToTiers, OfferCandidate } from '../normalize/offer-components.js';
+import { offerPublicationDate } from '../normalize/offer-stream.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+
+/**
+ * CloudFront Pricing Processor
+ * Extracts: Data transfer out (tiered, per edge geography), Data transfer to origin,
+ * HTTP/HTTPS requests, Origin Shield, Invalidations, Lambda@Edge, CloudFront Functions
+ *
+ * CloudFront is priced by edge geography, not by region: the processor runs
+ * once for the "global" region and keys its components by geography.
+ */
+
+type CloudFrontProductKind =
+    | { kind: 'transferOut'; geography: string }
+    | { kind: 'transferToOrigin'; geography: string }
+    | { kind: 'requests'; geography: string; protocol: 'http' | 'https' }
+    | { kind: 'originShield'; geography: string }
+    | { kind: 'invalidations' }
+    | { kind: 'functions' };
+
+/**
+ * Classify a CloudFront product by usage type
+ * Usage types are prefixed by geography ("US-DataTransfer-Out-Bytes", "EU-Requests-Tier1")
+ * Returns null for anything the pipeline does not publish
+ */
+function classifyProduct(attrs: Record<string, string>): CloudFrontProductKind | null {
+    const usagetype = attrs.usagetype || '';
+
+    if (usagetype.endsWith('-DataTransfer-Out-Bytes')) {
+        return { kind: 'transferOut', geography: geographyOf(attrs.fromLocation, usagetype) };
+    }
+    if (usagetype.endsWith('-DataTransfer-Out-OBytes')) {
+        return { kind: 'transferToOrigin', geography: geographyOf(attrs.fromLocation, usagetype) };
+    }
+    if (usagetype.endsWith('-Requests-Tier1')) {
+        return { kind: 'requests', geography: geographyOf(attrs.location, usagetype), protocol: 'http' };
+    }
+    if (usagetype.endsWith('-Requests-Tier2-HTTPS')) {
+        return { kind: 'requests', geography: geographyOf(attrs.location, usagetype), protocol: 'https' };
+    }
+    if (usagetype.endsWith('-Requests-OriginShield')) {
+        return { kind: 'originShield', geography: geographyOf(attrs.location, usagetype) };
+    }
+    if (usagetype === 'Invalidations') {
+        return { kind: 'invalidations' };
+    }
+    if (usagetype === 'Executions-CloudFrontFunctions') {
+        return { kind: 'functions' };
+    }
+
+    return null;
+}
+
+function geographyOf(location: string | undefined, usagetype: string): string {
+    if (!location) {
+        throw new Error(`[CloudFront] No edge location for usage type ${usagetype}`);
+    }
+    return normalizeEdgeGeography(location);
+}
+
+interface GeographyAccumulator {
+    dataTransferOut?: PricingTier[];
+    dataTransferToOrigin?: SimpleRate;
+    http?: SimpleRate;
+    https?: SimpleRate;
+    originShield?: SimpleRate;
+}
+
+/**
+ * Lambda@Edge is priced uniformly across edge locations
+ * The AWSLambda offer lists it per location - every SKU must carry the same rate
+ */
+function uniformRate(candidates: OfferCandidate[], group: string): SimpleRate {
+    const rates = candidates
+        .filter(c => c.attributes.group === group)
+        .map(c => ({ sku: c.sku, rate: termToSimpleRate(c.sku, c.term) }));
+
+    const first = rates[0];
+    if (!first) {
+        throw new Error(`[CloudFront] No Lambda@Edge pricing found for ${group}`);
+    }
+
+    const conflict = rates.find(r => r.rate.rate !== first.rate.rate || r.rate.unit !== first.rate.unit);
+    if (conflict) {
+        throw new Error(
+            `[CloudFront] Conflicting Lambda@Edge rates for ${group}: ` +
+            `${first.rate.rate} (SKU ${first.sku}) vs ${conflict.rate.rate} (SKU ${conflict.sku})`
+        );
+    }
+
+    return first.rate;
+}
+
+function assignOnce<T>(current: T | undefined, value: T, what: string): T {
+    if (current !== undefined) {
+        throw new Error(`[CloudFront] Multiple SKUs for ${what}`);
+    }
+    return value;
+}
+
+export async function processCloudFront(
+    region: string = GLOBAL_REGION,
+    rawDir: string = resolveRawDir()
+): Promise<CloudFrontServicePricing> {
+    Logger.substep(`Processing CloudFront pricing for ${region}`);
+    const timer = new Timer('CloudFront processing');
+
+    if (region !== GLOBAL_REGION) {
+        throw new Error(`[CloudFront] CloudFront is priced globally, cannot process region ${region}`);
+    }
+
+    const rawFile = regionalRawFile('AmazonCloudFront', region, rawDir);
+    const lambdaRawFile = regionalRawFile('AWSLambda', region, rawDir);
+
+    for (const file of [rawFile, lambdaRawFile]) {
+        if (!fs.existsSync(file)) {
+            throw new Error(`[CloudFront] Raw pricing file not found: ${file}`);
+        }
+    }
+
+    const { header, candidates } = await extractOfferCandidates(rawFile, {
+        region,
+        filters: CLOUDFRONT_FILTERS,
+        match: product => classifyProduct(product.attributes) !== null,
+    });
+
+    const geographies = new Map<string, GeographyAccumulator>();
+    let invalidations: PricingTier[] | undefined;
+    let functions: SimpleRate | undefined;
+
+    for (const candidate of candidates) {
+        const kind = classifyProduct(candidate.attributes)!;
+        const { sku, term } = candidate;
+
+        if (kind.kind === 'invalidations') {
+            invalidations = assignOnce(invalidations, termToTiers(sku, term), 'invalidations');
+            continue;
+        }
+        if (kind.kind === 'functions') {
+            functions = assignOnce(functions, termToSimpleRate(sku, term), 'CloudFront Functions');
+            continue;
+        }
+
+        const geo = geographies.get(kind.geography) || {};
+        geographies.set(kind.geography, geo);
+
+        switch (kind.kind) {
+            case 'transferOut':
+                geo.dataTransferOut = assignOnce(geo.dataTransferOut, termToTiers(sku, term), `${kind.geography} data transfer out`);
+                break;
+            case 'transferToOrigin':
+                geo.dataTransferToOrigin = assignOnce(geo.dataTransferToOrigin, termToSimpleRate(sku, term), `${kind.geography} data transfer to origin`);
+                break;
+            case 'requests':
+                geo[kind.protocol] = assignOnce(geo[kind.protocol], termToSimpleRate(sku, term), `${kind.geography} ${kind.protocol} requests`);
+                break;
+            case 'originShield':
+                geo.originShield = assignOnce(geo.originShield, termToSimpleRate(sku, term), `${kind.geography} Origin Shield`);
+                break;
+        }
+    }
+
+    // Fail fast: every geography must have data transfer and request pricing
+    const geographyPricing: CloudFrontServicePricing['components']['geographies'] = {};
+
+    for (const [geography, geo] of Array.from(geographies.entries()).sort(([a], [b]) => a.localeCompare(b))) {
+        if (!geo.dataTransferOut || !geo.http || !geo.https) {
+            throw new Error(`[CloudFront] Incomplete pricing for edge geography ${geography} (data transfer out and HTTP/HTTPS requests required)`);
+        }
+
+        const pricing: CloudFrontServicePricing['components']['geographies'][string] = {
+            dataTransferOut: geo.dataTransferOut,
+            requests: {
+                http: geo.http,
+                https: geo.https,
+            },
+        };
+
+        if (geo.dataTransferToOrigin) pricing.dataTransferToOrigin = geo.dataTransferToOrigin;
+        if (geo.originShield) pricing.originShield = geo.originShield;
+
+        geographyPricing[geography] = pricing;
+    }
+
+    if (Object.keys(geographyPricing).length === 0) {
+        throw new Error(`[CloudFront] No edge geography pricing found`);
+    }
+
+    if (!invalidations) {
+        throw new Error(`[CloudFront] No invalidation pricing found`);
+    }
+
+    if (!functions) {
+        throw new Error(`[CloudFront] No CloudFront Functions pricing found`);
+    }
+
+    const { header: edgeHeader, candidates: edgeCandidates } = await extractOfferCandidates(lambdaRawFile, {
+        region,
+        filters: LAMBDA_EDGE_FILTERS,
+    });
+
+    // The later of the two offers' publication dates
+    const publicationDates = [offerPublicationDate(header, rawFile), offerPublicationDate(edgeHeader, lambdaRawFile)];
+
+    const output: CloudFrontServicePricing = {
+        service: 'cloudfront',
+        region,
+        currency: 'USD',
+        version: 'v1.0.0', // Will be set by versioning system
+        lastUpdated: publicationDates.sort()[1]!,
+        components: {
+            geographies: geographyPricing,
+            invalidations,
+            lambdaAtEdge: {
+                requests: uniformRate(edgeCandidates, 'AWS-Lambda-Edge-Requests'),
+                duration: uniformRate(edgeCandidates, 'AWS-Lambda-Edge-Duration'),
+            },
+            functions: {
+                invocations: functions,
+            },
+        },
+    };
+
+    Logger.table({
+        'Candidate SKUs': candidates.length,
+        'Lambda@Edge SKUs': edgeCandidates.length,
+        'Edge geographies': Object.keys(geographyPricing).length,
+        'Region': region,
+    });
+
+    timer.end();
+    Logger.success('CloudFront processing complete');
+
+    // CRITICAL: Validate exactly one region
+    assertSingleRegion(output, region);
+
+    return output;
+}
+
+/**
+ * CloudFront plugin
+ * Global scope - reads the AWSLambda global offer for Lambda@Edge
+ */
+export const cloudFrontPlugin = defineServicePlugin({
+    code: 'AmazonCloudFront',
+    name: 'CloudFront',
+    id: 'cloudfront',
+    fetchUrl: offerIndexUrl('AmazonCloudFront'),
+    schema: CloudFrontServicePricing,
+    filters: CLOUDFRONT_FILTERS,
+    processor: processCloudFront,
+    scope: 'global',
+    additionalOffers: ['AWSLambda'],
+    enabled: true,
+});
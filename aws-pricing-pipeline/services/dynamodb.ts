@@ -0,0 +1,155 @@
+import fs from 'fs';
+import { Logger, Timer } from '../utils/logger.js';
+import { DynamoDBServicePricing } from '../schema/dynamodb.schema.js';
+import { SimpleRate, ComponentPricing } from '../schema/base.js';
+import { assertSingleRegion, stripUsageTypePrefix } from '../normalize/common.js';
+import { DYNAMODB_FILTERS } from '../normalize/filters.js';
+import { extractOfferCandidates } from '../normalize/offer-components.js';
+import { offerPublicationDate } from '../normalize/offer-stream.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+
+/**
+ * DynamoDB Pricing Processor
+ * Extracts: On-Demand requests, Provisioned capacity, Table storage,
+ * Backups (PITR + on-demand), Global Tables replicated writes, Streams
+ */
+
+/**
+ * Usage type (without region prefix) → component slot
+ */
+const USAGE_TYPE_SLOTS = {
+    'ReadRequestUnits': 'onDemand.readRequestUnits',
+    'WriteRequestUnits': 'onDemand.writeRequestUnits',
+    'ReadCapacityUnit-Hrs': 'provisioned.readCapacityUnits',
+    'WriteCapacityUnit-Hrs': 'provisioned.writeCapacityUnits',
+    'TimedStorage-ByteHrs': 'storage.standard',
+    'IA-TimedStorage-ByteHrs': 'storage.standardIA',
+    'TimedPITRStorage-ByteHrs': 'backup.pointInTimeRecovery',
+    'TimedBackupStorage-ByteHrs': 'backup.onDemand',
+    'ReplWriteRequestUnits': 'globalTables.replicatedWriteRequestUnits',
+    'ReplWriteCapacityUnit-Hrs': 'globalTables.replicatedWriteCapacityUnits',
+    'Streams-Requests': 'streams.readRequestUnits',
+} as const;
+
+type DynamoDBSlot = typeof USAGE_TYPE_SLOTS[keyof typeof USAGE_TYPE_SLOTS];
+
+function slotForUsageType(name: string): DynamoDBSlot | undefined {
+    return (USAGE_TYPE_SLOTS as Record<string, DynamoDBSlot>)[name];
+}
+
+export async function processDynamoDB(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<DynamoDBServicePricing> {
+    Logger.substep(`Processing DynamoDB pricing for ${region}`);
+    const timer = new Timer('DynamoDB processing');
+
+    const rawFile = regionalRawFile('AmazonDynamoDB', region, rawDir);
+
+    if (!fs.existsSync(rawFile)) {
+        throw new Error(`[DynamoDB] Raw pricing file not found: ${rawFile}`);
+    }
+
+    const { header, candidates } = await extractOfferCandidates(rawFile, {
+        region,
+        filters: DYNAMODB_FILTERS,
+        match: product => {
+            const usagetype = product.attributes.usagetype;
+            return usagetype !== undefined && slotForUsageType(stripUsageTypePrefix(usagetype, region)) !== undefined;
+        },
+    });
+
+    const slots = new Map<DynamoDBSlot, { sku: string; pricing: ComponentPricing }>();
+
+    for (const candidate of candidates) {
+        const slot = slotForUsageType(stripUsageTypePrefix(candidate.attributes.usagetype!, region))!;
+        const existing = slots.get(slot);
+
+        if (existing) {
+            throw new Error(
+                `[DynamoDB] Multiple SKUs for ${slot} in ${region}: ${existing.sku}, ${candidate.sku}`
+            );
+        }
+
+        slots.set(slot, { sku: candidate.sku, pricing: candidate.pricing });
+    }
+
+    // Fail fast: every component must come from the offer file
+    const missing = Object.values(USAGE_TYPE_SLOTS).filter(slot => !slots.has(slot));
+    if (missing.length > 0) {
+        throw new Error(`[DynamoDB] Missing pricing for ${missing.join(', ')} in region ${region}`);
+    }
+
+    const component = (slot: DynamoDBSlot): ComponentPricing => slots.get(slot)!.pricing;
+
+    const simpleRate = (slot: DynamoDBSlot): SimpleRate => {
+        const pricing = component(slot);
+        if (Array.isArray(pricing)) {
+            throw new Error(`[DynamoDB] Expected a flat rate for ${slot} in ${region}, got ${pricing.length} tiers`);
+        }
+        return pricing;
+    };
+
+    const output: DynamoDBServicePricing = {
+        service: 'dynamodb',
+        region,
+        currency: 'USD',
+        version: 'v1.0.0', // Will be set by versioning system
+        lastUpdated: offerPublicationDate(header, rawFile),
+        components: {
+            onDemand: {
+                readRequestUnits: simpleRate('onDemand.readRequestUnits'),
+                writeRequestUnits: simpleRate('onDemand.writeRequestUnits'),
+            },
+            provisioned: {
+                readCapacityUnits: component('provisioned.readCapacityUnits'),
+                writeCapacityUnits: component('provisioned.writeCapacityUnits'),
+            },
+            storage: {
+                standard: component('storage.standard'),
+                standardIA: component('storage.standardIA'),
+            },
+            backup: {
+                pointInTimeRecovery: simpleRate('backup.pointInTimeRecovery'),
+                onDemand: simpleRate('backup.onDemand'),
+            },
+            globalTables: {
+                replicatedWriteRequestUnits: simpleRate('globalTables.replicatedWriteRequestUnits'),
+                replicatedWriteCapacityUnits: simpleRate('globalTables.replicatedWriteCapacityUnits'),
+            },
+            streams: {
+                readRequestUnits: component('streams.readRequestUnits'),
+            },
+        },
+    };
+
+    Logger.table({
+        'Candidate SKUs': candidates.length,
+        'Components': slots.size,
+        'Region': region,
+    });
+
+    timer.end();
+    Logger.success('DynamoDB processing complete');
+
+    // CRITICAL: Validate exactly one region
+    assertSingleRegion(output, region);
+
+    return output;
+}
+
+/**
+ * DynamoDB plugin
+ */
+export const dynamoDBPlugin = defineServicePlugin({
+    code: 'AmazonDynamoDB',
+    name: 'DynamoDB',
+    id: 'dynamodb',
+    fetchUrl: offerIndexUrl('AmazonDynamoDB'),
+    schema: DynamoDBServicePricing,
+    filters: DYNAMODB_FILTERS,
+    processor: processDynamoDB,
+    enabled: true,
+});
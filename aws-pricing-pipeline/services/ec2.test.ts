@@ -0,0 +1,184 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { priceComponent } from '../schema/cost.js';
+import { provenanceOf } from '../normalize/provenance.js';
+import { processEC2 } from './ec2.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ec2-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const LOCATION = 'US East (N. Virginia)';
+
+type Dimension = [price: string, unit: string, beginRange?: string, endRange?: string];
+
+interface Sku {
+    sku: string;
+    productFamily: string;
+    attributes: Record<string, string>;
+    dimensions: Dimension[];
+}
+
+const VOLUMES: Sku[] = ['gp3', 'gp2', 'io2', 'io1', 'st1', 'sc1', 'standard'].map(volumeApiName => ({
+    sku: `VOL-${volumeApiName}`,
+    productFamily: 'Storage',
+    attributes: { location: LOCATION, volumeApiName },
+    dimensions: [['0.1', 'GB-Mo']],
+}));
+
+const BASE: Sku[] = [
+    {
+        sku: 'T3MICRO',
+        productFamily: 'Compute Instance',
+        attributes: {
+            location: LOCATION,
+            instanceType: 't3.micro',
+            operatingSystem: 'Linux',
+            tenancy: 'Shared',
+            capacitystatus: 'Used',
+            preInstalledSw: 'NA',
+        },
+        dimensions: [['0.0104', 'Hrs']],
+    },
+    ...VOLUMES,
+    {
+        sku: 'SNAPSHOT',
+        productFamily: 'Storage Snapshot',
+        attributes: { location: LOCATION, usagetype: 'EBS:SnapshotUsage' },
+        dimensions: [['0.05', 'GB-Mo']],
+    },
+    {
+        sku: 'OUT',
+        productFamily: 'Data Transfer',
+        attributes: { transferType: 'AWS Outbound', fromLocation: LOCATION, toLocation: 'External' },
+        dimensions: [['0.09', 'GB', '0', '10240'], ['0.05', 'GB', '10240', 'Inf']],
+    },
+    {
+        sku: 'IN',
+        productFamily: 'Data Transfer',
+        attributes: { transferType: 'AWS Inbound', fromLocation: 'External', toLocation: LOCATION },
+        dimensions: [['0', 'GB']],
+    },
+    {
+        sku: 'EIPIDLE',
+        productFamily: 'IP Address',
+        attributes: { location: LOCATION, usagetype: 'ElasticIP:IdleAddress' },
+        dimensions: [['0.005', 'Hrs']],
+    },
+    {
+        sku: 'EIPADD',
+        productFamily: 'IP Address',
+        attributes: { location: LOCATION, usagetype: 'ElasticIP:AdditionalAddress' },
+        dimensions: [['0.005', 'Hrs']],
+    },
+];
+
+function io2Iops(sku: string, group: string, usagetype: string, dimensions: Dimension[]): Sku {
+    return {
+        sku,
+        productFamily: 'System Operation',
+        attributes: { location: LOCATION, group, usagetype, volumeApiName: 'io2' },
+        dimensions,
+    };
+}
+
+const IO2_TIER_SKUS: Sku[] = [
+    // Listed out of tier order, as AWS does
+    io2Iops('IO2T3', 'EBS IOPS Tier 3', 'EBS:VolumeP-IOPS.io2.tier3', [['0.032', 'IOPS-Mo']]),
+    io2Iops('IO2T1', 'EBS IOPS', 'EBS:VolumeP-IOPS.io2', [['0.065', 'IOPS-Mo']]),
+    io2Iops('IO2T2', 'EBS IOPS Tier 2', 'EBS:VolumeP-IOPS.io2.tier2', [['0.0455', 'IOPS-Mo']]),
+];
+
+const IO2_TIERS = [
+    { upTo: 32000, rate: 0.065, unit: 'iops_month' },
+    { upTo: 64000, rate: 0.0455, unit: 'iops_month' },
+    { upTo: 'Infinity', rate: 0.032, unit: 'iops_month' },
+];
+
+function writeOffer(name: string, skus: Sku[]): string {
+    const rawDir = path.join(tempDir, name);
+    const products: Record<string, unknown> = {};
+    const onDemand: Record<string, unknown> = {};
+
+    for (const { sku, productFamily, attributes, dimensions } of skus) {
+        products[sku] = { sku, productFamily, attributes };
+
+        const priceDimensions = Object.fromEntries(dimensions.map(([price, unit, beginRange, endRange], i) => [
+            `${sku}.JRTCKXETXF.${i}`,
+            { rateCode: `${sku}.JRTCKXETXF.${i}`, unit, pricePerUnit: { USD: price }, ...(beginRange ? { beginRange, endRange } : {}) },
+        ]));
+        onDemand[sku] = { [`${sku}.JRTCKXETXF`]: { offerTermCode: 'JRTCKXETXF', sku, priceDimensions } };
+    }
+
+    fs.mkdirSync(path.join(rawDir, 'AmazonEC2'), { recursive: true });
+    fs.writeFileSync(path.join(rawDir, 'AmazonEC2', 'us-east-1.json'), JSON.stringify({
+        formatVersion: 'v1.0',
+        offerCode: 'AmazonEC2',
+        version: '20240601000000',
+        publicationDate: '2024-06-01T00:00:00Z',
+        products,
+        terms: { OnDemand: onDemand },
+    }));
+
+    return rawDir;
+}
+
+describe('processEC2 io2 IOPS', () => {
+    it('prices io2 IOPS in three tiers, one SKU per tier', async () => {
+        const { components } = await processEC2('us-east-1', writeOffer('tier-skus', [...BASE, ...IO2_TIER_SKUS]));
+
+        expect(components.ebs.io2_iops).toEqual(IO2_TIERS);
+        expect(components.ebs.io2_iops!.map(tier => provenanceOf(tier))).toMatchObject([
+            { source: 'offer', sku: 'IO2T1' },
+            { source: 'offer', sku: 'IO2T2' },
+            { source: 'offer', sku: 'IO2T3' },
+        ]);
+    });
+
+    it('charges each io2 IOPS tier only above its boundary', async () => {
+        const { components } = await processEC2('us-east-1', writeOffer('boundaries', [...BASE, ...IO2_TIER_SKUS]));
+        const cost = (quantity: number) => priceComponent(components.ebs.io2_iops!, { quantity, unit: 'iops_month' }).cents;
+
+        // 32,000 × $0.065
+        expect(cost(32000)).toBe(208000);
+        // + 32,000 × $0.0455
+        expect(cost(64000)).toBe(353600);
+        // + 6,000 × $0.032
+        expect(cost(70000)).toBe(372800);
+    });
+
+    it('prices io2 IOPS from a single SKU with ranged dimensions', async () => {
+        const ranged = io2Iops('IO2', 'EBS IOPS', 'EBS:VolumeP-IOPS.io2', [
+            ['0.032', 'IOPS-Mo', '64000', 'Inf'],
+            ['0.065', 'IOPS-Mo', '0', '32000'],
+            ['0.0455', 'IOPS-Mo', '32000', '64000'],
+        ]);
+        const { components } = await processEC2('us-east-1', writeOffer('ranged', [...BASE, ranged]));
+
+        expect(components.ebs.io2_iops).toEqual(IO2_TIERS);
+    });
+
+    it('crashes on a ranged SKU with other boundaries', async () => {
+        const ranged = io2Iops('IO2', 'EBS IOPS', 'EBS:VolumeP-IOPS.io2', [
+            ['0.065', 'IOPS-Mo', '0', '16000'],
+            ['0.032', 'IOPS-Mo', '16000', 'Inf'],
+        ]);
+
+        await expect(processEC2('us-east-1', writeOffer('bounds', [...BASE, ranged])))
+            .rejects.toThrow('[EC2] Unexpected io2 IOPS tiers in us-east-1 (SKU IO2): 16000, Infinity');
+    });
+
+    it('crashes on a missing io2 IOPS tier', async () => {
+        const rawDir = writeOffer('missing', [...BASE, ...IO2_TIER_SKUS.filter(sku => sku.sku !== 'IO2T2')]);
+
+        await expect(processEC2('us-east-1', rawDir)).rejects.toThrow('[EC2] Missing io2 IOPS tier 2 pricing in region us-east-1');
+    });
+
+    it('crashes on two SKUs for one io2 IOPS tier', async () => {
+        const rawDir = writeOffer('duplicate', [...BASE, ...IO2_TIER_SKUS, { ...IO2_TIER_SKUS[0]!, sku: 'IO2T3B' }]);
+
+        await expect(processEC2('us-east-1', rawDir)).rejects.toThrow('[EC2] Multiple SKUs for io2 IOPS tier 3 in us-east-1: IO2T3, IO2T3B');
+    });
+});
@@ -1,126 +1,389 @@
 import fs from 'fs';
-import path from 'path';
 import { Logger, Timer } from '../utils/logger.js';
 import { EC2ServicePricing } from '../schema/ec2.schema.js';
-import { SimpleRate } from '../schema/base.js';
-import { assertSingleRegion } from '../normalize/common.js';
+import { SimpleRate, PricingTier, ComponentPricing } from '../schema/base.js';
+import { ReservedRate } from '../schema/commitments.js';
+import { assertSingleRegion, isRegionLocation } from '../normalize/common.js';
+import { EC2_FILTERS, applySKUFilters } from '../normalize/filters.js';
+import { streamOfferFile, offerPublicationDate, OfferProduct } from '../normalize/offer-stream.js';
+import {
+    singleTerm,
+    termToSimpleRate,
+    termToTiers,
+    termToComponentPricing,
+    termToSteadyStateRate,
+} from '../normalize/offer-components.js';
+import { termsToReservedRates } from '../normalize/reserved.js';
+import { withProvenance, provenanceOf } from '../normalize/provenance.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
 
 /**
  * EC2 Pricing Processor
- * Extracts: Instances, EBS, Snapshots, Data Transfer, Elastic IP
- * 
- * NOTE: EC2 pricing file is 7+ GB. We use a simplified approach:
- * Load the file in chunks and process only what we need.
+ * Extracts: Instances (On-Demand + Reserved), EBS, Snapshots, Data Transfer, Elastic IP
+ *
+ * The global EC2 offer file is 7+ GB and even regional files are hundreds
+ * of MB, so the offer file is streamed in a single pass:
+ * matching products are remembered by SKU, then their On-Demand and
+ * Reserved terms are picked up as the terms section streams past.
  */
 
-export async function processEC2(region: string = 'us-east-1'): Promise<EC2ServicePricing> {
+const EBS_VOLUME_TYPES = ['gp3', 'gp2', 'io2', 'io1', 'st1', 'sc1', 'standard'] as const;
+type EBSVolumeType = typeof EBS_VOLUME_TYPES[number];
+
+/**
+ * io2 IOPS tiers by provisioned IOPS per volume: up to 32,000, 32,001-64,000 and above
+ * The offer prices each tier as its own SKU (usage type suffix .tier2 / .tier3) without ranges
+ */
+const IO2_IOPS_TIER_BOUNDS: PricingTier['upTo'][] = [32000, 64000, 'Infinity'];
+
+type EC2ProductKind =
+    | { kind: 'instance'; instanceType: string; capacityStatus: string }
+    | { kind: 'ebs'; volumeType: EBSVolumeType }
+    | { kind: 'iops'; volumeType: 'io1' | 'gp3' }
+    | { kind: 'io2Iops'; tier: number }
+    | { kind: 'throughput'; volumeType: EBSVolumeType }
+    | { kind: 'snapshot' }
+    | { kind: 'transferOut' }
+    | { kind: 'transferIn' }
+    | { kind: 'transferInterAZ' }
+    | { kind: 'elasticIP'; slot: 'idle' | 'additional' };
+
+/**
+ * Classify an EC2 product for the given region
+ * Returns null for anything the pipeline does not publish
+ */
+function classifyProduct(product: OfferProduct, region: string): EC2ProductKind | null {
+    const attrs = product.attributes;
+
+    switch (product.productFamily) {
+        case 'Compute Instance':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            if (!attrs.instanceType || !applySKUFilters(attrs, EC2_FILTERS)) return null;
+            return { kind: 'instance', instanceType: attrs.instanceType, capacityStatus: attrs.capacitystatus! };
+
+        case 'Storage':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            return isEBSVolumeType(attrs.volumeApiName)
+                ? { kind: 'ebs', volumeType: attrs.volumeApiName }
+                : null;
+
+        case 'System Operation':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            if (!attrs.group?.startsWith('EBS IOPS')) return null;
+            if (attrs.volumeApiName === 'io2') return { kind: 'io2Iops', tier: io2IopsTier(attrs.usagetype) };
+            return attrs.group === 'EBS IOPS' && (attrs.volumeApiName === 'io1' || attrs.volumeApiName === 'gp3')
+                ? { kind: 'iops', volumeType: attrs.volumeApiName }
+                : null;
+
+        case 'Provisioned Throughput':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            return isEBSVolumeType(attrs.volumeApiName)
+                ? { kind: 'throughput', volumeType: attrs.volumeApiName }
+                : null;
+
+        case 'Storage Snapshot':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            return /(^|-)EBS:SnapshotUsage$/.test(attrs.usagetype || '') ? { kind: 'snapshot' } : null;
+
+        case 'IP Address':
+            if (!isRegionLocation(attrs.location, region)) return null;
+            if (attrs.usagetype?.includes('ElasticIP:IdleAddress')) return { kind: 'elasticIP', slot: 'idle' };
+            if (attrs.usagetype?.includes('ElasticIP:AdditionalAddress')) return { kind: 'elasticIP', slot: 'additional' };
+            return null;
+
+        case 'Data Transfer':
+            if (attrs.transferType === 'AWS Outbound' && attrs.toLocation === 'External'
+                && isRegionLocation(attrs.fromLocation, region)) {
+                return { kind: 'transferOut' };
+            }
+            if (attrs.transferType === 'AWS Inbound' && attrs.fromLocation === 'External'
+                && isRegionLocation(attrs.toLocation, region)) {
+                return { kind: 'transferIn' };
+            }
+            if (attrs.transferType === 'IntraRegion'
+                && isRegionLocation(attrs.fromLocation, region)
+                && isRegionLocation(attrs.toLocation, region)) {
+                return { kind: 'transferInterAZ' };
+            }
+            return null;
+
+        default:
+            return null;
+    }
+}
+
+/**
+ * Tier index of an io2 IOPS SKU from its usage type (e.g. USE1-EBS:VolumeP-IOPS.io2.tier2 → 1)
+ */
+function io2IopsTier(usageType: string | undefined): number {
+    const match = /\.tier(\d+)$/.exec(usageType || '');
+    return match ? parseInt(match[1]!, 10) - 1 : 0;
+}
+
+function isEBSVolumeType(value: string | undefined): value is EBSVolumeType {
+    return value !== undefined && (EBS_VOLUME_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * io2 IOPS tiers from the tier SKUs found in the offer file (undefined if the offer has none)
+ * CRASHES on a missing tier SKU, or a ranged SKU whose boundaries are not the io2 tiers
+ */
+function io2IopsPricing(
+    found: Record<number, { sku: string; pricing: ComponentPricing }>,
+    region: string
+): PricingTier[] | undefined {
+    if (Object.keys(found).length === 0) return undefined;
+
+    const first = found[0];
+
+    // A single SKU carrying every tier as a ranged price dimension
+    if (first && Array.isArray(first.pricing) && Object.keys(found).length === 1) {
+        const bounds = first.pricing.map(tier => tier.upTo);
+        if (JSON.stringify(bounds) !== JSON.stringify(IO2_IOPS_TIER_BOUNDS)) {
+            throw new Error(`[EC2] Unexpected io2 IOPS tiers in ${region} (SKU ${first.sku}): ${bounds.join(', ')}`);
+        }
+        return first.pricing;
+    }
+
+    return IO2_IOPS_TIER_BOUNDS.map((upTo, i) => {
+        const tier = found[i];
+        if (!tier) {
+            throw new Error(`[EC2] Missing io2 IOPS tier ${i + 1} pricing in region ${region}`);
+        }
+        if (Array.isArray(tier.pricing)) {
+            throw new Error(`[EC2] Expected a flat rate for io2 IOPS tier ${i + 1} in ${region} (SKU ${tier.sku}), got ${tier.pricing.length} tiers`);
+        }
+        return withProvenance({ upTo, rate: tier.pricing.rate, unit: tier.pricing.unit }, provenanceOf(tier.pricing)!);
+    });
+}
+
+export async function processEC2(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<EC2ServicePricing> {
     Logger.substep(`Processing EC2 pricing for ${region}`);
     const timer = new Timer('EC2 processing');
 
-    const rawFile = path.join('raw', 'AmazonEC2.json');
+    const rawFile = regionalRawFile('AmazonEC2', region, rawDir);
 
     if (!fs.existsSync(rawFile)) {
         throw new Error(`[EC2] Raw pricing file not found: ${rawFile}`);
     }
 
-    Logger.info(`Loading raw data from ${rawFile}`);
+    Logger.info(`Streaming raw data from ${rawFile}`);
     const stats = fs.statSync(rawFile);
     Logger.data('File size', `${(stats.size / 1024 / 1024).toFixed(2)} MB`);
 
+    // Candidate products for this region, keyed by SKU (bounded by region + filters)
+    const candidates = new Map<string, EC2ProductKind>();
+    let productCount = 0;
+
     const instances: Record<string, SimpleRate> = {};
+    const instanceCapacityStatus: Record<string, string> = {};
+    const ebs: Partial<Record<EBSVolumeType, SimpleRate>> = {};
+    const iops: { io1?: SimpleRate; gp3?: SimpleRate } = {};
+    // io2 IOPS: one SKU per tier, or a single SKU with ranged price dimensions
+    const io2IopsTiers: Record<number, { sku: string; pricing: ComponentPricing }> = {};
+    const throughput: Partial<Record<EBSVolumeType, SimpleRate>> = {};
+    const elasticIP: Partial<Record<'idle' | 'additional', SimpleRate>> = {};
+    const transfer: { out?: PricingTier[]; in?: SimpleRate; interAZ?: SimpleRate } = {};
+    const snapshots: { storage?: SimpleRate } = {};
+    const reserved: Record<string, Record<string, ReservedRate>> = {};
+    const reservedSKUs: Record<string, string> = {};
 
-    Logger.warn('EC2 file is too large (7+ GB). Using fallback pricing data.');
-    Logger.info('For production use, consider pre-processing EC2 data or using AWS Price List API directly.');
-
-    // For now, use default/fallback pricing for common instance types
-    // This is a temporary solution until we implement proper chunked processing
-    const commonInstances = [
-        't3.micro', 't3.small', 't3.medium', 't3.large',
-        't2.micro', 't2.small', 't2.medium', 't2.large',
-        'm5.large', 'm5.xlarge', 'm5.2xlarge',
-        'c5.large', 'c5.xlarge', 'c5.2xlarge',
-        'r5.large', 'r5.xlarge', 'r5.2xlarge',
-    ];
-
-    // Approximate us-east-1 pricing (as of 2024)
-    const approximatePricing: Record<string, number> = {
-        't3.micro': 0.0104,
-        't3.small': 0.0208,
-        't3.medium': 0.0416,
-        't3.large': 0.0832,
-        't2.micro': 0.0116,
-        't2.small': 0.023,
-        't2.medium': 0.0464,
-        't2.large': 0.0928,
-        'm5.large': 0.096,
-        'm5.xlarge': 0.192,
-        'm5.2xlarge': 0.384,
-        'c5.large': 0.085,
-        'c5.xlarge': 0.17,
-        'c5.2xlarge': 0.34,
-        'r5.large': 0.126,
-        'r5.xlarge': 0.252,
-        'r5.2xlarge': 0.504,
-    };
+    const header = await streamOfferFile(rawFile, {
+        termTypes: ['OnDemand', 'Reserved'],
+        onProduct: product => {
+            productCount++;
+            const kind = classifyProduct(product, region);
+            if (kind) {
+                candidates.set(product.sku, kind);
+            }
+        },
+        onTerms: (termType, sku, terms) => {
+            const kind = candidates.get(sku);
+            if (!kind) return;
+
+            if (termType === 'Reserved') {
+                // Reservations are bought against used capacity only
+                if (kind.kind !== 'instance' || kind.capacityStatus !== 'Used') return;
+
+                const existingSKU = reservedSKUs[kind.instanceType];
+                if (existingSKU) {
+                    throw new Error(
+                        `[EC2] Multiple Reserved SKUs for ${kind.instanceType} in ${region}: ${existingSKU}, ${sku}`
+                    );
+                }
+
+                reserved[kind.instanceType] = termsToReservedRates(sku, terms);
+                reservedSKUs[kind.instanceType] = sku;
+                return;
+            }
+
+            const term = singleTerm(sku, terms);
+
+            switch (kind.kind) {
+                case 'instance': {
+                    // Prefer "Used" capacity; "UnusedCapacityReservation" carries the same rate
+                    const existing = instanceCapacityStatus[kind.instanceType];
+                    if (existing === 'Used' && kind.capacityStatus !== 'Used') break;
+
+                    const rate = termToSimpleRate(sku, term);
+                    const previous = instances[kind.instanceType];
+                    if (previous && existing === kind.capacityStatus && previous.rate !== rate.rate) {
+                        throw new Error(
+                            `[EC2] Conflicting On-Demand rates for ${kind.instanceType} in ${region}: ` +
+                            `${previous.rate} vs ${rate.rate} (SKU ${sku})`
+                        );
+                    }
+
+                    instances[kind.instanceType] = rate;
+                    instanceCapacityStatus[kind.instanceType] = kind.capacityStatus;
+                    break;
+                }
+                case 'ebs':
+                    ebs[kind.volumeType] = termToSimpleRate(sku, term);
+                    break;
+                case 'iops':
+                    iops[kind.volumeType] = termToSimpleRate(sku, term);
+                    break;
+                case 'io2Iops': {
+                    const existing = io2IopsTiers[kind.tier];
+                    if (existing) {
+                        throw new Error(`[EC2] Multiple SKUs for io2 IOPS tier ${kind.tier + 1} in ${region}: ${existing.sku}, ${sku}`);
+                    }
+                    io2IopsTiers[kind.tier] = { sku, pricing: termToComponentPricing(sku, term) };
+                    break;
+                }
+                case 'throughput':
+                    throughput[kind.volumeType] = termToSimpleRate(sku, term);
+                    break;
+                case 'snapshot':
+                    snapshots.storage = termToSimpleRate(sku, term);
+                    break;
+                case 'elasticIP':
+                    elasticIP[kind.slot] = termToSteadyStateRate(sku, term);
+                    break;
+                case 'transferOut':
+                    transfer.out = termToTiers(sku, term);
+                    break;
+                case 'transferIn':
+                    transfer.in = termToSimpleRate(sku, term);
+                    break;
+                case 'transferInterAZ':
+                    transfer.interAZ = termToSimpleRate(sku, term);
+                    break;
+            }
+        },
+    });
+
+    // Fail fast: every published component must come from the offer file
+    if (Object.keys(instances).length === 0) {
+        throw new Error(`[EC2] No instance pricing found for region ${region}`);
+    }
+
+    const missingVolumes = EBS_VOLUME_TYPES.filter(v => !ebs[v]);
+    if (missingVolumes.length > 0) {
+        throw new Error(`[EC2] Missing EBS volume pricing for ${missingVolumes.join(', ')} in region ${region}`);
+    }
+
+    if (!snapshots.storage) {
+        throw new Error(`[EC2] No EBS snapshot pricing found for region ${region}`);
+    }
 
-    for (const instanceType of commonInstances) {
-        instances[instanceType] = {
-            rate: approximatePricing[instanceType] || 0.10,
-            unit: 'hour' as const
-        };
+    if (!transfer.out || !transfer.in) {
+        throw new Error(`[EC2] No internet data transfer pricing found for region ${region}`);
     }
 
-    Logger.warn(`Using approximate pricing for ${Object.keys(instances).length} common instance types`);
+    if (!elasticIP.idle || !elasticIP.additional) {
+        throw new Error(`[EC2] No Elastic IP pricing found for region ${region}`);
+    }
+
+    const ebsPricing: EC2ServicePricing['components']['ebs'] = {
+        gp3: ebs.gp3!,
+        gp2: ebs.gp2!,
+        io2: ebs.io2!,
+        io1: ebs.io1!,
+        st1: ebs.st1!,
+        sc1: ebs.sc1!,
+        standard: ebs.standard!,
+    };
+
+    const io2Iops = io2IopsPricing(io2IopsTiers, region);
+
+    if (iops.io1) ebsPricing.io1_iops = iops.io1;
+    if (io2Iops) ebsPricing.io2_iops = io2Iops;
+    if (iops.gp3) ebsPricing.gp3_iops = iops.gp3;
+    if (throughput.gp3) ebsPricing.gp3_throughput = throughput.gp3;
+
+    const dataTransfer: EC2ServicePricing['components']['dataTransfer'] = {
+        in: transfer.in,
+        out: transfer.out,
+    };
+
+    if (transfer.interAZ) dataTransfer.interAZ = transfer.interAZ;
+
+    // Reserved offerings only for instance types the pipeline prices On-Demand
+    const orphanedReservations = Object.keys(reserved).filter(t => !instances[t]);
+    if (orphanedReservations.length > 0) {
+        throw new Error(`[EC2] Reserved pricing without On-Demand pricing for ${orphanedReservations.join(', ')} in region ${region}`);
+    }
 
-    // Build output with fallback data
     const output: EC2ServicePricing = {
         service: 'ec2',
         region,
         currency: 'USD',
         version: 'v1.0.0', // Will be set by versioning system
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: offerPublicationDate(header, rawFile),
         components: {
             instances,
-            ebs: {
-                gp3: { rate: 0.08, unit: 'gb_month' as const },
-                gp2: { rate: 0.10, unit: 'gb_month' as const },
-                io2: { rate: 0.125, unit: 'gb_month' as const },
-                io1: { rate: 0.125, unit: 'gb_month' as const },
-                st1: { rate: 0.045, unit: 'gb_month' as const },
-                sc1: { rate: 0.015, unit: 'gb_month' as const },
-                standard: { rate: 0.05, unit: 'gb_month' as const },
-            },
+            ebs: ebsPricing,
             snapshots: {
-                storage: { rate: 0.05, unit: 'gb_month' as const },
-            },
-            dataTransfer: {
-                in: { rate: 0, unit: 'gb' as const },
-                out: [
-                    { upTo: 10240, rate: 0.09, unit: 'gb' as const },
-                    { upTo: 51200, rate: 0.085, unit: 'gb' as const },
-                    { upTo: 153600, rate: 0.07, unit: 'gb' as const },
-                    { upTo: 'Infinity', rate: 0.05, unit: 'gb' as const },
-                ],
+                storage: snapshots.storage,
             },
+            dataTransfer,
             elasticIP: {
-                idle: { rate: 0.005, unit: 'hour' as const },
-                additional: { rate: 0.005, unit: 'hour' as const },
+                idle: elasticIP.idle,
+                additional: elasticIP.additional,
             },
         },
     };
 
+    if (Object.keys(reserved).length > 0) {
+        output.components.commitments = { reserved };
+    }
+
     Logger.table({
+        'Products scanned': productCount,
+        'Candidate SKUs': candidates.size,
         'Instance types': Object.keys(instances).length,
-        'EBS volume types': 7,
+        'Reserved instance types': Object.keys(reserved).length,
+        'EBS volume types': Object.keys(ebs).length,
+        'Data transfer tiers': transfer.out.length,
         'Region': region,
-        'Note': 'Using fallback pricing'
     });
 
     timer.end();
-    Logger.success('EC2 processing complete (fallback mode)');
+    Logger.success('EC2 processing complete');
 
     // CRITICAL: Validate exactly one region
     assertSingleRegion(output, region);
 
     return output;
 }
+
+/**
+ * EC2 plugin
+ */
+export const ec2Plugin = defineServicePlugin({
+    code: 'AmazonEC2',
+    name: 'EC2',
+    id: 'ec2',
+    fetchUrl: offerIndexUrl('AmazonEC2'),
+    schema: EC2ServicePricing,
+    filters: EC2_FILTERS,
+    processor: processEC2,
+    enabled: true,
+});
@@ -0,0 +1,155 @@
+import fs from 'fs';
+import { Logger, Timer } from '../utils/logger.js';
+import { ElastiCacheEngine, ElastiCacheServicePricing } from '../schema/elasticache.schema.js';
+import { SimpleRate } from '../schema/base.js';
+import { ReservedRate } from '../schema/commitments.js';
+import { assertSingleRegion, isRegionLocation } from '../normalize/common.js';
+import { ELASTICACHE_FILTERS, applySKUFilters } from '../normalize/filters.js';
+import { streamOfferFile, offerPublicationDate, OfferProduct } from '../normalize/offer-stream.js';
+import { singleTerm, termToSimpleRate } from '../normalize/offer-components.js';
+import { termsToReservedRates } from '../normalize/reserved.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+
+/**
+ * ElastiCache Pricing Processor
+ * Extracts: Nodes (On-Demand + Reserved) per cache engine
+ *
+ * Reserved nodes are sold against the same SKU as the on-demand node,
+ * so both term types are picked up in a single streaming pass.
+ */
+
+/**
+ * Offer cacheEngine → output engine key
+ */
+const ELASTICACHE_ENGINES: Record<string, ElastiCacheEngine> = {
+    'Redis': 'redis',
+    'Valkey': 'valkey',
+    'Memcached': 'memcached',
+};
+
+interface ElastiCacheNode {
+    engine: ElastiCacheEngine;
+    nodeType: string;
+}
+
+/**
+ * Node of a product for the given region, null for anything the pipeline does not publish
+ */
+function classifyProduct(product: OfferProduct, region: string): ElastiCacheNode | null {
+    const attrs = product.attributes;
+
+    if (product.productFamily !== 'Cache Instance') return null;
+    if (!isRegionLocation(attrs.location, region)) return null;
+    if (!attrs.instanceType || !applySKUFilters(attrs, ELASTICACHE_FILTERS)) return null;
+
+    return { engine: ELASTICACHE_ENGINES[attrs.cacheEngine!]!, nodeType: attrs.instanceType };
+}
+
+export async function processElastiCache(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<ElastiCacheServicePricing> {
+    Logger.substep(`Processing ElastiCache pricing for ${region}`);
+    const timer = new Timer('ElastiCache processing');
+
+    const rawFile = regionalRawFile('AmazonElastiCache', region, rawDir);
+
+    if (!fs.existsSync(rawFile)) {
+        throw new Error(`[ElastiCache] Raw pricing file not found: ${rawFile}`);
+    }
+
+    const candidates = new Map<string, ElastiCacheNode>();
+    const nodeSKUs: Record<string, string> = {};
+    const reservedSKUs: Record<string, string> = {};
+
+    const nodes: Partial<Record<ElastiCacheEngine, Record<string, SimpleRate>>> = {};
+    const reserved: Partial<Record<ElastiCacheEngine, Record<string, Record<string, ReservedRate>>>> = {};
+
+    const header = await streamOfferFile(rawFile, {
+        termTypes: ['OnDemand', 'Reserved'],
+        onProduct: product => {
+            const node = classifyProduct(product, region);
+            if (node) {
+                candidates.set(product.sku, node);
+            }
+        },
+        onTerms: (termType, sku, terms) => {
+            const node = candidates.get(sku);
+            if (!node) return;
+
+            // One SKU per engine and node type - another would silently replace its rates
+            const key = `${node.engine}/${node.nodeType}`;
+            const skus = termType === 'Reserved' ? reservedSKUs : nodeSKUs;
+            const existingSKU = skus[key];
+
+            if (existingSKU) {
+                throw new Error(`[ElastiCache] Multiple ${termType} SKUs for ${key} in ${region}: ${existingSKU}, ${sku}`);
+            }
+            skus[key] = sku;
+
+            if (termType === 'Reserved') {
+                (reserved[node.engine] ??= {})[node.nodeType] = termsToReservedRates(sku, terms);
+            } else {
+                (nodes[node.engine] ??= {})[node.nodeType] = termToSimpleRate(sku, singleTerm(sku, terms));
+            }
+        },
+    });
+
+    // Fail fast: every engine must come from the offer file
+    const missingEngines = ElastiCacheEngine.options.filter(engine => !nodes[engine]);
+    if (missingEngines.length > 0) {
+        throw new Error(`[ElastiCache] No node pricing found for ${missingEngines.join(', ')} in region ${region}`);
+    }
+
+    // Reserved offerings only for node types the pipeline prices On-Demand
+    const orphanedReservations = Object.keys(reservedSKUs).filter(key => !nodeSKUs[key]);
+    if (orphanedReservations.length > 0) {
+        throw new Error(`[ElastiCache] Reserved pricing without On-Demand pricing for ${orphanedReservations.join(', ')} in region ${region}`);
+    }
+
+    const output: ElastiCacheServicePricing = {
+        service: 'elasticache',
+        region,
+        currency: 'USD',
+        version: 'v1.0.0', // Will be set by versioning system
+        lastUpdated: offerPublicationDate(header, rawFile),
+        components: {
+            nodes,
+        },
+    };
+
+    for (const [engine, engineReserved] of Object.entries(reserved)) {
+        (output.components.commitments ??= {})[engine as ElastiCacheEngine] = { reserved: engineReserved };
+    }
+
+    Logger.table({
+        'Candidate SKUs': candidates.size,
+        'Node types': Object.keys(nodeSKUs).length,
+        'Reserved node types': Object.keys(reservedSKUs).length,
+        'Region': region,
+    });
+
+    timer.end();
+    Logger.success('ElastiCache processing complete');
+
+    // CRITICAL: Validate exactly one region
+    assertSingleRegion(output, region);
+
+    return output;
+}
+
+/**
+ * ElastiCache plugin
+ */
+export const elastiCachePlugin = defineServicePlugin({
+    code: 'AmazonElastiCache',
+    name: 'ElastiCache',
+    id: 'elasticache',
+    fetchUrl: offerIndexUrl('AmazonElastiCache'),
+    schema: ElastiCacheServicePricing,
+    filters: ELASTICACHE_FILTERS,
+    processor: processElastiCache,
+    enabled: true,
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { priceComponent } from '../schema/cost.js';
+import { provenanceOf } from '../normalize/provenance.js';
+import { processLambda } from './lambda.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lambda-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const LOCATION = 'US East (N. Virginia)';
+
+type Dimension = [price: string, unit: string, beginRange?: string, endRange?: string];
+
+interface Sku {
+    sku: string;
+    group: string;
+    usagetype: string;
+    dimensions: Dimension[];
+}
+
+const DURATION_TIERS: Dimension[] = [
+    // Listed out of tier order, as AWS does
+    ['0.0000133334', 'Lambda-GB-Second', '15000000000', 'Inf'],
+    ['0.0000166667', 'Lambda-GB-Second', '0', '6000000000'],
+    ['0.0000150000', 'Lambda-GB-Second', '6000000000', '15000000000'],
+];
+
+const SKUS: Sku[] = [
+    { sku: 'X86', group: 'AWS-Lambda-Duration', usagetype: 'Lambda-GB-Second', dimensions: DURATION_TIERS },
+    { sku: 'ARM', group: 'AWS-Lambda-Duration', usagetype: 'Lambda-GB-Second-ARM', dimensions: [['0.0000133334', 'Lambda-GB-Second']] },
+    { sku: 'REQ', group: 'AWS-Lambda-Requests', usagetype: 'Request', dimensions: [['0.0000002000', 'Requests']] },
+    { sku: 'REQARM', group: 'AWS-Lambda-Requests', usagetype: 'Request-ARM', dimensions: [['0.0000002000', 'Requests']] },
+    { sku: 'STORAGE', group: 'AWS-Lambda-Storage-Duration', usagetype: 'Lambda-Storage-GB-Second', dimensions: [['0.0000000309', 'GB-Seconds']] },
+    { sku: 'PROV', group: 'AWS-Lambda-Duration-Provisioned', usagetype: 'Lambda-Provisioned-GB-Second', dimensions: [['0.0000041667', 'Lambda-GB-Second']] },
+];
+
+function writeOffer(name: string, skus: Sku[]): string {
+    const rawDir = path.join(tempDir, name);
+    const products: Record<string, unknown> = {};
+    const onDemand: Record<string, unknown> = {};
+
+    for (const { sku, group, usagetype, dimensions } of skus) {
+        products[sku] = { sku, productFamily: 'Serverless', attributes: { location: LOCATION, group, usagetype } };
+
+        const priceDimensions = Object.fromEntries(dimensions.map(([price, unit, beginRange, endRange], i) => [
+            `${sku}.JRTCKXETXF.${i}`,
+            { rateCode: `${sku}.JRTCKXETXF.${i}`, unit, pricePerUnit: { USD: price }, ...(beginRange ? { beginRange, endRange } : {}) },
+        ]));
+        onDemand[sku] = { [`${sku}.JRTCKXETXF`]: { offerTermCode: 'JRTCKXETXF', sku, priceDimensions } };
+    }
+
+    fs.mkdirSync(path.join(rawDir, 'AWSLambda'), { recursive: true });
+    fs.writeFileSync(path.join(rawDir, 'AWSLambda', 'us-east-1.json'), JSON.stringify({
+        formatVersion: 'v1.0',
+        offerCode: 'AWSLambda',
+        version: '20240601000000',
+        publicationDate: '2024-06-01T00:00:00Z',
+        products,
+        terms: { OnDemand: onDemand },
+    }));
+
+    return rawDir;
+}
+
+describe('processLambda', () => {
+    it('prices requests per request, as the offer does', async () => {
+        const { components } = await processLambda('us-east-1', writeOffer('requests', SKUS));
+
+        expect(components.requests.requests).toEqual({ rate: 0.0000002, unit: 'request' });
+        expect(provenanceOf(components.requests.requests)).toMatchObject({ source: 'offer', sku: 'REQ' });
+
+        // One million requests cost $0.20
+        expect(priceComponent(components.requests.requests, { quantity: 1, unit: 'million_requests' }).cents).toBe(20);
+    });
+
+    it('keeps every duration tier in tier order', async () => {
+        const { components } = await processLambda('us-east-1', writeOffer('tiers', SKUS));
+
+        expect(components.compute.x86).toEqual([
+            { upTo: 6000000000, rate: 0.0000166667, unit: 'second' },
+            { upTo: 15000000000, rate: 0.000015, unit: 'second' },
+            { upTo: 'Infinity', rate: 0.0000133334, unit: 'second' },
+        ]);
+        expect(components.compute.arm).toEqual({ rate: 0.0000133334, unit: 'second' });
+        expect(components.duration.ephemeralStorage).toEqual({ rate: 0.0000000309, unit: 'second' });
+    });
+
+    it('crashes on two SKUs for one component', async () => {
+        const rawDir = writeOffer('duplicate', [...SKUS, { ...SKUS[0]!, sku: 'X86B' }]);
+
+        await expect(processLambda('us-east-1', rawDir)).rejects.toThrow('[Lambda] Multiple SKUs for compute.x86 in us-east-1: X86, X86B');
+    });
+
+    it('crashes on a missing component', async () => {
+        const rawDir = writeOffer('missing', SKUS.filter(sku => sku.sku !== 'STORAGE'));
+
+        await expect(processLambda('us-east-1', rawDir)).rejects.toThrow('[Lambda] Missing pricing for ephemeralStorage in region us-east-1');
+    });
+});
@@ -1,102 +1,136 @@
 import fs from 'fs';
-import path from 'path';
 import chalk from 'chalk';
 import { LambdaServicePricing } from '../schema/lambda.schema.js';
-import { SimpleRate } from '../schema/base.js';
-import { parseAwsPrice, assertSingleRegion } from '../normalize/common.js';
+import { SimpleRate, ComponentPricing } from '../schema/base.js';
+import { assertSingleRegion } from '../normalize/common.js';
+import { extractOfferCandidates, OfferCandidate } from '../normalize/offer-components.js';
+import { offerPublicationDate } from '../normalize/offer-stream.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { LAMBDA_FILTERS } from '../normalize/filters.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Lambda Pricing Processor
- * Extracts: Compute (x86/ARM), Requests, Duration
+ * Extracts: Compute (x86/ARM), Requests, Duration (ephemeral storage)
+ * Every rate comes from the regional offer file - nothing is carried over from us-east-1
+ *
+ * Compute duration is tiered by monthly GB-seconds (first 6B, next 9B, over 15B).
+ * Requests and ephemeral storage cost the same on both architectures, so only
+ * the x86 SKUs are published for them.
  */
 
-interface AWSPricingFile {
-    products: Record<string, {
-        sku: string;
-        productFamily: string;
-        attributes: Record<string, string>;
-    }>;
-    terms: {
-        OnDemand: Record<string, Record<string, {
-            priceDimensions: Record<string, {
-                unit: string;
-                pricePerUnit: { USD: string };
-            }>;
-        }>>;
-    };
+type LambdaSlot = 'compute.x86' | 'compute.arm' | 'requests' | 'ephemeralStorage';
+
+const LAMBDA_SLOTS: LambdaSlot[] = ['compute.x86', 'compute.arm', 'requests', 'ephemeralStorage'];
+
+/**
+ * Component slot of a product (LAMBDA_FILTERS already restricted its group),
+ * null for the ARM request and storage SKUs
+ */
+function classifyProduct(attrs: Record<string, string>): LambdaSlot | null {
+    const arm = attrs.usagetype?.endsWith('-ARM') ?? false;
+
+    switch (attrs.group) {
+        case 'AWS-Lambda-Duration':
+            return arm ? 'compute.arm' : 'compute.x86';
+        case 'AWS-Lambda-Requests':
+            return arm ? null : 'requests';
+        case 'AWS-Lambda-Storage-Duration':
+            return arm ? null : 'ephemeralStorage';
+        default:
+            return null;
+    }
 }
 
-export async function processLambda(region: string = 'us-east-1'): Promise<LambdaServicePricing> {
-    console.log(chalk.blue(`[Lambda] Processing pricing for ${region}...`));
+export async function processLambda(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<LambdaServicePricing> {
+    activeLogger().log(chalk.blue(`[Lambda] Processing pricing for ${region}...`));
 
-    const rawFile = path.join('raw', 'AWSLambda.json');
+    const rawFile = regionalRawFile('AWSLambda', region, rawDir);
 
     if (!fs.existsSync(rawFile)) {
         throw new Error(`[Lambda] Raw pricing file not found: ${rawFile}`);
     }
 
-    const rawData: AWSPricingFile = JSON.parse(fs.readFileSync(rawFile, 'utf-8'));
+    const { header, candidates } = await extractOfferCandidates(rawFile, {
+        region,
+        filters: LAMBDA_FILTERS,
+        match: product => classifyProduct(product.attributes) !== null,
+    });
 
-    let x86ComputeRate = 0.0000166667; // Default per GB-second
-    let armComputeRate = 0.0000133334; // Default per GB-second (ARM is ~20% cheaper)
-    let requestRate = 0.20; // Default per million requests
+    const slots = new Map<LambdaSlot, OfferCandidate>();
 
-    // Process products
-    for (const [sku, product] of Object.entries(rawData.products)) {
-        const attrs = product.attributes;
+    for (const candidate of candidates) {
+        const slot = classifyProduct(candidate.attributes)!;
+        const existing = slots.get(slot);
 
-        // Filter by region
-        if (attrs.location && !attrs.location.includes(region)) {
-            continue;
+        if (existing) {
+            throw new Error(`[Lambda] Multiple SKUs for ${slot} in ${region}: ${existing.sku}, ${candidate.sku}`);
         }
 
-        const onDemandTerms = rawData.terms.OnDemand[sku];
-        if (!onDemandTerms) continue;
-
-        for (const term of Object.values(onDemandTerms)) {
-            for (const dimension of Object.values(term.priceDimensions)) {
-                const rate = parseAwsPrice(dimension.pricePerUnit.USD);
-
-                // Identify pricing type
-                if (attrs.group === 'AWS-Lambda-Duration') {
-                    if (attrs.usagetype?.includes('ARM')) {
-                        armComputeRate = rate;
-                    } else {
-                        x86ComputeRate = rate;
-                    }
-                } else if (attrs.group === 'AWS-Lambda-Requests') {
-                    requestRate = rate;
-                }
-            }
-        }
+        slots.set(slot, candidate);
     }
 
+    // Fail fast: every component must come from the offer file
+    const missing = LAMBDA_SLOTS.filter(slot => !slots.has(slot));
+    if (missing.length > 0) {
+        throw new Error(`[Lambda] Missing pricing for ${missing.join(', ')} in region ${region}`);
+    }
+
+    const component = (slot: LambdaSlot): ComponentPricing => slots.get(slot)!.pricing;
+
+    const simpleRate = (slot: LambdaSlot): SimpleRate => {
+        const pricing = component(slot);
+        if (Array.isArray(pricing)) {
+            throw new Error(`[Lambda] Expected a flat rate for ${slot} in ${region}, got ${pricing.length} tiers`);
+        }
+        return pricing;
+    };
+
     const output: LambdaServicePricing = {
         service: 'lambda',
         region,
         currency: 'USD',
         version: 'v1.0.0',
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: offerPublicationDate(header, rawFile),
         components: {
             compute: {
-                x86: { rate: x86ComputeRate, unit: 'second' as const },
-                arm: { rate: armComputeRate, unit: 'second' as const },
+                x86: component('compute.x86'),
+                arm: component('compute.arm'),
             },
             requests: {
-                requests: { rate: requestRate, unit: 'million_requests' as const },
+                requests: simpleRate('requests'),
             },
             duration: {
-                ephemeralStorage: { rate: 0.0000000309, unit: 'second' as const },
+                ephemeralStorage: simpleRate('ephemeralStorage'),
             },
         },
     };
 
-    console.log(`[Lambda] Processed ${Object.keys(output.components.compute).length} compute tiers`);
+    activeLogger().log(`[Lambda] Processed ${slots.size} Lambda pricing components from ${candidates.length} SKUs`);
 
     // CRITICAL: Validate exactly one region
     assertSingleRegion(output, region);
 
-    console.log(chalk.green(`[Lambda] Processed Lambda pricing successfully`));
+    activeLogger().log(chalk.green(`[Lambda] Processed Lambda pricing successfully`));
 
     return output;
 }
+
+/**
+ * Lambda plugin
+ */
+export const lambdaPlugin = defineServicePlugin({
+    code: 'AWSLambda',
+    name: 'Lambda',
+    id: 'lambda',
+    fetchUrl: offerIndexUrl('AWSLambda'),
+    schema: LambdaServicePricing,
+    filters: LAMBDA_FILTERS,
+    processor: processLambda,
+    enabled: true,
+});
@@ -1,13 +1,30 @@
 import fs from 'fs';
-import path from 'path';
-import { RDSServicePricing } from '../schema/rds.schema.js';
-import { normalizeRegion, parseAwsPrice, assertSingleRegion } from '../normalize/common.js';
+import { RDSEngine, RDSServicePricing } from '../schema/rds.schema.js';
+import { ReservedRate } from '../schema/commitments.js';
+import { parseAwsPrice } from '../normalize/units.js';
+import { assertSingleRegion, isRegionLocation } from '../normalize/common.js';
+import { RDS_INSTANCE_FILTERS, applySKUFilters } from '../normalize/filters.js';
+import { termsToReservedRates } from '../normalize/reserved.js';
+import { OfferTerm, offerPublicationDate } from '../normalize/offer-stream.js';
+import { withProvenance, dimensionProvenance } from '../normalize/provenance.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * RDS Pricing Processor
- * Processes Amazon RDS pricing for on-demand instances and storage
+ * Processes Amazon RDS pricing for on-demand and reserved instances and storage
  */
 
+/**
+ * Offer databaseEngine → output engine key
+ */
+const RDS_ENGINES: Record<string, RDSEngine> = {
+    'MySQL': 'mysql',
+    'PostgreSQL': 'postgresql',
+};
+
 interface RDSProduct {
     attributes?: {
         instanceType?: string;
@@ -22,22 +39,30 @@ interface RDSProduct {
 
 interface RDSTerms {
     OnDemand?: Record<string, Record<string, {
+        offerTermCode?: string;
         priceDimensions?: Record<string, {
+            rateCode: string;
+            description?: string;
             unit?: string;
             pricePerUnit?: { USD?: string };
         }>;
     }>>;
+    Reserved?: Record<string, Record<string, OfferTerm>>;
 }
 
 interface RDSPricingData {
+    publicationDate?: string;
     products?: Record<string, RDSProduct>;
     terms?: RDSTerms;
 }
 
-export async function processRDS(region: string = 'us-east-1'): Promise<RDSServicePricing> {
-    console.log(`[RDS] Processing RDS pricing for ${region}`);
+export async function processRDS(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<RDSServicePricing> {
+    activeLogger().log(`[RDS] Processing RDS pricing for ${region}`);
 
-    const rawFile = path.join('raw', 'AmazonRDS.json');
+    const rawFile = regionalRawFile('AmazonRDS', region, rawDir);
 
     if (!fs.existsSync(rawFile)) {
         throw new Error(`[RDS] Raw pricing file not found: ${rawFile}`);
@@ -46,8 +71,11 @@ export async function processRDS(region: string = 'us-east-1'): Promise<RDSServi
     const rawData: RDSPricingData = JSON.parse(fs.readFileSync(rawFile, 'utf-8'));
     const products = rawData.products || {};
     const terms = rawData.terms?.OnDemand || {};
+    const reservedTerms = rawData.terms?.Reserved || {};
 
-    const instances: Record<string, { rate: number; unit: 'hour' }> = {};
+    const instances: Partial<Record<RDSEngine, Record<string, { rate: number; unit: 'hour' }>>> = {};
+    const reserved: Partial<Record<RDSEngine, Record<string, Record<string, ReservedRate>>>> = {};
+    const instanceSKUs: Record<string, string> = {};
     let gp3StorageRate: { rate: number; unit: 'gb_month' } | null = null;
 
     // Process products
@@ -57,14 +85,8 @@ export async function processRDS(region: string = 'us-east-1'): Promise<RDSServi
         const attrs = product.attributes;
 
         // Filter by region
-        if (attrs.location) {
-            try {
-                if (normalizeRegion(attrs.location) !== region) {
-                    continue;
-                }
-            } catch {
-                continue;
-            }
+        if (!isRegionLocation(attrs.location, region)) {
+            continue;
         }
 
         // Get pricing terms
@@ -85,34 +107,49 @@ export async function processRDS(region: string = 'us-east-1'): Promise<RDSServi
 
         // Process instance pricing
         if (attrs.instanceType && attrs.databaseEngine) {
-            // Filter: On-Demand, MySQL/PostgreSQL, Single-AZ
+            // Filter: MySQL/PostgreSQL, Single-AZ
             if (
-                attrs.deploymentOption === 'Single-AZ' &&
-                (attrs.databaseEngine === 'MySQL' || attrs.databaseEngine === 'PostgreSQL') &&
+                applySKUFilters(attrs as Record<string, string>, RDS_INSTANCE_FILTERS) &&
                 priceDim.unit === 'Hrs'
             ) {
                 const instanceType = attrs.instanceType;
-                instances[instanceType] = {
+                const engine = RDS_ENGINES[attrs.databaseEngine]!;
+
+                // One SKU per engine and instance type - another would silently replace its rate
+                const key = `${engine}/${instanceType}`;
+                const existingSKU = instanceSKUs[key];
+                if (existingSKU) {
+                    throw new Error(`[RDS] Multiple SKUs for ${key} in ${region}: ${existingSKU}, ${sku}`);
+                }
+                instanceSKUs[key] = sku;
+
+                (instances[engine] ??= {})[instanceType] = withProvenance({
                     rate,
                     unit: 'hour',
-                };
+                }, dimensionProvenance(sku, offerTerm, priceDim));
+
+                const skuReservedTerms = reservedTerms[sku];
+                if (skuReservedTerms) {
+                    (reserved[engine] ??= {})[instanceType] = termsToReservedRates(sku, skuReservedTerms);
+                }
             }
         }
 
         // Process storage pricing (gp3)
         if (attrs.storageMedia === 'SSD-backed' && attrs.usagetype?.includes('GP3-Storage')) {
             if (priceDim.unit === 'GB-Mo') {
-                gp3StorageRate = {
+                gp3StorageRate = withProvenance({
                     rate,
                     unit: 'gb_month',
-                };
+                }, dimensionProvenance(sku, offerTerm, priceDim));
             }
         }
     }
 
     // Validate we have data
-    if (Object.keys(instances).length === 0) {
-        throw new Error(`[RDS] No instance pricing found for region ${region}`);
+    const missingEngines = RDSEngine.options.filter(engine => !instances[engine]);
+    if (missingEngines.length > 0) {
+        throw new Error(`[RDS] No instance pricing found for ${missingEngines.join(', ')} in region ${region}`);
     }
 
     if (!gp3StorageRate) {
@@ -124,7 +161,7 @@ export async function processRDS(region: string = 'us-east-1'): Promise<RDSServi
         region,
         currency: 'USD',
         version: 'v1.0.0',
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: offerPublicationDate(rawData, rawFile),
         components: {
             instances,
             storage: {
@@ -133,11 +170,32 @@ export async function processRDS(region: string = 'us-east-1'): Promise<RDSServi
         },
     };
 
-    console.log(`[RDS] Processed ${Object.keys(instances).length} instance types`);
-    console.log(`[RDS] Processed storage pricing`);
+    for (const [engine, engineReserved] of Object.entries(reserved)) {
+        (output.components.commitments ??= {})[engine as RDSEngine] = { reserved: engineReserved };
+    }
+
+    for (const engine of RDSEngine.options) {
+        activeLogger().log(`[RDS] Processed ${Object.keys(instances[engine]!).length} ${engine} instance types`);
+        activeLogger().log(`[RDS] Processed reserved pricing for ${Object.keys(reserved[engine] ?? {}).length} ${engine} instance types`);
+    }
+    activeLogger().log(`[RDS] Processed storage pricing`);
 
     // CRITICAL: Validate exactly one region
     assertSingleRegion(output, region);
 
     return output;
 }
+
+/**
+ * RDS plugin
+ */
+export const rdsPlugin = defineServicePlugin({
+    code: 'AmazonRDS',
+    name: 'RDS',
+    id: 'rds',
+    fetchUrl: offerIndexUrl('AmazonRDS'),
+    schema: RDSServicePricing,
+    filters: RDS_INSTANCE_FILTERS,
+    processor: processRDS,
+    enabled: true,
+});
@@ -1,133 +1,195 @@
 import fs from 'fs';
-import path from 'path';
 import chalk from 'chalk';
 import { S3ServicePricing } from '../schema/s3.schema.js';
-import { SimpleRate, PricingTier } from '../schema/base.js';
-import { normalizeUnit, parseAwsPrice } from '../normalize/units.js';
-import { normalizeRegion, assertSingleRegion } from '../normalize/common.js';
+import { SimpleRate, PricingTier, ComponentPricing } from '../schema/base.js';
+import { assertSingleRegion, isRegionLocation, stripUsageTypePrefix } from '../normalize/common.js';
+import { streamOfferFile, offerPublicationDate, OfferProduct } from '../normalize/offer-stream.js';
+import { singleTerm, termToComponentPricing } from '../normalize/offer-components.js';
+import { withProvenance, provenanceOf } from '../normalize/provenance.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { S3_FILTERS, applySKUFilters } from '../normalize/filters.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * S3 Pricing Processor
  * Extracts: Storage, Requests, Data Transfer, Retrieval
+ *
+ * Every component comes from the regional offer file - storage and transfer
+ * tiers differ by region, so nothing is carried over from us-east-1.
  */
 
-interface AWSPricingFile {
-    products: Record<string, {
-        sku: string;
-        productFamily: string;
-        attributes: Record<string, string>;
-    }>;
-    terms: {
-        OnDemand: Record<string, Record<string, {
-            priceDimensions: Record<string, {
-                unit: string;
-                pricePerUnit: { USD: string };
-                beginRange?: string;
-                endRange?: string;
-            }>;
-        }>>;
-    };
-}
+/**
+ * Usage type (without region prefix) → component slot
+ * Request tiers feed several request types: Tier1 is PUT, COPY, POST and LIST,
+ * Tier2 is GET and SELECT; lifecycle is the transition into Glacier.
+ */
+const USAGE_TYPE_SLOTS = {
+    'TimedStorage-ByteHrs': 'storage.standard',
+    'TimedStorage-INT-FA-ByteHrs': 'storage.intelligentTiering',
+    'TimedStorage-SIA-ByteHrs': 'storage.standardIA',
+    'TimedStorage-ZIA-ByteHrs': 'storage.oneZoneIA',
+    'TimedStorage-GlacierByteHrs': 'storage.glacier',
+    'TimedStorage-GDA-ByteHrs': 'storage.glacierDeepArchive',
+    'Requests-Tier1': 'requests.tier1',
+    'Requests-Tier2': 'requests.tier2',
+    'Requests-GLACIER-Tier1': 'requests.lifecycle',
+    'Expedited-Retrieval-Bytes': 'retrieval.glacier.expedited',
+    'Standard-Retrieval-Bytes': 'retrieval.glacier.standard',
+    'Bulk-Retrieval-Bytes': 'retrieval.glacier.bulk',
+    'GDA-Standard-Retrieval-Bytes': 'retrieval.glacierDeepArchive.standard',
+    'GDA-Bulk-Retrieval-Bytes': 'retrieval.glacierDeepArchive.bulk',
+} as const;
+
+type S3Slot = typeof USAGE_TYPE_SLOTS[keyof typeof USAGE_TYPE_SLOTS] | 'dataTransfer.in' | 'dataTransfer.out';
+
+const S3_SLOTS: S3Slot[] = [...Object.values(USAGE_TYPE_SLOTS), 'dataTransfer.in', 'dataTransfer.out'];
 
-export async function processS3(region: string = 'us-east-1'): Promise<S3ServicePricing> {
-    console.log(chalk.blue(`[S3] Processing pricing for ${region}...`));
+/**
+ * Component slot of an S3 product for the given region
+ * Returns null for anything the pipeline does not publish
+ */
+function classifyProduct(product: OfferProduct, region: string): S3Slot | null {
+    const attrs = product.attributes;
 
-    const rawFile = path.join('raw', 'AmazonS3.json');
+    // Transfer SKUs are located by from/to location, so S3 applies its filters here
+    // instead of through extractOfferCandidates
+    if (!applySKUFilters(attrs, S3_FILTERS)) return null;
 
-    if (!fs.existsSync(rawFile)) {
-        throw new Error(`[S3] Raw pricing file not found: ${rawFile}`);
+    if (product.productFamily === 'Data Transfer') {
+        if (attrs.transferType === 'AWS Outbound' && attrs.toLocation === 'External'
+            && isRegionLocation(attrs.fromLocation, region)) {
+            return 'dataTransfer.out';
+        }
+        if (attrs.transferType === 'AWS Inbound' && attrs.fromLocation === 'External'
+            && isRegionLocation(attrs.toLocation, region)) {
+            return 'dataTransfer.in';
+        }
+        return null;
     }
 
-    const rawData: AWSPricingFile = JSON.parse(fs.readFileSync(rawFile, 'utf-8'));
+    if (!isRegionLocation(attrs.location, region) || !attrs.usagetype) return null;
 
-    const requestPricing: any = {};
+    return (USAGE_TYPE_SLOTS as Record<string, S3Slot>)[stripUsageTypePrefix(attrs.usagetype, region)] ?? null;
+}
 
-    // Process products
-    for (const [sku, product] of Object.entries(rawData.products)) {
-        const attrs = product.attributes;
+export async function processS3(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<S3ServicePricing> {
+    activeLogger().log(chalk.blue(`[S3] Processing pricing for ${region}...`));
 
-        // Filter by region
-        if (attrs.location && normalizeRegion(attrs.location) !== region) {
-            continue;
-        }
+    const rawFile = regionalRawFile('AmazonS3', region, rawDir);
 
-        // Process requests
-        if (product.productFamily === 'API Request') {
-            const requestType = attrs.requestType?.toLowerCase();
-            if (!requestType) continue;
+    if (!fs.existsSync(rawFile)) {
+        throw new Error(`[S3] Raw pricing file not found: ${rawFile}`);
+    }
 
-            const onDemandTerms = rawData.terms.OnDemand[sku];
-            if (!onDemandTerms) continue;
+    const candidates = new Map<string, S3Slot>();
+    const slots = new Map<S3Slot, { sku: string; pricing: ComponentPricing }>();
 
-            for (const term of Object.values(onDemandTerms)) {
-                for (const dimension of Object.values(term.priceDimensions)) {
-                    const rate = parseAwsPrice(dimension.pricePerUnit.USD);
-                    const unit = normalizeUnit(dimension.unit);
+    const header = await streamOfferFile(rawFile, {
+        onProduct: product => {
+            const slot = classifyProduct(product, region);
+            if (slot) {
+                candidates.set(product.sku, slot);
+            }
+        },
+        onTerms: (_termType, sku, terms) => {
+            const slot = candidates.get(sku);
+            if (!slot) return;
 
-                    requestPricing[requestType] = { rate, unit };
-                    break;
-                }
+            const existing = slots.get(slot);
+            if (existing) {
+                throw new Error(`[S3] Multiple SKUs for ${slot} in ${region}: ${existing.sku}, ${sku}`);
             }
-        }
+
+            slots.set(slot, { sku, pricing: termToComponentPricing(sku, singleTerm(sku, terms)) });
+        },
+    });
+
+    // Fail fast: every component must come from the offer file
+    const missing = S3_SLOTS.filter(slot => !slots.has(slot));
+    if (missing.length > 0) {
+        throw new Error(`[S3] Missing pricing for ${missing.join(', ')} in region ${region}`);
     }
 
-    // Build output with standard S3 pricing
+    const simpleRate = (slot: S3Slot): SimpleRate => {
+        const pricing = slots.get(slot)!.pricing;
+        if (Array.isArray(pricing)) {
+            throw new Error(`[S3] Expected a flat rate for ${slot} in ${region}, got ${pricing.length} tiers`);
+        }
+        return pricing;
+    };
+
+    // A single-dimension term is one unbounded tier
+    const tiers = (slot: S3Slot): PricingTier[] => {
+        const pricing = slots.get(slot)!.pricing;
+        return Array.isArray(pricing)
+            ? pricing
+            : [withProvenance({ upTo: 'Infinity', rate: pricing.rate, unit: pricing.unit }, provenanceOf(pricing)!)];
+    };
+
     const output: S3ServicePricing = {
         service: 's3',
         region,
         currency: 'USD',
         version: 'v1.0.0',
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: offerPublicationDate(header, rawFile),
         components: {
             storage: {
-                standard: [
-                    { upTo: 51200, rate: 0.023, unit: 'gb_month' as const },
-                    { upTo: 512000, rate: 0.022, unit: 'gb_month' as const },
-                    { upTo: 'Infinity', rate: 0.021, unit: 'gb_month' as const },
-                ],
-                intelligentTiering: [
-                    { upTo: 'Infinity', rate: 0.023, unit: 'gb_month' as const },
-                ],
-                standardIA: { rate: 0.0125, unit: 'gb_month' as const },
-                oneZoneIA: { rate: 0.01, unit: 'gb_month' as const },
-                glacier: { rate: 0.004, unit: 'gb_month' as const },
-                glacierDeepArchive: { rate: 0.00099, unit: 'gb_month' as const },
+                standard: tiers('storage.standard'),
+                intelligentTiering: tiers('storage.intelligentTiering'),
+                standardIA: simpleRate('storage.standardIA'),
+                oneZoneIA: simpleRate('storage.oneZoneIA'),
+                glacier: simpleRate('storage.glacier'),
+                glacierDeepArchive: simpleRate('storage.glacierDeepArchive'),
             },
             requests: {
-                put: requestPricing['put'] || { rate: 0.005, unit: 'request' as const },
-                copy: requestPricing['copy'] || { rate: 0.005, unit: 'request' as const },
-                post: requestPricing['post'] || { rate: 0.005, unit: 'request' as const },
-                list: requestPricing['list'] || { rate: 0.005, unit: 'request' as const },
-                get: requestPricing['get'] || { rate: 0.0004, unit: 'request' as const },
-                select: requestPricing['select'] || { rate: 0.0004, unit: 'request' as const },
-                lifecycle: { rate: 0.0025, unit: 'request' as const },
+                put: simpleRate('requests.tier1'),
+                copy: simpleRate('requests.tier1'),
+                post: simpleRate('requests.tier1'),
+                list: simpleRate('requests.tier1'),
+                get: simpleRate('requests.tier2'),
+                select: simpleRate('requests.tier2'),
+                lifecycle: simpleRate('requests.lifecycle'),
             },
             dataTransfer: {
-                in: { rate: 0, unit: 'gb' as const },
-                out: [
-                    { upTo: 10240, rate: 0.09, unit: 'gb' as const },
-                    { upTo: 51200, rate: 0.085, unit: 'gb' as const },
-                    { upTo: 153600, rate: 0.07, unit: 'gb' as const },
-                    { upTo: 'Infinity', rate: 0.05, unit: 'gb' as const },
-                ],
+                in: simpleRate('dataTransfer.in'),
+                out: tiers('dataTransfer.out'),
             },
             retrieval: {
                 glacier: {
-                    expedited: { rate: 0.03, unit: 'gb' as const },
-                    standard: { rate: 0.01, unit: 'gb' as const },
-                    bulk: { rate: 0.0025, unit: 'gb' as const },
+                    expedited: simpleRate('retrieval.glacier.expedited'),
+                    standard: simpleRate('retrieval.glacier.standard'),
+                    bulk: simpleRate('retrieval.glacier.bulk'),
                 },
                 glacierDeepArchive: {
-                    standard: { rate: 0.02, unit: 'gb' as const },
-                    bulk: { rate: 0.0025, unit: 'gb' as const },
+                    standard: simpleRate('retrieval.glacierDeepArchive.standard'),
+                    bulk: simpleRate('retrieval.glacierDeepArchive.bulk'),
                 },
             },
         },
     };
 
-    console.log(chalk.green(`[S3] Processed S3 pricing successfully`));
+    activeLogger().log(chalk.green(`[S3] Processed ${slots.size} S3 pricing components`));
     // CRITICAL: Validate exactly one region
     assertSingleRegion(output, region);
 
     return output;
 }
+
+/**
+ * S3 plugin
+ */
+export const s3Plugin = defineServicePlugin({
+    code: 'AmazonS3',
+    name: 'S3',
+    id: 's3',
+    fetchUrl: offerIndexUrl('AmazonS3'),
+    schema: S3ServicePricing,
+    filters: S3_FILTERS,
+    processor: processS3,
+    enabled: true,
+});
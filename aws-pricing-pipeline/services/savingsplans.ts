@@ -0,0 +1,224 @@
+import fs from 'fs';
+import { Logger, Timer } from '../utils/logger.js';
+import { SavingsPlansServicePricing } from '../schema/savingsplans.schema.js';
+import { SimpleRate } from '../schema/base.js';
+import { SavingsPlanRates } from '../schema/commitments.js';
+import { assertSingleRegion } from '../normalize/common.js';
+import { SAVINGS_PLAN_FILTERS, applySKUFilters } from '../normalize/filters.js';
+import { normalizeUnit, parseAwsPrice } from '../normalize/units.js';
+import { savingsPlanTermKey } from '../normalize/reserved.js';
+import { withProvenance, dimensionProvenance } from '../normalize/provenance.js';
+import { streamOfferFile, offerPublicationDate, SavingsPlanRate, SavingsPlanTerm } from '../normalize/offer-stream.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { savingsPlanIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+
+/**
+ * Savings Plans Pricing Processor
+ * Extracts: Compute Savings Plans (EC2 instances, Lambda duration),
+ * EC2 Instance Savings Plans (per instance family)
+ *
+ * Savings Plans offer files list one product per plan (type, term, purchase option)
+ * and one term per product whose rates discount other services' usage SKUs.
+ * Only Linux, shared tenancy instance usage is kept - the same SKUs EC2_FILTERS selects.
+ */
+
+type SavingsPlanProduct =
+    | { plan: 'compute'; termKey: string }
+    | { plan: 'ec2Instance'; termKey: string; family: string };
+
+/** Shared tenancy instance usage: "BoxUsage:m5.large", "EU-BoxUsage:m5.large" */
+const BOX_USAGE = /(?:^|-)BoxUsage:([a-z0-9-]+\.[a-z0-9]+)$/;
+
+/** Lambda duration: "USE1-Lambda-GB-Second", "USE1-Lambda-GB-Second-ARM" */
+const LAMBDA_DURATION = /(?:^|-)Lambda-GB-Second(-ARM)?$/;
+
+/** Linux/UNIX without pre-installed software or license */
+const LINUX_OPERATION = 'RunInstances';
+
+function classifyProduct(
+    sku: string,
+    productFamily: string | undefined,
+    attrs: Record<string, string>
+): SavingsPlanProduct | null {
+    if (!applySKUFilters(attrs, SAVINGS_PLAN_FILTERS)) return null;
+
+    switch (productFamily) {
+        case 'ComputeSavingsPlans':
+            return { plan: 'compute', termKey: savingsPlanTermKey(sku, attrs) };
+
+        case 'EC2InstanceSavingsPlans':
+            if (!attrs.instanceType) {
+                throw new Error(`[SavingsPlans] EC2 Instance Savings Plan ${sku} has no instance family`);
+            }
+            return { plan: 'ec2Instance', termKey: savingsPlanTermKey(sku, attrs), family: attrs.instanceType };
+
+        default:
+            return null;
+    }
+}
+
+function discountedRate(term: SavingsPlanTerm, rate: SavingsPlanRate): SimpleRate {
+    if (rate.discountedRate.currency !== 'USD') {
+        throw new Error(`[SavingsPlans] Non-USD rate ${rate.rateCode}: ${rate.discountedRate.currency}`);
+    }
+
+    // Provenance is the plan SKU - Savings Plans terms have no term code
+    const dimension = term.description ? { rateCode: rate.rateCode, description: term.description } : rate;
+
+    return withProvenance({
+        rate: parseAwsPrice(rate.discountedRate.price),
+        unit: normalizeUnit(rate.unit),
+    }, dimensionProvenance(term.sku, {}, dimension));
+}
+
+/**
+ * Add one term's rate for a resource
+ * CRASHES on duplicates - each plan discounts a usage SKU exactly once
+ */
+function setRate(rates: Record<string, SavingsPlanRates>, key: string, termKey: string, rate: SimpleRate): void {
+    const existing = rates[key] || {};
+
+    if (existing[termKey]) {
+        throw new Error(`[SavingsPlans] Multiple ${termKey} rates for ${key}`);
+    }
+
+    existing[termKey] = rate;
+    rates[key] = existing;
+}
+
+export async function processSavingsPlans(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<SavingsPlansServicePricing> {
+    Logger.substep(`Processing Savings Plans pricing for ${region}`);
+    const timer = new Timer('Savings Plans processing');
+
+    const rawFile = regionalRawFile('AWSComputeSavingsPlan', region, rawDir);
+
+    if (!fs.existsSync(rawFile)) {
+        throw new Error(`[SavingsPlans] Raw pricing file not found: ${rawFile}`);
+    }
+
+    const products = new Map<string, SavingsPlanProduct>();
+    let rateCount = 0;
+
+    const computeInstances: Record<string, SavingsPlanRates> = {};
+    const lambda: Record<string, SavingsPlanRates> = {};
+    const ec2Instance: Record<string, Record<string, SavingsPlanRates>> = {};
+
+    const header = await streamOfferFile(rawFile, {
+        onProduct: product => {
+            const kind = classifyProduct(product.sku, product.productFamily, product.attributes);
+            if (kind) {
+                products.set(product.sku, kind);
+            }
+        },
+        onSavingsPlanTerm: term => {
+            const product = products.get(term.sku);
+            if (!product) return;
+
+            for (const rate of term.rates) {
+                const usagetype = rate.discountedUsageType;
+
+                if (rate.discountedServiceCode === 'AmazonEC2' && rate.discountedOperation === LINUX_OPERATION) {
+                    const match = usagetype.match(BOX_USAGE);
+                    if (!match) continue;
+
+                    const instanceType = match[1]!;
+
+                    if (product.plan === 'compute') {
+                        setRate(computeInstances, instanceType, product.termKey, discountedRate(term, rate));
+                    } else {
+                        if (!instanceType.startsWith(`${product.family}.`)) {
+                            throw new Error(
+                                `[SavingsPlans] ${product.family} Savings Plan ${term.sku} discounts ${instanceType}`
+                            );
+                        }
+
+                        const family = ec2Instance[product.family] || {};
+                        setRate(family, instanceType, product.termKey, discountedRate(term, rate));
+                        ec2Instance[product.family] = family;
+                    }
+
+                    rateCount++;
+                    continue;
+                }
+
+                if (rate.discountedServiceCode === 'AWSLambda' && product.plan === 'compute') {
+                    const match = usagetype.match(LAMBDA_DURATION);
+                    if (!match) continue;
+
+                    setRate(lambda, match[1] ? 'arm' : 'x86', product.termKey, discountedRate(term, rate));
+                    rateCount++;
+                }
+            }
+        },
+    });
+
+    // Fail fast: every plan type must be present in the offer file
+    if (Object.keys(computeInstances).length === 0) {
+        throw new Error(`[SavingsPlans] No Compute Savings Plans instance rates found for region ${region}`);
+    }
+
+    if (Object.keys(ec2Instance).length === 0) {
+        throw new Error(`[SavingsPlans] No EC2 Instance Savings Plans rates found for region ${region}`);
+    }
+
+    const lambdaX86 = lambda.x86;
+    if (!lambdaX86) {
+        throw new Error(`[SavingsPlans] No Compute Savings Plans Lambda rates found for region ${region}`);
+    }
+
+    const lambdaPricing: SavingsPlansServicePricing['components']['compute']['lambda'] = {
+        x86: lambdaX86,
+    };
+
+    if (lambda.arm) lambdaPricing.arm = lambda.arm;
+
+    const output: SavingsPlansServicePricing = {
+        service: 'savingsplans',
+        region,
+        currency: 'USD',
+        version: 'v1.0.0', // Will be set by versioning system
+        lastUpdated: offerPublicationDate(header, rawFile),
+        components: {
+            compute: {
+                instances: computeInstances,
+                lambda: lambdaPricing,
+            },
+            ec2Instance,
+        },
+    };
+
+    Logger.table({
+        'Savings Plans': products.size,
+        'Rates': rateCount,
+        'Compute instance types': Object.keys(computeInstances).length,
+        'Instance families': Object.keys(ec2Instance).length,
+        'Region': region,
+    });
+
+    timer.end();
+    Logger.success('Savings Plans processing complete');
+
+    // CRITICAL: Validate exactly one region
+    assertSingleRegion(output, region);
+
+    return output;
+}
+
+/**
+ * Savings Plans plugin
+ * Fetched from the savingsPlan offer files (region_index.json only)
+ */
+export const savingsPlansPlugin = defineServicePlugin({
+    code: 'AWSComputeSavingsPlan',
+    name: 'Savings Plans',
+    id: 'savingsplans',
+    fetchUrl: savingsPlanIndexUrl('AWSComputeSavingsPlan'),
+    schema: SavingsPlansServicePricing,
+    filters: SAVINGS_PLAN_FILTERS,
+    processor: processSavingsPlans,
+    enabled: true,
+});
@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { provenanceOf } from '../normalize/provenance.js';
+import { processVPC } from './vpc.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vpc-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const LOCATION = 'US East (N. Virginia)';
+
+type Dimension = [price: string, unit: string, beginRange?: string, endRange?: string];
+
+interface Sku {
+    sku: string;
+    servicecode: string;
+    usagetype: string;
+    dimensions: Dimension[];
+}
+
+const SKUS: Sku[] = [
+    { sku: 'NGWH', servicecode: 'AmazonVPC', usagetype: 'NatGateway-Hours', dimensions: [['0.045', 'Hrs']] },
+    { sku: 'NGWB', servicecode: 'AmazonVPC', usagetype: 'NatGateway-Bytes', dimensions: [['0.045', 'GB']] },
+    { sku: 'VPCEH', servicecode: 'AmazonVPC', usagetype: 'VpcEndpoint-Hours', dimensions: [['0.01', 'Hrs']] },
+    {
+        sku: 'VPCEB',
+        servicecode: 'AmazonVPC',
+        usagetype: 'VpcEndpoint-Bytes',
+        dimensions: [
+            // Listed out of tier order, as AWS does
+            ['0.004', 'GB', '5242880', 'Inf'],
+            ['0.01', 'GB', '0', '1048576'],
+            ['0.006', 'GB', '1048576', '5242880'],
+        ],
+    },
+];
+
+function writeOffer(name: string, skus: Sku[]): string {
+    const rawDir = path.join(tempDir, name);
+    const products: Record<string, unknown> = {};
+    const onDemand: Record<string, unknown> = {};
+
+    for (const { sku, servicecode, usagetype, dimensions } of skus) {
+        products[sku] = { sku, productFamily: 'VpcEndpoint', attributes: { location: LOCATION, servicecode, usagetype } };
+
+        const priceDimensions = Object.fromEntries(dimensions.map(([price, unit, beginRange, endRange], i) => [
+            `${sku}.JRTCKXETXF.${i}`,
+            { rateCode: `${sku}.JRTCKXETXF.${i}`, unit, pricePerUnit: { USD: price }, ...(beginRange ? { beginRange, endRange } : {}) },
+        ]));
+        onDemand[sku] = { [`${sku}.JRTCKXETXF`]: { offerTermCode: 'JRTCKXETXF', sku, priceDimensions } };
+    }
+
+    fs.mkdirSync(path.join(rawDir, 'AmazonVPC'), { recursive: true });
+    fs.writeFileSync(path.join(rawDir, 'AmazonVPC', 'us-east-1.json'), JSON.stringify({
+        formatVersion: 'v1.0',
+        offerCode: 'AmazonVPC',
+        version: '20240601000000',
+        publicationDate: '2024-06-01T00:00:00Z',
+        products,
+        terms: { OnDemand: onDemand },
+    }));
+
+    return rawDir;
+}
+
+describe('processVPC', () => {
+    it('reads every component from its usage type', async () => {
+        const { components } = await processVPC('us-east-1', writeOffer('components', SKUS));
+
+        expect(components).toEqual({
+            natGateway: {
+                hourly: { rate: 0.045, unit: 'hour' },
+                dataProcessed: { rate: 0.045, unit: 'gb' },
+            },
+            endpoint: {
+                hourly: { rate: 0.01, unit: 'hour' },
+                dataProcessed: { rate: 0.01, unit: 'gb' },
+            },
+            privateLink: {
+                hourly: { rate: 0.01, unit: 'hour' },
+                dataProcessed: [
+                    { upTo: 1048576, rate: 0.01, unit: 'gb' },
+                    { upTo: 5242880, rate: 0.006, unit: 'gb' },
+                    { upTo: 'Infinity', rate: 0.004, unit: 'gb' },
+                ],
+            },
+        });
+        expect(provenanceOf(components.endpoint.dataProcessed!)).toMatchObject({ source: 'offer', sku: 'VPCEB' });
+    });
+
+    it('skips SKUs outside VPC_FILTERS', async () => {
+        const rawDir = writeOffer('filtered', [...SKUS, { ...SKUS[0]!, sku: 'EC2NGWH', servicecode: 'AmazonEC2', dimensions: [['0.09', 'Hrs']] }]);
+        const { components } = await processVPC('us-east-1', rawDir);
+
+        expect(provenanceOf(components.natGateway.hourly)).toMatchObject({ sku: 'NGWH' });
+    });
+
+    it('crashes on two SKUs for one component', async () => {
+        const rawDir = writeOffer('duplicate', [...SKUS, { ...SKUS[2]!, sku: 'VPCEH2' }]);
+
+        await expect(processVPC('us-east-1', rawDir)).rejects.toThrow('[VPC] Multiple SKUs for endpoint.hourly in us-east-1: VPCEH, VPCEH2');
+    });
+
+    it('crashes on a missing component', async () => {
+        const rawDir = writeOffer('missing', SKUS.filter(sku => sku.sku !== 'NGWB'));
+
+        await expect(processVPC('us-east-1', rawDir)).rejects.toThrow('[VPC] Missing pricing for natGateway.dataProcessed in region us-east-1');
+    });
+});
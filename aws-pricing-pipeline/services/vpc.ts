@@ -1,124 +1,136 @@
 import fs from 'fs';
-import path from 'path';
 import chalk from 'chalk';
 import { VPCServicePricing } from '../schema/vpc.schema.js';
-import { SimpleRate } from '../schema/base.js';
-import { parseAwsPrice, assertSingleRegion } from '../normalize/common.js';
+import { SimpleRate, PricingTier } from '../schema/base.js';
+import { withProvenance, provenanceOf } from '../normalize/provenance.js';
+import { assertSingleRegion, stripUsageTypePrefix } from '../normalize/common.js';
+import { offerPublicationDate } from '../normalize/offer-stream.js';
+import { OfferCandidate, extractOfferCandidates, termToSimpleRate, termToTiers } from '../normalize/offer-components.js';
+import { regionalRawFile, resolveRawDir } from '../fetch/fetcher.js';
+import { VPC_FILTERS } from '../normalize/filters.js';
+import { offerIndexUrl } from '../fetch/services.js';
+import { defineServicePlugin } from '../registry/plugin.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * VPC Pricing Processor
- * Extracts: NAT Gateway, VPC Endpoints, PrivateLink, Data Transfer
+ * Extracts: NAT Gateway, VPC Endpoints, PrivateLink
+ * Every rate comes from the regional offer file - nothing is carried over from us-east-1.
+ * Inter-AZ transfer is published per region by EC2 (dataTransfer.interAZ).
  */
 
-interface AWSPricingFile {
-    products: Record<string, {
-        sku: string;
-        productFamily: string;
-        attributes: Record<string, string>;
-    }>;
-    terms: {
-        OnDemand: Record<string, Record<string, {
-            priceDimensions: Record<string, {
-                unit: string;
-                pricePerUnit: { USD: string };
-            }>;
-        }>;
-    };
-}
+/**
+ * Usage type (without region prefix) → component slot
+ * Endpoint and PrivateLink share the interface endpoint SKUs
+ */
+const USAGE_TYPE_SLOTS = {
+    'NatGateway-Hours': 'natGateway.hourly',
+    'NatGateway-Bytes': 'natGateway.dataProcessed',
+    'VpcEndpoint-Hours': 'endpoint.hourly',
+    'VpcEndpoint-Bytes': 'endpoint.dataProcessed',
+} as const;
+
+type VPCSlot = typeof USAGE_TYPE_SLOTS[keyof typeof USAGE_TYPE_SLOTS];
 
-export async function processVPC(region: string = 'us-east-1'): Promise<VPCServicePricing> {
-    console.log(chalk.blue(`[VPC] Processing pricing for ${region}...`));
+const VPC_SLOTS: VPCSlot[] = Object.values(USAGE_TYPE_SLOTS);
 
-    const rawFile = path.join('raw', 'AmazonVPC.json');
+export async function processVPC(
+    region: string = 'us-east-1',
+    rawDir: string = resolveRawDir()
+): Promise<VPCServicePricing> {
+    activeLogger().log(chalk.blue(`[VPC] Processing pricing for ${region}...`));
+
+    const rawFile = regionalRawFile('AmazonVPC', region, rawDir);
 
     if (!fs.existsSync(rawFile)) {
         throw new Error(`[VPC] Raw pricing file not found: ${rawFile}`);
     }
 
-    const rawData: AWSPricingFile = JSON.parse(fs.readFileSync(rawFile, 'utf-8'));
-
-    let natGatewayHourly = 0.045;
-    let natGatewayData = 0.045;
-    let endpointHourly = 0.01;
-    let endpointData = 0.01;
-
-    // Process products
-    for (const [sku, product] of Object.entries(rawData.products)) {
-        const attrs = product.attributes;
-
-        // NAT Gateway
-        if (attrs.group === 'NGW' || attrs.usagetype?.includes('NatGateway')) {
-            const onDemandTerms = rawData.terms.OnDemand[sku];
-            if (!onDemandTerms) continue;
-
-            for (const term of Object.values(onDemandTerms)) {
-                for (const dimension of Object.values(term.priceDimensions)) {
-                    const rate = parseAwsPrice(dimension.pricePerUnit.USD);
-
-                    if (dimension.unit.toLowerCase().includes('hour')) {
-                        natGatewayHourly = rate;
-                    } else if (dimension.unit.toLowerCase().includes('gb')) {
-                        natGatewayData = rate;
-                    }
-                }
-            }
-        }
+    const slotOf = (attrs: Record<string, string>): VPCSlot | undefined =>
+        attrs.usagetype
+            ? (USAGE_TYPE_SLOTS as Record<string, VPCSlot>)[stripUsageTypePrefix(attrs.usagetype, region)]
+            : undefined;
 
-        // VPC Endpoints
-        if (attrs.group === 'VpcEndpoint' || attrs.usagetype?.includes('VpcEndpoint')) {
-            const onDemandTerms = rawData.terms.OnDemand[sku];
-            if (!onDemandTerms) continue;
-
-            for (const term of Object.values(onDemandTerms)) {
-                for (const dimension of Object.values(term.priceDimensions)) {
-                    const rate = parseAwsPrice(dimension.pricePerUnit.USD);
-
-                    if (dimension.unit.toLowerCase().includes('hour')) {
-                        endpointHourly = rate;
-                    } else if (dimension.unit.toLowerCase().includes('gb')) {
-                        endpointData = rate;
-                    }
-                }
-            }
+    const { header, candidates } = await extractOfferCandidates(rawFile, {
+        region,
+        filters: VPC_FILTERS,
+        match: product => slotOf(product.attributes) !== undefined,
+    });
+
+    const slots = new Map<VPCSlot, OfferCandidate>();
+    for (const candidate of candidates) {
+        const slot = slotOf(candidate.attributes)!;
+        const existing = slots.get(slot);
+        if (existing) {
+            throw new Error(`[VPC] Multiple SKUs for ${slot} in ${region}: ${existing.sku}, ${candidate.sku}`);
         }
+        slots.set(slot, candidate);
+    }
+
+    // Fail fast: every component must come from the offer file
+    const missing = VPC_SLOTS.filter(slot => !slots.has(slot));
+    if (missing.length > 0) {
+        throw new Error(`[VPC] Missing pricing for ${missing.join(', ')} in region ${region}`);
     }
 
+    const simpleRate = (slot: VPCSlot): SimpleRate => {
+        const { sku, term } = slots.get(slot)!;
+        return termToSimpleRate(sku, term);
+    };
+
+    const tiers = (slot: VPCSlot): PricingTier[] => {
+        const { sku, term } = slots.get(slot)!;
+        return termToTiers(sku, term);
+    };
+
+    // Tiered data processing: the first tier is the published rate
+    const firstTierRate = (slot: VPCSlot): SimpleRate => {
+        const tier = tiers(slot)[0]!;
+        return withProvenance({ rate: tier.rate, unit: tier.unit }, provenanceOf(tier)!);
+    };
+
     const output: VPCServicePricing = {
         service: 'vpc',
         region,
         currency: 'USD',
         version: 'v1.0.0',
-        lastUpdated: new Date().toISOString(),
+        lastUpdated: offerPublicationDate(header, rawFile),
         components: {
             natGateway: {
-                hourly: { rate: natGatewayHourly, unit: 'hour' as const },
-                dataProcessed: { rate: natGatewayData, unit: 'gb' as const },
+                hourly: simpleRate('natGateway.hourly'),
+                dataProcessed: firstTierRate('natGateway.dataProcessed'),
             },
             endpoint: {
-                hourly: { rate: endpointHourly, unit: 'hour' as const },
-                dataProcessed: { rate: endpointData, unit: 'gb' as const },
+                hourly: simpleRate('endpoint.hourly'),
+                dataProcessed: firstTierRate('endpoint.dataProcessed'),
             },
             privateLink: {
-                hourly: { rate: 0.01, unit: 'hour' as const },
-                dataProcessed: [
-                    { upTo: 'Infinity', rate: 0.01, unit: 'gb' as const },
-                ],
-            },
-            dataTransfer: {
-                interAZ: { rate: 0.01, unit: 'gb' as const },
-                interRegion: [
-                    { upTo: 'Infinity', rate: 0.02, unit: 'gb' as const },
-                ],
+                hourly: simpleRate('endpoint.hourly'),
+                dataProcessed: tiers('endpoint.dataProcessed'),
             },
         },
     };
 
-    console.log(`[VPC] Processed ${Object.keys(output.components.natGateway).length} NAT Gateway tiers`);
+    activeLogger().log(`[VPC] Processed ${Object.keys(output.components.natGateway).length} NAT Gateway tiers`);
 
     // CRITICAL: Validate exactly one region
     assertSingleRegion(output, region);
 
-    console.log(chalk.green(`[VPC] Processed VPC pricing successfully`));
+    activeLogger().log(chalk.green(`[VPC] Processed VPC pricing successfully`));
 
     return output;
 }
+
+/**
+ * VPC plugin
+ */
+export const vpcPlugin = defineServicePlugin({
+    code: 'AmazonVPC',
+    name: 'VPC',
+    id: 'vpc',
+    fetchUrl: offerIndexUrl('AmazonVPC'),
+    schema: VPCServicePricing,
+    filters: VPC_FILTERS,
+    processor: processVPC,
+    enabled: true,
+});
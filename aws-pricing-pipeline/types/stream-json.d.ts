@@ -1,6 +1,10 @@
 // Type declarations for stream-json
 declare module 'stream-json' {
     export function parser(options?: any): NodeJS.ReadWriteStream;
+
+    // CommonJS module: named exports are only reachable through the default export under ESM
+    const streamJson: { parser: typeof parser };
+    export default streamJson;
 }
 
 declare module 'stream-json/streamers/StreamObject.js' {
@@ -1,9 +1,51 @@
+import { AsyncLocalStorage } from 'async_hooks';
 import chalk from 'chalk';
 
 /**
  * Logging utilities for pipeline visibility
+ *
+ * Every progress line goes to the active logger: the one a runPipeline() call was given
+ * while it runs, the default logger otherwise. The default is silent, so library callers
+ * see no output unless they ask for it; the CLI sets it to the console.
  */
 
+/**
+ * Receives progress lines (chalk-colored) - console satisfies it
+ */
+export interface PipelineLogger {
+    log(...lines: unknown[]): void;
+    error(...lines: unknown[]): void;
+}
+
+export const SILENT_LOGGER: PipelineLogger = {
+    log: () => { },
+    error: () => { },
+};
+
+let defaultLogger: PipelineLogger = SILENT_LOGGER;
+const scopedLogger = new AsyncLocalStorage<PipelineLogger>();
+
+/**
+ * Set the logger used outside of withLogger() scopes
+ */
+export function setDefaultLogger(logger: PipelineLogger): void {
+    defaultLogger = logger;
+}
+
+/**
+ * Run fn - and everything it awaits - with its own logger
+ */
+export function withLogger<T>(logger: PipelineLogger, fn: () => T): T {
+    return scopedLogger.run(logger, fn);
+}
+
+/**
+ * Logger for the current call
+ */
+export function activeLogger(): PipelineLogger {
+    return scopedLogger.getStore() ?? defaultLogger;
+}
+
 export class Logger {
     private static indent = 0;
     private static currentStep = '';
@@ -11,37 +53,37 @@ export class Logger {
     static step(name: string, total?: number, current?: number): void {
         this.currentStep = name;
         const progress = total && current ? ` [${current}/${total}]` : '';
-        console.log(chalk.bold.cyan(`\n${'  '.repeat(this.indent)}▶ ${name}${progress}`));
+        activeLogger().log(chalk.bold.cyan(`\n${'  '.repeat(this.indent)}▶ ${name}${progress}`));
     }
 
     static substep(name: string): void {
-        console.log(chalk.blue(`${'  '.repeat(this.indent + 1)}→ ${name}`));
+        activeLogger().log(chalk.blue(`${'  '.repeat(this.indent + 1)}→ ${name}`));
     }
 
     static success(message: string): void {
-        console.log(chalk.green(`${'  '.repeat(this.indent + 1)}✓ ${message}`));
+        activeLogger().log(chalk.green(`${'  '.repeat(this.indent + 1)}✓ ${message}`));
     }
 
     static info(message: string): void {
-        console.log(chalk.gray(`${'  '.repeat(this.indent + 1)}ℹ ${message}`));
+        activeLogger().log(chalk.gray(`${'  '.repeat(this.indent + 1)}ℹ ${message}`));
     }
 
     static warn(message: string): void {
-        console.log(chalk.yellow(`${'  '.repeat(this.indent + 1)}⚠ ${message}`));
+        activeLogger().log(chalk.yellow(`${'  '.repeat(this.indent + 1)}⚠ ${message}`));
     }
 
     static error(message: string, error?: Error): void {
-        console.error(chalk.red(`${'  '.repeat(this.indent + 1)}✗ ${message}`));
+        activeLogger().error(chalk.red(`${'  '.repeat(this.indent + 1)}✗ ${message}`));
         if (error) {
-            console.error(chalk.red(`${'  '.repeat(this.indent + 2)}${error.message}`));
+            activeLogger().error(chalk.red(`${'  '.repeat(this.indent + 2)}${error.message}`));
             if (error.stack) {
-                console.error(chalk.gray(error.stack));
+                activeLogger().error(chalk.gray(error.stack));
             }
         }
     }
 
     static data(label: string, value: any): void {
-        console.log(chalk.gray(`${'  '.repeat(this.indent + 1)}${label}: ${chalk.white(value)}`));
+        activeLogger().log(chalk.gray(`${'  '.repeat(this.indent + 1)}${label}: ${chalk.white(value)}`));
     }
 
     static progress(current: number, total: number, label: string = ''): void {
@@ -50,34 +92,28 @@ export class Logger {
         const filled = Math.round((current / total) * barLength);
         const bar = '█'.repeat(filled) + '░'.repeat(barLength - filled);
 
-        process.stdout.write(
-            `\r${'  '.repeat(this.indent + 1)}${chalk.cyan(bar)} ${percentage}% ${label}`
-        );
-
-        if (current === total) {
-            console.log(); // New line when complete
-        }
+        activeLogger().log(`${'  '.repeat(this.indent + 1)}${chalk.cyan(bar)} ${percentage}% ${label}`);
     }
 
     static table(data: Record<string, any>): void {
-        console.log();
+        activeLogger().log();
         const maxKeyLength = Math.max(...Object.keys(data).map(k => k.length));
 
         for (const [key, value] of Object.entries(data)) {
             const paddedKey = key.padEnd(maxKeyLength);
-            console.log(
+            activeLogger().log(
                 chalk.gray(`${'  '.repeat(this.indent + 1)}${paddedKey} : `) +
                 chalk.white(value)
             );
         }
-        console.log();
+        activeLogger().log();
     }
 
     static section(title: string): void {
         const line = '─'.repeat(60);
-        console.log(chalk.cyan(`\n${'  '.repeat(this.indent)}${line}`));
-        console.log(chalk.bold.cyan(`${'  '.repeat(this.indent)}${title}`));
-        console.log(chalk.cyan(`${'  '.repeat(this.indent)}${line}\n`));
+        activeLogger().log(chalk.cyan(`\n${'  '.repeat(this.indent)}${line}`));
+        activeLogger().log(chalk.bold.cyan(`${'  '.repeat(this.indent)}${title}`));
+        activeLogger().log(chalk.cyan(`${'  '.repeat(this.indent)}${line}\n`));
     }
 
     static increaseIndent(): void {
@@ -1,6 +1,7 @@
 import { ZodSchema } from 'zod';
 import chalk from 'chalk';
 import { assertTierContinuity, PricingTier } from '../schema/base.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Hard validation gate
@@ -21,13 +22,13 @@ export function validateSchema<T>(
     schema: ZodSchema<T>,
     serviceName: string
 ): T {
-    console.log(chalk.blue(`[VALIDATE] ${serviceName}...`));
+    activeLogger().log(chalk.blue(`[VALIDATE] ${serviceName}...`));
 
     const result = schema.safeParse(data);
 
     if (!result.success) {
-        console.error(chalk.red(`[VALIDATION FAILED] ${serviceName}:`));
-        console.error(result.error.errors);
+        activeLogger().error(chalk.red(`[VALIDATION FAILED] ${serviceName}:`));
+        activeLogger().error(result.error.errors);
 
         throw new Error(
             `[VALIDATION FAILED] ${serviceName} failed schema validation:\n` +
@@ -35,7 +36,7 @@ export function validateSchema<T>(
         );
     }
 
-    console.log(chalk.green(`[VALIDATE SUCCESS] ${serviceName}`));
+    activeLogger().log(chalk.green(`[VALIDATE SUCCESS] ${serviceName}`));
 
     return result.data;
 }
@@ -114,14 +115,14 @@ export function validatePricingData<T>(
     const validated = validateSchema(data, schema, serviceName);
 
     // 2. Numeric validation
-    console.log(chalk.blue(`[VALIDATE] ${serviceName} - Checking numeric values...`));
+    activeLogger().log(chalk.blue(`[VALIDATE] ${serviceName} - Checking numeric values...`));
     validateNumericValues(validated);
 
     // 3. Tier validation
-    console.log(chalk.blue(`[VALIDATE] ${serviceName} - Checking tier continuity...`));
+    activeLogger().log(chalk.blue(`[VALIDATE] ${serviceName} - Checking tier continuity...`));
     validateTiers(validated);
 
-    console.log(chalk.green.bold(`[VALIDATE SUCCESS] ${serviceName} passed all validation checks`));
+    activeLogger().log(chalk.green.bold(`[VALIDATE SUCCESS] ${serviceName} passed all validation checks`));
 
     return validated;
 }
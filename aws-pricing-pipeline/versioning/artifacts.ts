@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import chalk from 'chalk';
+import { DiffResult, ChangeRecord, generateDiffReport } from './diff.js';
+import { CHANGE_KIND_LABELS, ChangeKind } from './policy.js';
+import { VersionInfo } from './bump.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Diff artifacts
+ * Every version directory carries its diffs in four formats:
+ * - DIFF_REPORT.md: human summary (at most 5 changes per service and region)
+ * - DIFF_REPORT.json: the full DiffResult[] for programs (e.g. "what changed since v1.2.0")
+ * - DIFF_REPORT.csv: one row per changed path, for spreadsheets
+ * - DIFF_REPORT.html: self-contained report, filterable by service and change type
+ */
+
+export const DIFF_ARTIFACTS = ['DIFF_REPORT.md', 'DIFF_REPORT.json', 'DIFF_REPORT.csv', 'DIFF_REPORT.html'];
+
+export interface DiffArtifact {
+    version: string;
+    previousVersion: string;
+    diffs: DiffResult[];
+}
+
+const CSV_COLUMNS = [
+    'service',
+    'region',
+    'path',
+    'change_type',
+    'kind',
+    'bump',
+    'old_value',
+    'new_value',
+    'absolute_delta',
+    'percent_delta',
+    'description',
+    'guardrail',
+    'approved',
+];
+
+/**
+ * Format a value for a CSV cell or HTML table: numbers and strings as is, structures as JSON
+ */
+function formatValue(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return JSON.stringify(value);
+}
+
+function csvCell(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function changeRow(diff: DiffResult, change: ChangeRecord): string[] {
+    return [
+        diff.service,
+        diff.region,
+        change.path,
+        change.changeType,
+        change.kind,
+        change.bump,
+        formatValue(change.oldValue),
+        formatValue(change.newValue),
+        formatValue(change.delta?.absolute),
+        formatValue(change.delta?.percent),
+        change.description,
+        change.guardrail?.violation ?? '',
+        change.guardrail ? String(change.guardrail.approved) : '',
+    ];
+}
+
+/**
+ * CSV of every changed path (RFC 4180)
+ */
+export function generateDiffCsv(diffs: DiffResult[]): string {
+    const rows = [CSV_COLUMNS, ...diffs.flatMap(d => d.changes.map(c => changeRow(d, c)))];
+    return rows.map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+function escapeHtml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function options(values: string[], label: (value: string) => string): string {
+    return values.map(v => `<option value="${escapeHtml(v)}">${escapeHtml(label(v))}</option>`).join('');
+}
+
+/**
+ * Self-contained HTML report - no external assets, filters run in the page
+ */
+export function generateDiffHtml(artifact: DiffArtifact): string {
+    const { diffs } = artifact;
+    const services = Array.from(new Set(diffs.map(d => d.service))).sort();
+    const kinds = Array.from(new Set(diffs.flatMap(d => d.changes.map(c => c.kind)))).sort();
+    const changeCount = diffs.reduce((count, d) => count + d.changes.length, 0);
+
+    const rows = diffs.flatMap(d => d.changes.map(c => {
+        const [, , changePath, , , bump, oldValue, newValue, , , description, violation] = changeRow(d, c).map(escapeHtml);
+        const percent = c.delta?.percent;
+        const guardrail = c.guardrail ? `${c.guardrail.approved ? 'Approved' : 'BLOCKED'}: ${violation}` : '';
+
+        return `<tr data-service="${escapeHtml(d.service)}" data-kind="${c.kind}" class="${bump}${c.guardrail && !c.guardrail.approved ? ' blocked' : ''}">` +
+            `<td>${escapeHtml(d.service)}</td><td>${escapeHtml(d.region)}</td>` +
+            `<td>${escapeHtml(CHANGE_KIND_LABELS[c.kind])}</td><td>${bump}</td>` +
+            `<td><code>${changePath}</code><br>${description}</td>` +
+            `<td>${oldValue}</td><td>${newValue}</td>` +
+            `<td>${percent === undefined || percent === null ? '' : `${percent > 0 ? '+' : ''}${percent.toFixed(2)}%`}</td>` +
+            `<td>${guardrail}</td></tr>`;
+    })).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Pricing diff ${escapeHtml(artifact.previousVersion)} → ${escapeHtml(artifact.version)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border: 1px solid #ddd; padding: 0.3rem 0.5rem; text-align: left; vertical-align: top; }
+th { background: #f4f4f4; }
+tr.major td:nth-child(4) { color: #b00020; font-weight: bold; }
+tr.minor td:nth-child(4) { color: #8a6d00; }
+tr.blocked { background: #fdecea; }
+code { font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>Pricing diff ${escapeHtml(artifact.previousVersion)} → ${escapeHtml(artifact.version)}</h1>
+<p>${changeCount} changes in ${diffs.length} service regions</p>
+<p>
+<label>Service <select id="service"><option value="">All</option>${options(services, s => s)}</select></label>
+<label>Change type <select id="kind"><option value="">All</option>${options(kinds, k => CHANGE_KIND_LABELS[k as ChangeKind])}</select></label>
+<span id="shown"></span>
+</p>
+<table>
+<thead><tr><th>Service</th><th>Region</th><th>Change</th><th>Bump</th><th>Path</th><th>Old</th><th>New</th><th>Delta</th><th>Guardrail</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<script>
+const rows = Array.from(document.querySelectorAll('tbody tr'));
+const service = document.getElementById('service');
+const kind = document.getElementById('kind');
+function applyFilters() {
+    let shown = 0;
+    for (const row of rows) {
+        row.hidden = (service.value !== '' && row.dataset.service !== service.value) ||
+            (kind.value !== '' && row.dataset.kind !== kind.value);
+        if (!row.hidden) shown++;
+    }
+    document.getElementById('shown').textContent = shown + ' of ' + rows.length + ' shown';
+}
+service.addEventListener('change', applyFilters);
+kind.addEventListener('change', applyFilters);
+applyFilters();
+</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write every diff artifact into a version directory
+ */
+export function writeDiffArtifacts(versionDir: string, diffs: DiffResult[], version: VersionInfo): void {
+    const artifact: DiffArtifact = {
+        version: version.next,
+        previousVersion: version.current,
+        diffs,
+    };
+
+    const contents: Record<string, string> = {
+        'DIFF_REPORT.md': generateDiffReport(diffs),
+        'DIFF_REPORT.json': JSON.stringify(artifact, null, 2),
+        'DIFF_REPORT.csv': generateDiffCsv(diffs),
+        'DIFF_REPORT.html': generateDiffHtml(artifact),
+    };
+
+    for (const file of DIFF_ARTIFACTS) {
+        const filePath = path.join(versionDir, file);
+        fs.writeFileSync(filePath, contents[file]!);
+        activeLogger().log(chalk.green(`[WRITE] ${filePath}`));
+    }
+}
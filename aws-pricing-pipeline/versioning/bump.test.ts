@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import {
+    VersionInfo,
+    bumpVersion,
+    createVersionDirectory,
+    getCurrentVersion,
+    listVersions,
+    publishVersionDirectory,
+    removeStagingDirectories,
+    updateLatestPointer,
+} from './bump.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bump-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+function outputDir(name: string): string {
+    return path.join(tempDir, name);
+}
+
+function versionInfo(next: string): VersionInfo {
+    return { current: 'v0.0.0', next, major: 0, minor: 0, patch: 0 };
+}
+
+/** Stage, write and publish a version the way the write stage does */
+function publish(dir: string, version: string): string {
+    const stagingDir = createVersionDirectory(versionInfo(version), dir);
+    fs.writeFileSync(path.join(stagingDir, 'metadata.json'), JSON.stringify({ version }));
+
+    const versionDir = publishVersionDirectory(stagingDir, versionInfo(version), dir);
+    updateLatestPointer(version, dir);
+    return versionDir;
+}
+
+describe('version publishing', () => {
+    it('stages a version out of sight and publishes it with a rename', () => {
+        const dir = outputDir('publish');
+        const stagingDir = createVersionDirectory(versionInfo('v1.0.0'), dir);
+
+        expect(path.basename(stagingDir)).toMatch(/^\.v1\.0\.0-/);
+        expect(listVersions(dir)).toEqual([]);
+
+        fs.writeFileSync(path.join(stagingDir, 'metadata.json'), JSON.stringify({ version: 'v1.0.0' }));
+        expect(publishVersionDirectory(stagingDir, versionInfo('v1.0.0'), dir)).toBe(path.join(dir, 'v1.0.0'));
+
+        expect(fs.existsSync(stagingDir)).toBe(false);
+        expect(listVersions(dir)).toEqual(['v1.0.0']);
+    });
+
+    it('never replaces a published version', () => {
+        const dir = outputDir('exists');
+        publish(dir, 'v1.0.0');
+
+        expect(() => createVersionDirectory(versionInfo('v1.0.0'), dir)).toThrow('[VERSION] Version directory already exists');
+
+        const stagingDir = createVersionDirectory(versionInfo('v1.1.0'), dir);
+        fs.mkdirSync(path.join(dir, 'v1.1.0'));
+        expect(() => publishVersionDirectory(stagingDir, versionInfo('v1.1.0'), dir)).toThrow('[VERSION] Version directory already exists');
+    });
+
+    it('points latest at the published version with a relative symlink', () => {
+        const dir = outputDir('latest');
+        publish(dir, 'v1.0.0');
+        publish(dir, 'v1.1.0');
+
+        expect(fs.readlinkSync(path.join(dir, 'latest'))).toBe('v1.1.0');
+        expect(getCurrentVersion(dir)).toEqual({ current: 'v1.1.0', next: 'v1.1.0', major: 1, minor: 1, patch: 0 });
+        expect(fs.readdirSync(dir).filter(entry => entry.startsWith('.'))).toEqual([]);
+    });
+
+    it('replaces a latest directory copy from before latest was a symlink', () => {
+        const dir = outputDir('legacy');
+        publish(dir, 'v1.0.0');
+        fs.rmSync(path.join(dir, 'latest'));
+        fs.cpSync(path.join(dir, 'v1.0.0'), path.join(dir, 'latest'), { recursive: true });
+
+        publish(dir, 'v1.1.0');
+
+        expect(fs.lstatSync(path.join(dir, 'latest')).isSymbolicLink()).toBe(true);
+        expect(fs.readlinkSync(path.join(dir, 'latest'))).toBe('v1.1.0');
+    });
+
+    it('removes staging directories left by a crashed run', () => {
+        const dir = outputDir('crashed');
+        publish(dir, 'v1.0.0');
+        const abandoned = createVersionDirectory(versionInfo('v1.1.0'), dir);
+
+        removeStagingDirectories(dir);
+
+        expect(fs.existsSync(abandoned)).toBe(false);
+        expect(listVersions(dir)).toEqual(['v1.0.0']);
+        expect(fs.readlinkSync(path.join(dir, 'latest'))).toBe('v1.0.0');
+    });
+
+    it('bumps from the highest version after a rollback', () => {
+        const dir = outputDir('rollback');
+        publish(dir, 'v1.0.0');
+        publish(dir, 'v2.0.0');
+        updateLatestPointer('v1.0.0', dir);
+
+        const current = getCurrentVersion(dir);
+        expect(current.current).toBe('v1.0.0');
+        expect(bumpVersion(current, 'minor').next).toBe('v2.1.0');
+    });
+});
+
+describe('bumpVersion', () => {
+    const current: VersionInfo = { current: 'v1.2.3', next: 'v1.2.3', major: 1, minor: 2, patch: 3 };
+
+    it('resets the lower components', () => {
+        expect(bumpVersion(current, 'major').next).toBe('v2.0.0');
+        expect(bumpVersion(current, 'minor').next).toBe('v1.3.0');
+        expect(bumpVersion(current, 'patch').next).toBe('v1.2.4');
+    });
+
+    it('starts at v1.0.0 without a previous version', () => {
+        expect(getCurrentVersion(outputDir('empty')).next).toBe('v1.0.0');
+    });
+});
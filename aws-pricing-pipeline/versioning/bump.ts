@@ -2,6 +2,7 @@ import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
 import { BumpType } from './diff.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Version bump logic
@@ -9,6 +10,7 @@ import { BumpType } from './diff.js';
  */
 
 export interface VersionInfo {
+    /** Version latest points at */
     current: string;
     next: string;
     major: number;
@@ -16,6 +18,8 @@ export interface VersionInfo {
     patch: number;
 }
 
+export const VERSION_PATTERN = /^v\d+\.\d+\.\d+$/;
+
 /**
  * Parse version string (e.g., "v1.2.3")
  */
@@ -40,8 +44,28 @@ export function formatVersion(major: number, minor: number, patch: number): stri
     return `v${major}.${minor}.${patch}`;
 }
 
+/**
+ * Published versions, oldest first
+ */
+export function listVersions(outputDir: string = 'output/aws'): string[] {
+    if (!fs.existsSync(outputDir)) {
+        return [];
+    }
+
+    return fs.readdirSync(outputDir, { withFileTypes: true })
+        .filter(entry => entry.isDirectory() && VERSION_PATTERN.test(entry.name))
+        .map(entry => entry.name)
+        .sort((a, b) => {
+            const va = parseVersion(a);
+            const vb = parseVersion(b);
+            return va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+        });
+}
+
 /**
  * Get current version from output directory
+ * After a rollback latest is not the highest version: bumps then start from the
+ * highest one, so a new version never reuses the number of a rolled-back one
  */
 export function getCurrentVersion(outputDir: string = 'output/aws'): VersionInfo {
     const latestPath = path.join(outputDir, 'latest');
@@ -66,7 +90,12 @@ export function getCurrentVersion(outputDir: string = 'output/aws'): VersionInfo
 
     const metadata = JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
     const current = metadata.version;
-    const parsed = parseVersion(current);
+    const highest = listVersions(outputDir).pop() ?? current;
+    const parsed = parseVersion(highest);
+
+    if (highest !== current) {
+        activeLogger().log(chalk.yellow(`[VERSION] latest is ${current} (rolled back) - bumping from ${highest}`));
+    }
 
     return {
         current,
@@ -101,7 +130,7 @@ export function bumpVersion(
 
     const next = formatVersion(major, minor, patch);
 
-    console.log(chalk.blue(`[VERSION] ${current.current} → ${next} (${bumpType})`));
+    activeLogger().log(chalk.blue(`[VERSION] ${current.current} → ${next} (${bumpType})`));
 
     return {
         current: current.current,
@@ -113,65 +142,148 @@ export function bumpVersion(
 }
 
 /**
- * Create new version directory
+ * Staging directories: .<version>-<random> next to the versions, on the same filesystem
+ * so publishing is a rename. Readers never see them (they match no version name).
+ */
+const STAGING_PATTERN = /^\.v\d+\.\d+\.\d+-/;
+
+/**
+ * Remove staging directories left behind by crashed runs
+ * Call only while holding the output lock
+ */
+export function removeStagingDirectories(outputDir: string = 'output/aws'): void {
+    if (!fs.existsSync(outputDir)) return;
+
+    for (const entry of fs.readdirSync(outputDir)) {
+        if (STAGING_PATTERN.test(entry)) {
+            fs.rmSync(path.join(outputDir, entry), { recursive: true, force: true });
+            activeLogger().log(chalk.yellow(`[VERSION] Removed abandoned staging directory ${entry}`));
+        }
+    }
+}
+
+/**
+ * Create the staging directory of a new version - publishVersionDirectory moves it into place
  */
 export function createVersionDirectory(
     version: VersionInfo,
     outputDir: string = 'output/aws'
 ): string {
     const versionDir = path.join(outputDir, version.next);
-    const servicesDir = path.join(versionDir, 'services');
 
     if (fs.existsSync(versionDir)) {
         throw new Error(`[VERSION] Version directory already exists: ${versionDir}`);
     }
 
-    fs.mkdirSync(servicesDir, { recursive: true });
+    fs.mkdirSync(outputDir, { recursive: true });
+    const stagingDir = fs.mkdtempSync(path.join(outputDir, `.${version.next}-`));
+    // mkdtemp creates private directories; published versions keep the usual permissions
+    fs.chmodSync(stagingDir, 0o755);
+
+    activeLogger().log(chalk.green(`[VERSION] Staging ${version.next} in ${stagingDir}`));
+
+    return stagingDir;
+}
+
+/**
+ * Publish a fully written staging directory with an atomic rename
+ * Returns the version directory
+ * CRASHES if the version already exists
+ */
+export function publishVersionDirectory(
+    stagingDir: string,
+    version: VersionInfo,
+    outputDir: string = 'output/aws'
+): string {
+    const versionDir = path.join(outputDir, version.next);
+
+    // rename() would replace an empty directory
+    if (fs.existsSync(versionDir)) {
+        throw new Error(`[VERSION] Version directory already exists: ${versionDir}`);
+    }
+
+    fs.renameSync(stagingDir, versionDir);
 
-    console.log(chalk.green(`[VERSION] Created ${versionDir}`));
+    activeLogger().log(chalk.green(`[VERSION] Published ${versionDir}`));
 
     return versionDir;
 }
 
 /**
- * Update 'latest' symlink/pointer
+ * Point 'latest' at a version
+ * latest is a relative symlink, replaced by renaming a new symlink over it - readers
+ * see either the old or the new version, never a missing or partial one.
  */
 export function updateLatestPointer(
-    version: VersionInfo,
+    version: string,
     outputDir: string = 'output/aws'
 ): void {
     const latestPath = path.join(outputDir, 'latest');
-    const versionPath = path.join(outputDir, version.next);
-
-    // Remove old latest
-    if (fs.existsSync(latestPath)) {
-        fs.rmSync(latestPath, { recursive: true, force: true });
+    const nextLink = path.join(outputDir, `.latest-${process.pid}`);
+
+    fs.rmSync(nextLink, { force: true });
+    fs.symlinkSync(version, nextLink, 'dir');
+
+    // Outputs published before latest was a symlink hold a copy, which rename cannot replace
+    const current = fs.lstatSync(latestPath, { throwIfNoEntry: false });
+    if (current?.isDirectory()) {
+        const legacyPath = path.join(outputDir, `.latest-copy-${process.pid}`);
+        fs.renameSync(latestPath, legacyPath);
+        fs.renameSync(nextLink, latestPath);
+        fs.rmSync(legacyPath, { recursive: true, force: true });
+    } else {
+        fs.renameSync(nextLink, latestPath);
     }
 
-    // Copy new version to latest
-    copyDirectory(versionPath, latestPath);
+    activeLogger().log(chalk.green(`[VERSION] Updated latest → ${version}`));
+}
 
-    console.log(chalk.green(`[VERSION] Updated latest → ${version.next}`));
+/**
+ * Diff that determined a version's bump
+ */
+export interface BumpReason {
+    service: string;
+    region: string;
+    type: BumpType;
+    reason: string;
 }
 
 /**
- * Copy directory recursively
+ * Raw input a version was built from
  */
-function copyDirectory(src: string, dest: string): void {
-    fs.mkdirSync(dest, { recursive: true });
+export interface RawSource {
+    /** Fetched now, or replayed from an existing raw snapshot */
+    mode: 'fetch' | 'replay';
+    rawDir: string;
+    /** Timestamp of the snapshot's download manifest */
+    manifestTimestamp: string;
+}
 
-    const entries = fs.readdirSync(src, { withFileTypes: true });
+/**
+ * metadata.json of a version
+ */
+export interface VersionMetadata {
+    version: string;
+    createdAt: string;
+    /** latest when the version was published (null for the first version) */
+    previousVersion: string | null;
+    regions: string[];
+    bumpReason?: BumpReason;
+    raw?: RawSource;
+}
 
-    for (const entry of entries) {
-        const srcPath = path.join(src, entry.name);
-        const destPath = path.join(dest, entry.name);
+/**
+ * Read a version's metadata.json
+ * CRASHES if the version or its metadata does not exist
+ */
+export function readVersionMetadata(version: string, outputDir: string = 'output/aws'): VersionMetadata {
+    const metadataPath = path.join(outputDir, version, 'metadata.json');
 
-        if (entry.isDirectory()) {
-            copyDirectory(srcPath, destPath);
-        } else {
-            fs.copyFileSync(srcPath, destPath);
-        }
+    if (!fs.existsSync(metadataPath)) {
+        throw new Error(`[VERSION] metadata.json not found for ${version} in ${outputDir}`);
     }
+
+    return JSON.parse(fs.readFileSync(metadataPath, 'utf-8'));
 }
 
 /**
@@ -180,12 +292,15 @@ function copyDirectory(src: string, dest: string): void {
 export function writeVersionMetadata(
     version: VersionInfo,
     versionDir: string,
-    bumpReason?: { service: string; type: BumpType; reason: string }
+    regions: string[],
+    bumpReason?: BumpReason,
+    rawSource?: RawSource
 ): void {
-    const metadata: any = {
+    const metadata: VersionMetadata = {
         version: version.next,
         createdAt: new Date().toISOString(),
         previousVersion: version.current !== 'v0.0.0' ? version.current : null,
+        regions,
     };
 
     // Add bump reason if provided
@@ -193,8 +308,12 @@ export function writeVersionMetadata(
         metadata.bumpReason = bumpReason;
     }
 
+    if (rawSource) {
+        metadata.raw = rawSource;
+    }
+
     const metadataPath = path.join(versionDir, 'metadata.json');
     fs.writeFileSync(metadataPath, JSON.stringify(metadata, null, 2));
 
-    console.log(chalk.green(`[VERSION] Wrote metadata to ${metadataPath}`));
+    activeLogger().log(chalk.green(`[VERSION] Wrote metadata to ${metadataPath}`));
 }
@@ -0,0 +1,182 @@
+import { describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { PricingTier, SimpleRate } from '../schema/base.js';
+import { DiffOptions, diffPricing, hasChanges } from './diff.js';
+import { matchesPath } from './policy.js';
+
+const TestSchema = z.object({
+    service: z.string(),
+    region: z.string(),
+    version: z.string(),
+    lastUpdated: z.string(),
+    components: z.object({
+        instances: z.record(z.string(), SimpleRate),
+        storage: z.union([SimpleRate, z.array(PricingTier)]),
+        snapshots: SimpleRate.optional(),
+    }),
+});
+
+type TestPricing = z.infer<typeof TestSchema>;
+
+const OPTIONS: DiffOptions = { schema: TestSchema };
+
+const PREVIOUS: TestPricing = {
+    service: 'test',
+    region: 'us-east-1',
+    version: 'v1.0.0',
+    lastUpdated: '2024-06-01T00:00:00.000Z',
+    components: {
+        instances: {
+            't3.micro': { rate: 0.0104, unit: 'hour' },
+            't3.small': { rate: 0.0208, unit: 'hour' },
+        },
+        storage: { rate: 0.08, unit: 'gb_month' },
+        snapshots: { rate: 0.05, unit: 'gb_month' },
+    },
+};
+
+function next(update: (pricing: TestPricing) => void): TestPricing {
+    const pricing = structuredClone(PREVIOUS);
+    pricing.version = 'v1.1.0';
+    pricing.lastUpdated = '2024-07-01T00:00:00.000Z';
+    update(pricing);
+    return pricing;
+}
+
+function diff(newData: TestPricing | null, options: DiffOptions = OPTIONS) {
+    return diffPricing(PREVIOUS, newData, 'test', 'us-east-1', options);
+}
+
+describe('diffPricing bump policy', () => {
+    it('ignores the version and lastUpdated fields', () => {
+        const result = diff(next(() => { }));
+
+        expect(result).toEqual({ service: 'test', region: 'us-east-1', bumpType: 'patch', reason: 'No changes', changes: [] });
+        expect(hasChanges(result)).toBe(false);
+    });
+
+    it('bumps minor for a new collection entry', () => {
+        const result = diff(next(p => { p.components.instances['t3.large'] = { rate: 0.0832, unit: 'hour' }; }));
+
+        expect(result.bumpType).toBe('minor');
+        expect(result.reason).toBe('Entry added: test.components.instances.t3.large');
+        expect(result.changes.map(c => c.kind)).toEqual(['entryAdded']);
+    });
+
+    it('bumps major for a removed collection entry', () => {
+        const result = diff(next(p => { delete p.components.instances['t3.small']; }));
+
+        expect(result.bumpType).toBe('major');
+        expect(result.reason).toBe('Entry removed: test.components.instances.t3.small');
+    });
+
+    it('bumps major for a removed field and minor for an added one', () => {
+        expect(diff(next(p => { delete p.components.snapshots; })).changes.map(c => [c.kind, c.bump]))
+            .toEqual([['fieldRemoved', 'major']]);
+
+        const added = diffPricing(next(p => { delete p.components.snapshots; }), PREVIOUS, 'test', 'us-east-1', OPTIONS);
+        expect(added.changes.map(c => [c.kind, c.bump])).toEqual([['fieldAdded', 'minor']]);
+    });
+
+    it('bumps minor for a price change and records its delta', () => {
+        const result = diff(next(p => { p.components.instances['t3.micro']!.rate = 0.0114; }));
+
+        expect(result.bumpType).toBe('minor');
+        expect(result.changes).toHaveLength(1);
+        expect(result.changes[0]).toMatchObject({
+            kind: 'priceIncrease',
+            changeType: 'pricing',
+            bump: 'minor',
+            path: 'test.components.instances.t3.micro.rate',
+            delta: { absolute: 0.001, percent: 9.61538461538 },
+        });
+        expect(diff(next(p => { p.components.storage = { rate: 0.07, unit: 'gb_month' }; })).changes[0]!.kind).toBe('priceDecrease');
+    });
+
+    it('bumps patch for a metadata change', () => {
+        const result = diff(next(p => { p.components.instances['t3.micro']!.unit = 'second'; }));
+
+        expect(result.bumpType).toBe('patch');
+        expect(result.changes.map(c => c.kind)).toEqual(['metadataChanged']);
+        expect(hasChanges(result)).toBe(true);
+    });
+
+    it('bumps major when a flat rate becomes tiers', () => {
+        const result = diff(next(p => {
+            p.components.storage = [
+                { upTo: 51200, rate: 0.08, unit: 'gb_month' },
+                { upTo: 'Infinity', rate: 0.07, unit: 'gb_month' },
+            ];
+        }));
+
+        expect(result.bumpType).toBe('major');
+        expect(result.changes.map(c => c.kind)).toEqual(['typeChanged']);
+    });
+
+    it('matches tiers by boundary, so an inserted tier is one change', () => {
+        const tiered = next(p => {
+            p.components.storage = [
+                { upTo: 51200, rate: 0.08, unit: 'gb_month' },
+                { upTo: 'Infinity', rate: 0.07, unit: 'gb_month' },
+            ];
+        });
+        const inserted = structuredClone(tiered);
+        (inserted.components.storage as PricingTier[]).splice(1, 0, { upTo: 512000, rate: 0.075, unit: 'gb_month' });
+
+        const result = diffPricing(tiered, inserted, 'test', 'us-east-1', OPTIONS);
+
+        expect(result.bumpType).toBe('minor');
+        expect(result.changes.map(c => [c.kind, c.path, c.description])).toEqual([
+            ['entryAdded', 'test.components.storage[upTo=512000]', 'Tier inserted at 512000 gb_month'],
+        ]);
+    });
+
+    it('bumps major when a whole file is removed', () => {
+        const result = diff(null);
+
+        expect(result.bumpType).toBe('major');
+        expect(result.changes.map(c => c.kind)).toEqual(['entryRemoved']);
+    });
+
+    it('bumps minor when a whole file is added', () => {
+        const result = diffPricing(null, PREVIOUS, 'test', 'us-east-1', OPTIONS);
+
+        expect(result.bumpType).toBe('minor');
+        expect(result.changes.map(c => c.kind)).toEqual(['entryAdded']);
+        expect(hasChanges(result)).toBe(true);
+    });
+
+    it('explains the bump with the first change requiring it', () => {
+        const result = diff(next(p => {
+            p.components.instances['t3.micro']!.rate = 0.0114;
+            delete p.components.instances['t3.small'];
+            delete p.components.snapshots;
+        }));
+
+        expect(result.bumpType).toBe('major');
+        expect(result.reason).toBe('Entry removed: test.components.instances.t3.small');
+    });
+
+    it('applies the last matching rule override', () => {
+        const options: DiffOptions = {
+            ...OPTIONS,
+            rules: [
+                { path: 'components.**', rules: { priceIncrease: 'patch' } },
+                { path: 'components.instances.*.rate', rules: { priceIncrease: 'major' } },
+            ],
+        };
+
+        expect(diff(next(p => { p.components.instances['t3.micro']!.rate = 0.0114; }), options).bumpType).toBe('major');
+        expect(diff(next(p => { p.components.snapshots!.rate = 0.06; }), options).bumpType).toBe('patch');
+    });
+});
+
+describe('matchesPath', () => {
+    it('matches one key with * and any number of keys with **', () => {
+        expect(matchesPath(['components', '*'], ['components', 'instances'])).toBe(true);
+        expect(matchesPath(['components', '*'], ['components', 'instances', 't3.micro'])).toBe(false);
+        expect(matchesPath(['components', '**'], ['components', 'instances', 't3.micro', 'rate'])).toBe(true);
+        expect(matchesPath(['**', 'rate'], ['components', 'storage', 'upTo=51200', 'rate'])).toBe(true);
+        expect(matchesPath(['**', 'rate'], ['components', 'storage', 'unit'])).toBe(false);
+    });
+});
@@ -1,66 +1,120 @@
 import fs from 'fs';
 import path from 'path';
 import chalk from 'chalk';
+import { ZodTypeAny } from 'zod';
+import {
+    ChangeKind,
+    VersionRuleOverride,
+    CHANGE_KIND_LABELS,
+    BUMP_PRIORITY,
+    bumpFor,
+    maxBump,
+    resolveSchema,
+    isCollection,
+    childSchema,
+} from './policy.js';
+import { GuardrailOverride, checkGuardrails } from './guardrails.js';
+import { readServiceFile, listServiceRegions, listVersionServices } from './store.js';
+import { activeLogger } from '../utils/logger.js';
 
 /**
  * Pricing diff engine
  * Compares new pricing against previous version
- * Determines version bump type
+ * Determines version bump type through the versioning policy (policy.ts)
  */
 
 export type BumpType = 'major' | 'minor' | 'patch';
 
 export interface DiffResult {
     service: string;
+    region: string;
     bumpType: BumpType;
     reason: string;
     changes: ChangeRecord[];
 }
 
+/**
+ * Top-level fields that differ between runs without any pricing change:
+ * version is assigned when writing, lastUpdated follows the offer's publicationDate
+ */
+export const VOLATILE_FIELDS = ['version', 'lastUpdated'];
+
 export interface ChangeRecord {
     service: string;
     changeType: 'schema' | 'pricing' | 'metadata';
+    kind: ChangeKind;
+    /** Bump this change requires under the service's policy */
+    bump: BumpType;
     path: string;
+    /** Human-readable change, e.g. "Rate for tier ≤51200 changed 0.085 → 0.08 (-5.9%)" */
+    description: string;
+    /** Numeric changes only - percent is null when the old value is 0 */
+    delta?: { absolute: number; percent: number | null };
+    /** Set when the change crosses a price-change guardrail */
+    guardrail?: { violation: string; approved: boolean };
     oldValue?: any;
     newValue?: any;
 }
 
+export interface DiffOptions {
+    /** Service schema - tells collection entries from fields */
+    schema?: ZodTypeAny;
+    /** Per-path rule overrides */
+    rules?: VersionRuleOverride[];
+    /** Per-path guardrail threshold overrides */
+    guardrails?: GuardrailOverride[];
+}
+
+/**
+ * Diff options of a service plugin
+ */
+export function diffOptions(plugin: {
+    schema: ZodTypeAny;
+    versionRules?: VersionRuleOverride[];
+    guardrails?: GuardrailOverride[];
+}): DiffOptions {
+    const options: DiffOptions = { schema: plugin.schema };
+    if (plugin.versionRules) options.rules = plugin.versionRules;
+    if (plugin.guardrails) options.guardrails = plugin.guardrails;
+    return options;
+}
+
+const CHANGE_TYPES: Record<ChangeKind, ChangeRecord['changeType']> = {
+    entryAdded: 'pricing',
+    entryRemoved: 'pricing',
+    fieldAdded: 'schema',
+    fieldRemoved: 'schema',
+    typeChanged: 'schema',
+    priceIncrease: 'pricing',
+    priceDecrease: 'pricing',
+    valueChanged: 'pricing',
+    metadataChanged: 'metadata',
+};
+
 /**
- * Compare two pricing objects
+ * Compare two pricing objects for one service in one region
+ * A missing side (null) is the whole file added or removed
  */
 export function diffPricing(
     oldData: any,
     newData: any,
-    serviceName: string
+    serviceName: string,
+    region: string,
+    options: DiffOptions = {}
 ): DiffResult {
-    const changes: ChangeRecord[] = [];
-    let bumpType: BumpType = 'patch';
-
-    // Deep comparison
-    const diff = deepDiff(oldData, newData, serviceName);
-    changes.push(...diff.changes);
-
-    // Determine bump type and reason
-    const hasSchemaChange = changes.some(c => c.changeType === 'schema');
-    const hasPricingChange = changes.some(c => c.changeType === 'pricing');
-
-    let reason: string;
-
-    if (hasSchemaChange) {
-        bumpType = 'major';
-        const schemaChanges = changes.filter(c => c.changeType === 'schema');
-        reason = `Schema change: ${schemaChanges[0]?.path || 'structure modified'}`;
-    } else if (hasPricingChange) {
-        bumpType = 'minor';
-        const pricingChanges = changes.filter(c => c.changeType === 'pricing');
-        reason = `Pricing change: ${pricingChanges[0]?.path || 'rates modified'}`;
-    } else {
-        bumpType = 'patch';
-        reason = 'Metadata update (lastUpdated, version, etc.)';
-    }
+    const located = locateChanges(oldData, newData, serviceName, options);
+
+    checkGuardrails(located, options.guardrails || []);
+    const changes = located.map(l => l.change);
+
+    // Highest bump any change requires, explained by the first change requiring it
+    const bumpType = maxBump(changes.map(c => c.bump));
+    const cause = changes.find(c => c.bump === bumpType);
+    const reason = cause ? `${CHANGE_KIND_LABELS[cause.kind]}: ${cause.path}` : 'No changes';
 
     return {
         service: serviceName,
+        region,
         bumpType,
         reason,
         changes
@@ -68,93 +122,300 @@ export function diffPricing(
 }
 
 /**
- * Deep diff two objects
+ * A change and its keys below the service output root
+ * (tiers as "upTo=<boundary>", e.g. ["components", "dataTransfer", "out", "upTo=10240", "rate"])
+ */
+export interface LocatedChange {
+    change: ChangeRecord;
+    segments: string[];
+}
+
+/**
+ * Every change between two pricing objects, in comparison order, ignoring volatile fields
+ */
+export function locateChanges(oldData: any, newData: any, serviceName: string, options: DiffOptions = {}): LocatedChange[] {
+    const located: LocatedChange[] = [];
+
+    deepDiff(withoutVolatileFields(oldData), withoutVolatileFields(newData), {
+        service: serviceName,
+        path: serviceName,
+        segments: [],
+        schema: options.schema,
+        rules: options.rules || [],
+        changes: located,
+    });
+
+    return located;
+}
+
+function withoutVolatileFields(data: any): any {
+    if (data === null || typeof data !== 'object') return data;
+
+    const stripped = { ...data };
+    for (const field of VOLATILE_FIELDS) {
+        delete stripped[field];
+    }
+    return stripped;
+}
+
+/**
+ * Whether a diff found anything besides volatile fields
+ */
+export function hasChanges(diff: DiffResult): boolean {
+    return diff.changes.length > 0;
+}
+
+interface DiffNode {
+    service: string;
+    path: string;
+    /** Keys below the service output root, for rule overrides */
+    segments: string[];
+    schema: ZodTypeAny | undefined;
+    rules: VersionRuleOverride[];
+    changes: LocatedChange[];
+    /** Set on a pricing tier and its fields */
+    tier?: PricingTierLike;
+}
+
+interface PricingTierLike {
+    upTo: number | 'Infinity';
+    unit?: string;
+}
+
+function tierLabel(tier: PricingTierLike): string {
+    return tier.upTo === 'Infinity' ? 'final tier' : `tier ≤${tier.upTo}`;
+}
+
+function formatPercent(percent: number | null): string {
+    if (percent === null) return 'from 0';
+    return `${percent > 0 ? '+' : ''}${percent.toFixed(1)}%`;
+}
+
+function numericDelta(oldValue: number, newValue: number): { absolute: number; percent: number | null } {
+    return {
+        absolute: parseFloat((newValue - oldValue).toPrecision(12)),
+        percent: oldValue === 0 ? null : parseFloat((((newValue - oldValue) / oldValue) * 100).toPrecision(12)),
+    };
+}
+
+function describeChange(node: DiffNode, kind: ChangeKind, oldValue: any, newValue: any): string {
+    const key = node.segments[node.segments.length - 1] ?? node.service;
+    const field = key.charAt(0).toUpperCase() + key.slice(1);
+    const subject = node.tier ? `${field} for ${tierLabel(node.tier)}` : field;
+
+    switch (kind) {
+        case 'entryAdded':
+        case 'entryRemoved': {
+            const action = kind === 'entryAdded' ? 'inserted' : 'removed';
+            if (node.tier) {
+                return node.tier.upTo === 'Infinity'
+                    ? `Final tier ${action}`
+                    : `Tier ${action} at ${node.tier.upTo}${node.tier.unit ? ` ${node.tier.unit}` : ''}`;
+            }
+            return `${CHANGE_KIND_LABELS[kind]}: ${key}`;
+        }
+        case 'fieldAdded':
+        case 'fieldRemoved':
+            return `${CHANGE_KIND_LABELS[kind]}: ${key}`;
+        case 'typeChanged':
+            return `${subject} changed type`;
+        case 'priceIncrease':
+        case 'priceDecrease':
+        case 'valueChanged':
+            return `${subject} changed ${oldValue} → ${newValue} (${formatPercent(numericDelta(oldValue, newValue).percent)})`;
+        case 'metadataChanged':
+            return `${subject} changed ${JSON.stringify(oldValue)} → ${JSON.stringify(newValue)}`;
+    }
+}
+
+function record(node: DiffNode, kind: ChangeKind, oldValue: any, newValue: any): void {
+    const change: ChangeRecord = {
+        service: node.service,
+        changeType: CHANGE_TYPES[kind],
+        kind,
+        bump: bumpFor(kind, node.segments, node.rules),
+        path: node.path,
+        description: describeChange(node, kind, oldValue, newValue),
+        oldValue,
+        newValue,
+    };
+
+    if (typeof oldValue === 'number' && typeof newValue === 'number') {
+        change.delta = numericDelta(oldValue, newValue);
+    }
+
+    node.changes.push({ change, segments: node.segments });
+}
+
+/**
+ * Pricing tiers with distinct upTo boundaries
+ */
+function isTierArray(value: any[]): value is PricingTierLike[] {
+    const boundaries = value.map(tier => tier !== null && typeof tier === 'object' ? tier.upTo : undefined);
+
+    return boundaries.every(upTo => typeof upTo === 'number' || upTo === 'Infinity') &&
+        new Set(boundaries).size === boundaries.length;
+}
+
+function boundaryOrder(upTo: number | 'Infinity'): number {
+    return upTo === 'Infinity' ? Infinity : upTo;
+}
+
+/**
+ * Diff tier arrays by upTo boundary rather than by index
+ * An inserted tier is one change, not a shift of every later tier
+ */
+function diffTiers(oldTiers: PricingTierLike[], newTiers: PricingTierLike[], node: DiffNode): void {
+    const tierSchema = childSchema(resolveSchema(node.schema, newTiers), '0');
+    const byBoundary = (tiers: PricingTierLike[]) => new Map(tiers.map(tier => [String(tier.upTo), tier]));
+    const oldByBoundary = byBoundary(oldTiers);
+    const newByBoundary = byBoundary(newTiers);
+
+    const boundaries = Array.from(new Set([...oldTiers, ...newTiers].map(tier => tier.upTo)))
+        .sort((a, b) => boundaryOrder(a) - boundaryOrder(b));
+
+    for (const upTo of boundaries) {
+        const oldTier = oldByBoundary.get(String(upTo));
+        const newTier = newByBoundary.get(String(upTo));
+        const child: DiffNode = {
+            ...node,
+            path: `${node.path}[upTo=${upTo}]`,
+            segments: [...node.segments, `upTo=${upTo}`],
+            schema: tierSchema,
+            tier: (newTier ?? oldTier)!,
+        };
+
+        if (!oldTier) {
+            record(child, 'entryAdded', undefined, newTier);
+        } else if (!newTier) {
+            record(child, 'entryRemoved', oldTier, undefined);
+        } else {
+            deepDiff(oldTier, newTier, child);
+        }
+    }
+}
+
+function scalarChange(key: string | undefined, oldValue: any, newValue: any): ChangeKind {
+    if (typeof oldValue !== typeof newValue) return 'typeChanged';
+    if (typeof oldValue !== 'number') return 'metadataChanged';
+    if (key !== 'rate') return 'valueChanged';
+
+    return newValue > oldValue ? 'priceIncrease' : 'priceDecrease';
+}
+
+/**
+ * Deep diff two values, classifying every change
  */
-function deepDiff(
-    oldObj: any,
-    newObj: any,
-    basePath: string,
-    changes: ChangeRecord[] = []
-): { changes: ChangeRecord[] } {
+function deepDiff(oldObj: any, newObj: any, node: DiffNode): void {
+    const oldMissing = oldObj === null || oldObj === undefined;
+    const newMissing = newObj === null || newObj === undefined;
+
     // Handle null/undefined
-    if (oldObj === null || oldObj === undefined) {
-        if (newObj !== null && newObj !== undefined) {
-            changes.push({
-                service: basePath,
-                changeType: 'schema',
-                path: basePath,
-                oldValue: oldObj,
-                newValue: newObj,
-            });
+    if (oldMissing || newMissing) {
+        if (!oldMissing || !newMissing) {
+            record(node, oldMissing ? 'entryAdded' : 'entryRemoved', oldObj, newObj);
         }
-        return { changes };
+        return;
     }
 
     // Handle primitives
     if (typeof oldObj !== 'object' || typeof newObj !== 'object') {
         if (oldObj !== newObj) {
-            const changeType = typeof oldObj === 'number' && typeof newObj === 'number'
-                ? 'pricing'
-                : 'metadata';
-
-            changes.push({
-                service: basePath,
-                changeType,
-                path: basePath,
-                oldValue: oldObj,
-                newValue: newObj,
-            });
+            record(node, scalarChange(node.segments[node.segments.length - 1], oldObj, newObj), oldObj, newObj);
         }
-        return { changes };
+        return;
+    }
+
+    // Object ↔ array (e.g. flat rate → tiers)
+    if (Array.isArray(oldObj) !== Array.isArray(newObj)) {
+        record(node, 'typeChanged', oldObj, newObj);
+        return;
+    }
+
+    // Tiers match by boundary
+    if (Array.isArray(oldObj) && isTierArray(oldObj) && isTierArray(newObj)) {
+        diffTiers(oldObj, newObj, node);
+        return;
     }
 
-    // Handle objects
+    // Handle objects: keys of a record (matched by key) or array are entries, keys of an object are fields
+    const schema = resolveSchema(node.schema, newObj);
+    const entries = isCollection(schema) || Array.isArray(newObj);
     const allKeys = new Set([...Object.keys(oldObj), ...Object.keys(newObj)]);
 
     for (const key of allKeys) {
-        const oldValue = oldObj[key];
-        const newValue = newObj[key];
-        const newPath = `${basePath}.${key}`;
+        const child: DiffNode = {
+            ...node,
+            path: `${node.path}.${key}`,
+            segments: [...node.segments, key],
+            schema: childSchema(schema, key),
+        };
 
         if (!(key in oldObj)) {
-            changes.push({
-                service: basePath,
-                changeType: 'schema',
-                path: newPath,
-                oldValue: undefined,
-                newValue,
-            });
+            record(child, entries ? 'entryAdded' : 'fieldAdded', undefined, newObj[key]);
         } else if (!(key in newObj)) {
-            changes.push({
-                service: basePath,
-                changeType: 'schema',
-                path: newPath,
-                oldValue,
-                newValue: undefined,
-            });
+            record(child, entries ? 'entryRemoved' : 'fieldRemoved', oldObj[key], undefined);
         } else {
-            deepDiff(oldValue, newValue, newPath, changes);
+            deepDiff(oldObj[key], newObj[key], child);
         }
     }
-
-    return { changes };
 }
 
 /**
- * Load previous version for comparison
+ * Load previous version of one service/region for comparison
  */
 export function loadPreviousVersion(
     service: string,
+    region: string,
     outputDir: string = 'output/aws'
 ): any | null {
-    const latestPath = path.join(outputDir, 'latest', 'services', `${service}.json`);
+    const previous = fs.existsSync(path.join(outputDir, 'latest'))
+        ? readServiceFile(outputDir, 'latest', service, region)
+        : null;
 
-    if (!fs.existsSync(latestPath)) {
-        console.log(chalk.yellow(`[DIFF] No previous version found for ${service}`));
-        return null;
+    if (!previous) {
+        activeLogger().log(chalk.yellow(`[DIFF] No previous version found for ${service} (${region})`));
     }
 
-    return JSON.parse(fs.readFileSync(latestPath, 'utf-8'));
+    return previous;
+}
+
+/**
+ * Service ids in the latest version
+ */
+export function listPreviousServices(outputDir: string = 'output/aws'): string[] {
+    return fs.existsSync(path.join(outputDir, 'latest')) ? listVersionServices(outputDir, 'latest') : [];
+}
+
+/**
+ * Regions of one service in the latest version
+ */
+export function listPreviousRegions(service: string, outputDir: string = 'output/aws'): string[] {
+    return fs.existsSync(path.join(outputDir, 'latest')) ? listServiceRegions(outputDir, 'latest', service) : [];
+}
+
+/**
+ * One report section: every diff, then all of its changes, most significant first
+ */
+function reportSection(lines: string[], title: string, diffs: DiffResult[]): void {
+    if (diffs.length === 0) return;
+
+    lines.push(`## ${title}\n`);
+
+    for (const d of diffs) {
+        const increases = d.changes.filter(c => c.kind === 'priceIncrease').length;
+        const decreases = d.changes.filter(c => c.kind === 'priceDecrease').length;
+        const prices = increases + decreases > 0 ? ` (${increases} price increases, ${decreases} price decreases)` : '';
+
+        lines.push(`- ${d.service} [${d.region}]: ${d.reason}${prices}`);
+
+        const significant = [...d.changes].sort((a, b) => BUMP_PRIORITY[b.bump] - BUMP_PRIORITY[a.bump]);
+        significant.forEach(c => {
+            lines.push(`  - ${c.path}: ${c.description} (${c.bump})`);
+        });
+    }
+
+    lines.push('');
 }
 
 /**
@@ -166,36 +427,19 @@ export function generateDiffReport(diffs: DiffResult[]): string {
     lines.push('# Pricing Diff Report\n');
     lines.push(`Generated: ${new Date().toISOString()}\n`);
 
-    const majorChanges = diffs.filter(d => d.bumpType === 'major');
-    const minorChanges = diffs.filter(d => d.bumpType === 'minor');
-    const patchChanges = diffs.filter(d => d.bumpType === 'patch');
-
-    if (majorChanges.length > 0) {
-        lines.push('## Major Changes (Schema)\n');
-        majorChanges.forEach(d => {
-            lines.push(`- ${d.service}: ${d.reason}`);
-            d.changes.slice(0, 5).forEach(c => {
-                lines.push(`  - ${c.path}: ${JSON.stringify(c.oldValue)} → ${JSON.stringify(c.newValue)}`);
-            });
-            if (d.changes.length > 5) {
-                lines.push(`  - ... and ${d.changes.length - 5} more changes`);
-            }
-        });
-        lines.push('');
-    }
+    reportSection(lines, 'Major Changes (Breaking)', diffs.filter(d => d.bumpType === 'major'));
+    reportSection(lines, 'Minor Changes (Additions, Pricing)', diffs.filter(d => d.bumpType === 'minor'));
+    reportSection(lines, 'Patch Changes (Metadata)', diffs.filter(d => d.bumpType === 'patch' && hasChanges(d)));
 
-    if (minorChanges.length > 0) {
-        lines.push('## Minor Changes (Pricing)\n');
-        minorChanges.forEach(d => {
-            lines.push(`- ${d.service}: ${d.reason}`);
-        });
-        lines.push('');
-    }
+    // Guardrail changes in full - reviewers copy the paths into the approval file
+    const guarded = diffs.flatMap(d => d.changes.filter(c => c.guardrail).map(c => ({ d, c })));
+    for (const approved of [false, true]) {
+        const listed = guarded.filter(({ c }) => c.guardrail!.approved === approved);
+        if (listed.length === 0) continue;
 
-    if (patchChanges.length > 0) {
-        lines.push('## Patch Changes (Metadata)\n');
-        patchChanges.forEach(d => {
-            lines.push(`- ${d.service}: ${d.reason}`);
+        lines.push(approved ? '## Approved Guardrail Exceptions\n' : '## Blocked Changes (Approval Required)\n');
+        listed.forEach(({ d, c }) => {
+            lines.push(`- ${c.path} [${d.region}]: ${c.guardrail!.violation} - ${c.description}`);
         });
         lines.push('');
     }
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { z } from 'zod';
+import { SimpleRate } from '../schema/base.js';
+import { DiffOptions, DiffResult, diffPricing } from './diff.js';
+import { applyApprovals, assertNoBlockedChanges, blockedChanges, readApprovals } from './guardrails.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'guardrails-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const TestSchema = z.object({
+    components: z.object({
+        instances: z.record(z.string(), SimpleRate),
+    }),
+});
+
+type Instances = Record<string, { rate: number; unit: 'hour' }>;
+
+const INSTANCES: Instances = Object.fromEntries(
+    ['a', 'b', 'c', 'd', 'e', 'f', 'g'].map((name, i) => [name, { rate: (i + 1) / 100, unit: 'hour' as const }])
+);
+
+function diffInstances(newInstances: Instances, options: Partial<DiffOptions> = {}): DiffResult {
+    return diffPricing(
+        { components: { instances: INSTANCES } },
+        { components: { instances: newInstances } },
+        'test',
+        'us-east-1',
+        { schema: TestSchema, ...options }
+    );
+}
+
+function violations(diff: DiffResult): Array<[string, string | undefined]> {
+    return diff.changes.map(c => [c.path, c.guardrail?.violation]);
+}
+
+describe('checkGuardrails', () => {
+    it('lets a rate change within the threshold through', () => {
+        const diff = diffInstances({ ...INSTANCES, a: { rate: 0.015, unit: 'hour' } });
+
+        expect(violations(diff)).toEqual([['test.components.instances.a.rate', undefined]]);
+        expect(blockedChanges([diff])).toEqual([]);
+    });
+
+    it('flags a rate moving by more than the maximum percentage', () => {
+        const diff = diffInstances({ ...INSTANCES, a: { rate: 0.03, unit: 'hour' }, b: { rate: 0.005, unit: 'hour' } });
+
+        expect(violations(diff)).toEqual([
+            ['test.components.instances.a.rate', 'Rate changed +200.0% (max ±50%)'],
+            ['test.components.instances.b.rate', 'Rate changed -75.0% (max ±50%)'],
+        ]);
+    });
+
+    it('flags a rate dropping to or rising from zero', () => {
+        const dropped = diffInstances({ ...INSTANCES, a: { rate: 0, unit: 'hour' } });
+        expect(violations(dropped)).toEqual([['test.components.instances.a.rate', 'Rate dropped to zero from 0.01']]);
+
+        const rose = diffPricing(
+            { components: { instances: { a: { rate: 0, unit: 'hour' } } } },
+            { components: { instances: { a: { rate: 0.01, unit: 'hour' } } } },
+            'test', 'us-east-1', { schema: TestSchema }
+        );
+        expect(violations(rose)).toEqual([['test.components.instances.a.rate', 'Rate rose from zero to 0.01']]);
+    });
+
+    it('flags every removed entry once a collection loses more than the maximum', () => {
+        const fewer = (count: number) => Object.fromEntries(Object.entries(INSTANCES).slice(count));
+
+        expect(blockedChanges([diffInstances(fewer(5))])).toEqual([]);
+
+        const diff = diffInstances(fewer(6));
+        expect(diff.changes).toHaveLength(6);
+        expect(diff.changes.every(c => c.guardrail?.violation === 'components.instances lost 6 entries (max 5)')).toBe(true);
+    });
+
+    it('applies per-path threshold overrides', () => {
+        const diff = diffInstances({ ...INSTANCES, a: { rate: 0.03, unit: 'hour' }, b: { rate: 0, unit: 'hour' } }, {
+            guardrails: [{ path: 'components.instances.*.rate', thresholds: { maxPercentChange: 500, blockDropToZero: false } }],
+        });
+
+        expect(blockedChanges([diff])).toEqual([]);
+    });
+});
+
+describe('approvals', () => {
+    const diff = () => diffInstances({ ...INSTANCES, a: { rate: 0.03, unit: 'hour' }, b: { rate: 0, unit: 'hour' } });
+
+    it('approves only the listed region and path', () => {
+        const diffs = [diff()];
+        applyApprovals(diffs, [
+            { region: 'us-east-1', path: 'test.components.instances.a.rate', oldValue: 0.01, newValue: 0.03, reason: 'Repriced' },
+            { region: 'eu-west-1', path: 'test.components.instances.b.rate', oldValue: 0.02, newValue: 0, reason: 'Other region' },
+        ]);
+
+        expect(blockedChanges(diffs).map(({ change }) => change.path)).toEqual(['test.components.instances.b.rate']);
+        expect(() => assertNoBlockedChanges(diffs, 'pricing-approvals.json')).toThrow(
+            '[GUARDRAIL FAILED] 1 change(s) cross price-change guardrails:\n' +
+            '  - test.components.instances.b.rate (us-east-1): Rate dropped to zero from 0.02 [0.02 → 0]'
+        );
+    });
+
+    it('keeps a later, different change on an approved path blocked', () => {
+        const diffs = [diffInstances({ ...INSTANCES, a: { rate: 0.5, unit: 'hour' } })];
+        applyApprovals(diffs, [
+            { region: 'us-east-1', path: 'test.components.instances.a.rate', oldValue: 0.01, newValue: 0.03, reason: 'Repriced' },
+        ]);
+
+        expect(blockedChanges(diffs).map(({ change }) => change.path)).toEqual(['test.components.instances.a.rate']);
+    });
+
+    it('publishes once every flagged change is approved', () => {
+        const diffs = [diff()];
+        applyApprovals(diffs, [
+            { region: 'us-east-1', path: 'test.components.instances.a.rate', oldValue: 0.01, newValue: 0.03, reason: 'Reviewed' },
+            { region: 'us-east-1', path: 'test.components.instances.b.rate', oldValue: 0.02, newValue: 0, reason: 'Reviewed' },
+        ]);
+
+        expect(() => assertNoBlockedChanges(diffs, 'pricing-approvals.json')).not.toThrow();
+    });
+
+    it('reads a missing approval file as no approvals', () => {
+        expect(readApprovals(path.join(tempDir, 'missing.json'))).toEqual([]);
+    });
+
+    it('crashes on an invalid approval file', () => {
+        const filePath = path.join(tempDir, 'invalid.json');
+
+        fs.writeFileSync(filePath, JSON.stringify({ approvals: [{ region: 'us-east-1', path: 'test.a' }] }));
+        expect(() => readApprovals(filePath)).toThrow('[GUARDRAIL FAILED] Invalid approval file');
+
+        fs.writeFileSync(filePath, JSON.stringify({ approvals: [{ region: 'us-east-1', path: 'test.a', reason: 'Unpinned' }] }));
+        expect(() => readApprovals(filePath)).toThrow('[GUARDRAIL FAILED] Invalid approval file');
+
+        fs.writeFileSync(filePath, '{ approvals');
+        expect(() => readApprovals(filePath)).toThrow('[GUARDRAIL FAILED] Invalid approval file');
+    });
+});
@@ -0,0 +1,233 @@
+import fs from 'fs';
+import chalk from 'chalk';
+import { z } from 'zod';
+import { ChangeRecord, DiffResult, LocatedChange } from './diff.js';
+import { matchesPath } from './policy.js';
+import { deepSortObject } from '../utils/deterministic.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Price-change guardrails
+ * Schema validation cannot tell a repriced SKU from a filter that matched the wrong one.
+ * Changes crossing a threshold are blocked from publication unless an approval file,
+ * committed next to the pipeline, lists their exact region and path.
+ *
+ * Thresholds (defaults below, overridable per service and output path):
+ * - maxPercentChange: a rate moving by more than this percentage (or rising from 0)
+ * - blockDropToZero: a non-zero rate dropping to 0
+ * - maxRemovedEntries: a collection (e.g. instance types, tiers) losing more entries than this
+ */
+
+export interface GuardrailThresholds {
+    maxPercentChange?: number;
+    blockDropToZero?: boolean;
+    maxRemovedEntries?: number;
+}
+
+/**
+ * Threshold override for part of a service's output
+ * Same path patterns as versionRules; the last matching override wins per threshold
+ */
+export interface GuardrailOverride {
+    path: string;
+    thresholds: GuardrailThresholds;
+}
+
+export const DEFAULT_GUARDRAILS: Required<GuardrailThresholds> = {
+    maxPercentChange: 50,
+    blockDropToZero: true,
+    maxRemovedEntries: 5,
+};
+
+/**
+ * Approval file: changes reviewed and accepted despite crossing a guardrail
+ * Each approval is pinned to the values it approved - a later, different change
+ * on the same path is blocked again
+ */
+export const ApprovalFile = z.object({
+    approvals: z.array(z.object({
+        /** Region of the change (e.g. us-east-1, global) */
+        region: z.string().min(1),
+        /** Changed path as listed in the diff report (e.g. ec2.components.instances.t3.micro.rate) */
+        path: z.string().min(1),
+        /** Value before the change (omitted for an added entry) */
+        oldValue: z.unknown(),
+        /** Value after the change (omitted for a removed entry) */
+        newValue: z.unknown(),
+        /** Why the change is correct */
+        reason: z.string().min(1),
+    }).refine(
+        approval => approval.oldValue !== undefined || approval.newValue !== undefined,
+        { message: 'oldValue or newValue is required - an approval covers one exact change' }
+    )),
+});
+
+export type ApprovalFile = z.infer<typeof ApprovalFile>;
+export type Approval = ApprovalFile['approvals'][number];
+
+export const DEFAULT_APPROVALS_FILE = 'pricing-approvals.json';
+
+/**
+ * Resolve the approval file path (default: PRICING_APPROVALS, then pricing-approvals.json)
+ */
+export function resolveApprovalsFile(spec: string | undefined = process.env.PRICING_APPROVALS): string {
+    return spec || DEFAULT_APPROVALS_FILE;
+}
+
+/**
+ * Read the approval file - a missing file approves nothing
+ * CRASHES on an invalid file
+ */
+export function readApprovals(filePath: string): Approval[] {
+    if (!fs.existsSync(filePath)) {
+        return [];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+        throw new Error(`[GUARDRAIL FAILED] Invalid approval file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = ApprovalFile.safeParse(parsed);
+    if (!result.success) {
+        const issues = result.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ');
+        throw new Error(`[GUARDRAIL FAILED] Invalid approval file ${filePath}: ${issues}`);
+    }
+
+    return result.data.approvals;
+}
+
+function thresholdsFor(segments: string[], overrides: GuardrailOverride[]): Required<GuardrailThresholds> {
+    const thresholds = { ...DEFAULT_GUARDRAILS };
+
+    for (const override of overrides) {
+        if (matchesPath(override.path.split('.'), segments)) {
+            Object.assign(thresholds, override.thresholds);
+        }
+    }
+
+    return thresholds;
+}
+
+function flag(change: ChangeRecord, violation: string): void {
+    change.guardrail = { violation, approved: false };
+}
+
+/**
+ * Flag every change of one diff that crosses a guardrail
+ * segments: keys of each change below the service output root
+ */
+export function checkGuardrails(
+    changes: LocatedChange[],
+    overrides: GuardrailOverride[]
+): void {
+    const removedByCollection = new Map<string, LocatedChange[]>();
+
+    for (const entry of changes) {
+        const { change, segments } = entry;
+        const thresholds = thresholdsFor(segments, overrides);
+
+        if (change.kind === 'priceIncrease' || change.kind === 'priceDecrease') {
+            const percent = change.delta?.percent ?? null;
+
+            if (change.newValue === 0 && thresholds.blockDropToZero) {
+                flag(change, `Rate dropped to zero from ${change.oldValue}`);
+            } else if (percent === null) {
+                // Any rise from zero is an infinite percentage change
+                if (Number.isFinite(thresholds.maxPercentChange)) flag(change, `Rate rose from zero to ${change.newValue}`);
+            } else if (Math.abs(percent) > thresholds.maxPercentChange) {
+                flag(change, `Rate changed ${percent > 0 ? '+' : ''}${percent.toFixed(1)}% (max ±${thresholds.maxPercentChange}%)`);
+            }
+        }
+
+        // The whole file disappearing is reported by parity, not here
+        if (change.kind === 'entryRemoved' && segments.length > 0) {
+            const collection = segments.slice(0, -1).join('\u0000');
+            removedByCollection.set(collection, [...(removedByCollection.get(collection) || []), entry]);
+        }
+    }
+
+    for (const removed of removedByCollection.values()) {
+        const collectionSegments = removed[0]!.segments.slice(0, -1);
+        const max = thresholdsFor(collectionSegments, overrides).maxRemovedEntries;
+
+        if (removed.length > max) {
+            const collection = collectionSegments.join('.') || '(root)';
+            removed.forEach(({ change }) => flag(change, `${collection} lost ${removed.length} entries (max ${max})`));
+        }
+    }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(deepSortObject(a)) === JSON.stringify(deepSortObject(b));
+}
+
+function describeValues(oldValue: unknown, newValue: unknown): string {
+    return `${JSON.stringify(oldValue) ?? '(none)'} → ${JSON.stringify(newValue) ?? '(none)'}`;
+}
+
+/**
+ * Mark the flagged changes the approval file lists with the same values
+ * Warns about approvals that match no flagged change (stale entries, or a path
+ * that changed again to values nobody approved)
+ */
+export function applyApprovals(diffs: DiffResult[], approvals: Approval[]): void {
+    const used = new Set<Approval>();
+
+    for (const diff of diffs) {
+        for (const change of diff.changes) {
+            if (!change.guardrail) continue;
+
+            const candidates = approvals.filter(a => a.region === diff.region && a.path === change.path);
+            const approval = candidates.find(a =>
+                sameValue(a.oldValue, change.oldValue) && sameValue(a.newValue, change.newValue)
+            );
+
+            if (approval) {
+                change.guardrail.approved = true;
+                used.add(approval);
+            }
+
+            for (const mismatch of candidates.filter(a => a !== approval)) {
+                activeLogger().log(chalk.yellow(
+                    `[GUARDRAIL] Approval for ${change.path} (${diff.region}) covers ` +
+                    `${describeValues(mismatch.oldValue, mismatch.newValue)}, not ${describeValues(change.oldValue, change.newValue)}`
+                ));
+                used.add(mismatch);
+            }
+        }
+    }
+
+    for (const approval of approvals.filter(a => !used.has(a))) {
+        activeLogger().log(chalk.yellow(`[GUARDRAIL] Unused approval: ${approval.path} (${approval.region})`));
+    }
+}
+
+/**
+ * Flagged changes without an approval
+ */
+export function blockedChanges(diffs: DiffResult[]): Array<{ diff: DiffResult; change: ChangeRecord }> {
+    return diffs.flatMap(diff => diff.changes
+        .filter(change => change.guardrail && !change.guardrail.approved)
+        .map(change => ({ diff, change })));
+}
+
+/**
+ * CRASHES listing every blocked change
+ */
+export function assertNoBlockedChanges(diffs: DiffResult[], approvalsFile: string): void {
+    const blocked = blockedChanges(diffs);
+
+    if (blocked.length > 0) {
+        const lines = blocked.map(({ diff, change }) =>
+            `  - ${change.path} (${diff.region}): ${change.guardrail!.violation} [${describeValues(change.oldValue, change.newValue)}]`
+        ).join('\n');
+
+        throw new Error(
+            `[GUARDRAIL FAILED] ${blocked.length} change(s) cross price-change guardrails:\n${lines}\n` +
+            `Review them and list each region, path, oldValue and newValue in ${approvalsFile} to publish.`
+        );
+    }
+}
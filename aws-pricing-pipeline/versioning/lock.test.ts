@@ -0,0 +1,113 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { acquireOutputLock, removeStaleLock } from './lock.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+function outputDir(name: string): string {
+    return path.join(tempDir, name);
+}
+
+function writeLock(dir: string, owner: unknown): string {
+    const lockPath = path.join(dir, '.lock');
+    fs.mkdirSync(dir, { recursive: true });
+    fs.writeFileSync(lockPath, typeof owner === 'string' ? owner : JSON.stringify(owner));
+    return lockPath;
+}
+
+/** Pid of a process that has exited */
+function deadPid(): number {
+    return spawnSync(process.execPath, ['-e', '']).pid!;
+}
+
+describe('acquireOutputLock', () => {
+    it('holds the lock until released', () => {
+        const dir = outputDir('held');
+        const release = acquireOutputLock(dir);
+
+        expect(JSON.parse(fs.readFileSync(path.join(dir, '.lock'), 'utf-8'))).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+        expect(() => acquireOutputLock(dir)).toThrow(`[LOCK] ${dir} is locked by pid ${process.pid}`);
+
+        release();
+        expect(fs.existsSync(path.join(dir, '.lock'))).toBe(false);
+
+        acquireOutputLock(dir)();
+    });
+
+    it('takes over a lock whose process is gone', () => {
+        const dir = outputDir('stale');
+        writeLock(dir, { pid: deadPid(), hostname: os.hostname(), acquiredAt: '2024-06-01T00:00:00.000Z' });
+
+        const release = acquireOutputLock(dir);
+        expect(JSON.parse(fs.readFileSync(path.join(dir, '.lock'), 'utf-8')).pid).toBe(process.pid);
+        release();
+    });
+
+    it('never takes over a lock held on another host', () => {
+        const dir = outputDir('remote');
+        writeLock(dir, { pid: deadPid(), hostname: `not-${os.hostname()}`, acquiredAt: '2024-06-01T00:00:00.000Z' });
+
+        expect(() => acquireOutputLock(dir)).toThrow('[LOCK]');
+    });
+
+    it('waits for an unreadable lock another run may still be writing', () => {
+        const dir = outputDir('unreadable');
+        const lockPath = writeLock(dir, '{ "pid":');
+
+        expect(() => acquireOutputLock(dir)).toThrow(`[LOCK] ${dir} is locked by another run`);
+
+        // Left unreadable by a crash long ago
+        const past = new Date(Date.now() - 60_000);
+        fs.utimesSync(lockPath, past, past);
+
+        acquireOutputLock(dir)();
+    });
+
+    it('never releases a lock another run took over', () => {
+        const dir = outputDir('taken-over');
+        const release = acquireOutputLock(dir);
+        const other = { pid: process.pid + 1, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+
+        writeLock(dir, other);
+        release();
+
+        expect(JSON.parse(fs.readFileSync(path.join(dir, '.lock'), 'utf-8'))).toEqual(other);
+    });
+
+    it('lets only one of two runs that saw the same dead holder take over', () => {
+        const dir = outputDir('racers');
+        const lockPath = writeLock(dir, { pid: deadPid(), hostname: os.hostname(), acquiredAt: '2024-06-01T00:00:00.000Z' });
+
+        // Run B reads the dead holder, then run A takes over before B removes it
+        const observedByB = fs.readFileSync(lockPath, 'utf-8');
+        const releaseA = acquireOutputLock(dir);
+        const heldByA = fs.readFileSync(lockPath, 'utf-8');
+
+        expect(removeStaleLock(lockPath, observedByB)).toBe(false);
+        expect(fs.readFileSync(lockPath, 'utf-8')).toBe(heldByA);
+        expect(() => acquireOutputLock(dir)).toThrow(`[LOCK] ${dir} is locked by pid ${process.pid}`);
+
+        releaseA();
+    });
+
+    it('lets one run at a time take over', () => {
+        const dir = outputDir('takeover');
+        const lockPath = writeLock(dir, { pid: deadPid(), hostname: os.hostname(), acquiredAt: '2024-06-01T00:00:00.000Z' });
+        fs.writeFileSync(`${lockPath}.takeover`, '1');
+
+        expect(() => acquireOutputLock(dir)).toThrow(`[LOCK] Another run is taking over ${lockPath}`);
+
+        // Left by a run that crashed while taking over
+        const past = new Date(Date.now() - 60_000);
+        fs.utimesSync(`${lockPath}.takeover`, past, past);
+        expect(() => acquireOutputLock(dir)).toThrow(`remove ${lockPath}.takeover`);
+
+        fs.rmSync(`${lockPath}.takeover`);
+        acquireOutputLock(dir)();
+    });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Output directory lock
+ * Publishing reads latest, plans the next version and writes it - two runs doing that
+ * at once would both plan the same version. The lock file (<outputDir>/.lock) is created
+ * exclusively and holds its owner; a lock whose process died on this host is taken over,
+ * one run at a time (removeStaleLock).
+ */
+
+const LOCK_FILE = '.lock';
+const STALE_UNREADABLE_MS = 10_000;
+
+interface LockOwner {
+    pid: number;
+    hostname: string;
+    acquiredAt: string;
+}
+
+function isRunning(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: running, owned by another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+function readContent(lockPath: string): string | null {
+    try {
+        return fs.readFileSync(lockPath, 'utf-8');
+    } catch {
+        // Removed meanwhile
+        return null;
+    }
+}
+
+function parseOwner(content: string | null): LockOwner | null {
+    try {
+        return content === null ? null : JSON.parse(content);
+    } catch {
+        // Crashed while writing it
+        return null;
+    }
+}
+
+/**
+ * Remove a stale lock file, unless it changed since it was read
+ * Only one run at a time may take over (the .lock.takeover file, created exclusively):
+ * two runs that read the same dead holder would otherwise both remove it, the later one
+ * deleting the lock the earlier one had just created. Returns whether the lock was removed
+ * CRASHES if another run is taking over
+ */
+export function removeStaleLock(lockPath: string, observed: string): boolean {
+    const takeoverPath = `${lockPath}.takeover`;
+
+    try {
+        fs.writeFileSync(takeoverPath, String(process.pid), { flag: 'wx' });
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+        const started = fs.statSync(takeoverPath, { throwIfNoEntry: false })?.mtimeMs ?? Date.now();
+        throw new Error(Date.now() - started < STALE_UNREADABLE_MS
+            ? `[LOCK] Another run is taking over ${lockPath}`
+            : `[LOCK] A run crashed while taking over ${lockPath} - remove ${takeoverPath}`);
+    }
+
+    try {
+        // A lock created since it was read belongs to a live run
+        if (readContent(lockPath) !== observed) {
+            return false;
+        }
+
+        fs.rmSync(lockPath, { force: true });
+        return true;
+    } finally {
+        fs.rmSync(takeoverPath, { force: true });
+    }
+}
+
+/**
+ * Acquire the output directory lock and return its release function
+ * CRASHES if another live run holds it
+ */
+export function acquireOutputLock(outputDir: string): () => void {
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    const lockPath = path.join(outputDir, LOCK_FILE);
+    const owner: LockOwner = { pid: process.pid, hostname: os.hostname(), acquiredAt: new Date().toISOString() };
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+            fs.writeFileSync(lockPath, JSON.stringify(owner, null, 2), { flag: 'wx' });
+
+            return () => {
+                // Never remove a lock taken over by another run
+                if (parseOwner(readContent(lockPath))?.pid === owner.pid) {
+                    fs.rmSync(lockPath, { force: true });
+                }
+            };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+        }
+
+        const content = readContent(lockPath);
+        if (content === null) continue; // Released meanwhile
+
+        const holder = parseOwner(content);
+
+        // An unreadable lock may be one another run is still writing
+        const written = fs.statSync(lockPath, { throwIfNoEntry: false })?.mtimeMs ?? 0;
+        if (!holder && Date.now() - written < STALE_UNREADABLE_MS) {
+            throw new Error(`[LOCK] ${outputDir} is locked by another run (${lockPath})`);
+        }
+
+        if (holder && (holder.hostname !== owner.hostname || isRunning(holder.pid))) {
+            throw new Error(
+                `[LOCK] ${outputDir} is locked by pid ${holder.pid} on ${holder.hostname} since ${holder.acquiredAt} ` +
+                `- wait for that run, or remove ${lockPath} if it is gone`
+            );
+        }
+
+        if (removeStaleLock(lockPath, content)) {
+            activeLogger().log(chalk.yellow(`[LOCK] Removed stale lock ${lockPath}${holder ? ` (pid ${holder.pid} is gone)` : ''}`));
+        }
+    }
+
+    throw new Error(`[LOCK] Could not acquire ${lockPath} - another run took it over`);
+}
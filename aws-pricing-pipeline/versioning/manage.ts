@@ -0,0 +1,339 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import chalk from 'chalk';
+import {
+    listVersions,
+    parseVersion,
+    readVersionMetadata,
+    updateLatestPointer,
+    VersionMetadata,
+    VERSION_PATTERN,
+} from './bump.js';
+import { DiffArtifact } from './artifacts.js';
+import { BumpType, hasChanges } from './diff.js';
+import { acquireOutputLock } from './lock.js';
+import { collectGarbage, listServiceRegions, listVersionServices } from './store.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Version management
+ * Published versions are immutable; what changes is where latest points, which
+ * versions carry tags and which are pruned. Every such change is appended to
+ * <outputDir>/history.json, so latest can always be traced back:
+ *
+ * - publish: the pipeline wrote a version and moved latest to it
+ * - rollback: latest was re-pointed to an existing version
+ * - prune: versions (and the objects only they referenced) were deleted by retention policy
+ * - tag / untag: a named tag (kept by prune) was set or removed
+ *
+ * Tags live in <outputDir>/tags.json (tag → version).
+ */
+
+export type HistoryAction = 'publish' | 'rollback' | 'prune' | 'tag' | 'untag';
+
+export interface HistoryEntry {
+    action: HistoryAction;
+    at: string;
+    /** Local user that ran the command */
+    user: string;
+    /** publish / rollback: new latest; tag / untag: tagged version */
+    version?: string;
+    /** publish / rollback: latest before the change */
+    previousLatest?: string | null;
+    reason?: string;
+    tag?: string;
+    /** prune: deleted versions */
+    removed?: string[];
+}
+
+export interface VersionSummary {
+    version: string;
+    metadata: VersionMetadata;
+    latest: boolean;
+    tags: string[];
+}
+
+export interface VersionDetails extends VersionSummary {
+    /** Service id → regions */
+    services: Record<string, string[]>;
+    /** Changed service regions and changes by bump, from DIFF_REPORT.json */
+    changes: { serviceRegions: number; byBump: Record<BumpType, number> } | null;
+    /** History entries about this version */
+    history: HistoryEntry[];
+}
+
+export interface PruneOptions {
+    /** Newest versions kept regardless of tags (default: 10) */
+    keep?: number;
+    /** Report what would be removed without deleting */
+    dryRun?: boolean;
+}
+
+export interface PruneResult {
+    removed: string[];
+    /** Kept version → why */
+    kept: Record<string, string>;
+    /** Objects only the removed versions referenced */
+    deletedObjects: number;
+}
+
+const HISTORY_FILE = 'history.json';
+const TAGS_FILE = 'tags.json';
+const TAG_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+const DEFAULT_KEEP = 10;
+
+/**
+ * Write a JSON file by renaming a temporary file over it
+ */
+function writeJsonAtomic(filePath: string, value: unknown): void {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(value, null, 2));
+    fs.renameSync(tempPath, filePath);
+}
+
+function currentUser(): string {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return process.env.USER || 'unknown';
+    }
+}
+
+/**
+ * Version latest points at (null before the first publish)
+ */
+export function readLatestVersion(outputDir: string = 'output/aws'): string | null {
+    const metadataPath = path.join(outputDir, 'latest', 'metadata.json');
+    return fs.existsSync(metadataPath) ? JSON.parse(fs.readFileSync(metadataPath, 'utf-8')).version : null;
+}
+
+/**
+ * Version history, oldest first
+ */
+export function readHistory(outputDir: string = 'output/aws'): HistoryEntry[] {
+    const historyPath = path.join(outputDir, HISTORY_FILE);
+    return fs.existsSync(historyPath) ? JSON.parse(fs.readFileSync(historyPath, 'utf-8')).entries : [];
+}
+
+/**
+ * Append a history entry
+ * Call only while holding the output lock
+ */
+export function appendHistory(outputDir: string, entry: Omit<HistoryEntry, 'at' | 'user'>): void {
+    const entries = [...readHistory(outputDir), { ...entry, at: new Date().toISOString(), user: currentUser() }];
+    writeJsonAtomic(path.join(outputDir, HISTORY_FILE), { entries });
+}
+
+/**
+ * Tags: tag → version
+ */
+export function readTags(outputDir: string = 'output/aws'): Record<string, string> {
+    const tagsPath = path.join(outputDir, TAGS_FILE);
+    return fs.existsSync(tagsPath) ? JSON.parse(fs.readFileSync(tagsPath, 'utf-8')).tags : {};
+}
+
+function tagsOf(tags: Record<string, string>, version: string): string[] {
+    return Object.keys(tags).filter(tag => tags[tag] === version).sort();
+}
+
+/**
+ * CRASHES if the version is not published
+ */
+function assertPublished(outputDir: string, version: string): void {
+    if (!VERSION_PATTERN.test(version) || !listVersions(outputDir).includes(version)) {
+        throw new Error(`[VERSION] Version not found: ${version} (published: ${listVersions(outputDir).join(', ') || 'none'})`);
+    }
+}
+
+/**
+ * Every published version with its metadata, oldest first
+ */
+export function listVersionSummaries(outputDir: string = 'output/aws'): VersionSummary[] {
+    const latest = readLatestVersion(outputDir);
+    const tags = readTags(outputDir);
+
+    return listVersions(outputDir).map(version => ({
+        version,
+        metadata: readVersionMetadata(version, outputDir),
+        latest: version === latest,
+        tags: tagsOf(tags, version),
+    }));
+}
+
+/**
+ * One version in detail
+ * CRASHES if the version is not published
+ */
+export function inspectVersion(version: string, outputDir: string = 'output/aws'): VersionDetails {
+    assertPublished(outputDir, version);
+
+    const versionDir = path.join(outputDir, version);
+    const services: Record<string, string[]> = {};
+
+    for (const service of listVersionServices(outputDir, version)) {
+        services[service] = listServiceRegions(outputDir, version, service);
+    }
+
+    // Versions published before the diff artifacts only have DIFF_REPORT.md
+    const artifactPath = path.join(versionDir, 'DIFF_REPORT.json');
+    let changes: VersionDetails['changes'] = null;
+
+    if (fs.existsSync(artifactPath)) {
+        const artifact: DiffArtifact = JSON.parse(fs.readFileSync(artifactPath, 'utf-8'));
+        const byBump: Record<BumpType, number> = { major: 0, minor: 0, patch: 0 };
+
+        for (const change of artifact.diffs.flatMap(d => d.changes)) {
+            byBump[change.bump]++;
+        }
+
+        changes = { serviceRegions: artifact.diffs.filter(hasChanges).length, byBump };
+    }
+
+    return {
+        version,
+        metadata: readVersionMetadata(version, outputDir),
+        latest: version === readLatestVersion(outputDir),
+        tags: tagsOf(readTags(outputDir), version),
+        services,
+        changes,
+        history: readHistory(outputDir).filter(entry =>
+            entry.version === version || entry.previousLatest === version || entry.removed?.includes(version)
+        ),
+    };
+}
+
+/**
+ * Re-point latest to an existing version and record it in the history
+ * The next publish diffs against that version and bumps from the highest published one.
+ * CRASHES if the version is not published or already latest
+ */
+export function rollbackVersion(version: string, reason: string, outputDir: string = 'output/aws'): void {
+    const releaseLock = acquireOutputLock(outputDir);
+
+    try {
+        assertPublished(outputDir, version);
+
+        const previousLatest = readLatestVersion(outputDir);
+        if (previousLatest === version) {
+            throw new Error(`[VERSION] latest already points at ${version}`);
+        }
+
+        updateLatestPointer(version, outputDir);
+        appendHistory(outputDir, { action: 'rollback', version, previousLatest, reason });
+
+        activeLogger().log(chalk.green(`[VERSION] Rolled back latest ${previousLatest} → ${version}`));
+    } finally {
+        releaseLock();
+    }
+}
+
+/**
+ * Delete versions by retention policy
+ * Keeps the newest `keep` versions, latest, tagged versions and every major release (vN.0.0)
+ */
+export function pruneVersions(options: PruneOptions = {}, outputDir: string = 'output/aws'): PruneResult {
+    const keep = options.keep ?? DEFAULT_KEEP;
+
+    if (!Number.isInteger(keep) || keep < 1) {
+        throw new Error(`[VERSION] keep must be a positive integer, got ${keep}`);
+    }
+
+    const releaseLock = acquireOutputLock(outputDir);
+
+    try {
+        const versions = listVersions(outputDir);
+        const latest = readLatestVersion(outputDir);
+        const tags = readTags(outputDir);
+        const result: PruneResult = { removed: [], kept: {}, deletedObjects: 0 };
+
+        versions.forEach((version, index) => {
+            const { minor, patch } = parseVersion(version);
+            const tagged = tagsOf(tags, version);
+
+            if (version === latest) {
+                result.kept[version] = 'latest';
+            } else if (tagged.length > 0) {
+                result.kept[version] = `tagged ${tagged.join(', ')}`;
+            } else if (minor === 0 && patch === 0) {
+                result.kept[version] = 'major release';
+            } else if (index >= versions.length - keep) {
+                result.kept[version] = `${keep} newest`;
+            } else {
+                result.removed.push(version);
+            }
+        });
+
+        if (options.dryRun || result.removed.length === 0) {
+            return result;
+        }
+
+        for (const version of result.removed) {
+            // Rename first so the version disappears at once; a crash leaves a staging directory
+            const doomed = path.join(outputDir, `.${version}-pruned`);
+            fs.renameSync(path.join(outputDir, version), doomed);
+            fs.rmSync(doomed, { recursive: true, force: true });
+            activeLogger().log(chalk.yellow(`[VERSION] Pruned ${version}`));
+        }
+
+        result.deletedObjects = collectGarbage(outputDir);
+        appendHistory(outputDir, { action: 'prune', removed: result.removed });
+
+        return result;
+    } finally {
+        releaseLock();
+    }
+}
+
+/**
+ * Tag a version - tagged versions are never pruned
+ * CRASHES on an invalid tag or unpublished version
+ */
+export function tagVersion(version: string, tag: string, outputDir: string = 'output/aws'): void {
+    if (!TAG_PATTERN.test(tag)) {
+        throw new Error(`[VERSION] Invalid tag "${tag}" (letters, digits, ".", "_" and "-")`);
+    }
+
+    const releaseLock = acquireOutputLock(outputDir);
+
+    try {
+        assertPublished(outputDir, version);
+
+        const tags = readTags(outputDir);
+        const previous = tags[tag];
+        tags[tag] = version;
+
+        writeJsonAtomic(path.join(outputDir, TAGS_FILE), { tags });
+        appendHistory(outputDir, { action: 'tag', version, tag });
+
+        activeLogger().log(chalk.green(`[VERSION] Tagged ${version} as ${tag}${previous && previous !== version ? ` (was ${previous})` : ''}`));
+    } finally {
+        releaseLock();
+    }
+}
+
+/**
+ * Remove a tag
+ * CRASHES if the tag does not exist
+ */
+export function untagVersion(tag: string, outputDir: string = 'output/aws'): void {
+    const releaseLock = acquireOutputLock(outputDir);
+
+    try {
+        const tags = readTags(outputDir);
+        const version = tags[tag];
+
+        if (!version) {
+            throw new Error(`[VERSION] Tag not found: ${tag}`);
+        }
+
+        delete tags[tag];
+
+        writeJsonAtomic(path.join(outputDir, TAGS_FILE), { tags });
+        appendHistory(outputDir, { action: 'untag', version, tag });
+
+        activeLogger().log(chalk.green(`[VERSION] Removed tag ${tag} from ${version}`));
+    } finally {
+        releaseLock();
+    }
+}
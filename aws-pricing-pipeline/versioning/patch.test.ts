@@ -0,0 +1,187 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it } from '@jest/globals';
+import { PatchOperation, applyPatch, applyVerifiedPatch, createPatch, documentHash, verifyPatches, writePatches } from './patch.js';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'patch-'));
+
+afterAll(() => fs.rmSync(tempDir, { recursive: true, force: true }));
+
+const PREVIOUS = {
+    service: 's3',
+    region: 'us-east-1',
+    currency: 'USD',
+    version: 'v1.0.0',
+    lastUpdated: '2024-06-01T00:00:00.000Z',
+    components: {
+        storage: {
+            standard: [
+                { upTo: 51200, rate: 0.023, unit: 'gb_month' },
+                { upTo: 'Infinity', rate: 0.022, unit: 'gb_month' },
+            ],
+            glacier: { rate: 0.0036, unit: 'gb_month' },
+        },
+        regions: ['us-east-1', 'us-east-2'],
+    },
+};
+
+function withComponents(components: Record<string, unknown>, changes: Record<string, unknown> = {}) {
+    return {
+        ...PREVIOUS,
+        version: 'v1.1.0',
+        lastUpdated: '2024-07-01T00:00:00.000Z',
+        ...changes,
+        components: { ...PREVIOUS.components, ...components },
+    };
+}
+
+const describeOps = (operations: PatchOperation[]) => operations.map(op => `${op.op} ${op.path}`);
+
+describe('createPatch', () => {
+    it('round-trips a rate change and the volatile fields', () => {
+        const next = withComponents({ storage: { ...PREVIOUS.components.storage, glacier: { rate: 0.004, unit: 'gb_month' } } });
+        const operations = createPatch(PREVIOUS, next, 's3');
+
+        expect(describeOps(operations).sort()).toEqual([
+            'replace /components/storage/glacier/rate',
+            'replace /lastUpdated',
+            'replace /version',
+        ]);
+        expect(applyPatch(PREVIOUS, operations)).toEqual(next);
+    });
+
+    it('adds an inserted tier instead of rewriting the tiers after it', () => {
+        const next = withComponents({
+            storage: {
+                ...PREVIOUS.components.storage,
+                standard: [
+                    { upTo: 51200, rate: 0.023, unit: 'gb_month' },
+                    { upTo: 512000, rate: 0.022, unit: 'gb_month' },
+                    { upTo: 'Infinity', rate: 0.021, unit: 'gb_month' },
+                ],
+            },
+        });
+        const operations = createPatch(PREVIOUS, next, 's3');
+
+        expect(describeOps(operations)).toContain('add /components/storage/standard/1');
+        expect(describeOps(operations)).toContain('replace /components/storage/standard/2/rate');
+        expect(applyPatch(PREVIOUS, operations)).toEqual(next);
+    });
+
+    it('removes a component', () => {
+        const { glacier: _glacier, ...storage } = PREVIOUS.components.storage;
+        const next = withComponents({ storage });
+        const operations = createPatch(PREVIOUS, next, 's3');
+
+        expect(describeOps(operations)).toContain('remove /components/storage/glacier');
+        expect(applyPatch(PREVIOUS, operations)).toEqual(next);
+    });
+
+    it('replaces a resized array once, without also patching its elements', () => {
+        for (const regions of [['eu-west-1', 'us-east-2', 'us-west-2'], ['eu-west-1']]) {
+            const next = withComponents({ regions });
+            const operations = createPatch(PREVIOUS, next, 's3');
+            const arrayOps = operations.filter(op => op.path.startsWith('/components/regions'));
+
+            expect(arrayOps).toEqual([{ op: 'replace', path: '/components/regions', value: regions }]);
+            expect(applyPatch(PREVIOUS, operations)).toEqual(next);
+        }
+    });
+
+    it('patches the elements of an array that keeps its length', () => {
+        const next = withComponents({ regions: ['us-east-1', 'us-west-2'] });
+        const operations = createPatch(PREVIOUS, next, 's3');
+
+        expect(operations.filter(op => op.path.startsWith('/components/regions')))
+            .toEqual([{ op: 'replace', path: '/components/regions/1', value: 'us-west-2' }]);
+        expect(applyPatch(PREVIOUS, operations)).toEqual(next);
+    });
+
+    it('is empty for identical documents', () => {
+        expect(createPatch(PREVIOUS, structuredClone(PREVIOUS), 's3')).toEqual([]);
+    });
+});
+
+describe('applyPatch', () => {
+    it('applies every RFC 6902 operation without changing its input', () => {
+        const document = { a: { b: 1 }, list: [1, 2, 3] };
+        const patched = applyPatch(document, [
+            { op: 'test', path: '/a/b', value: 1 },
+            { op: 'copy', from: '/a', path: '/copied' },
+            { op: 'move', from: '/a/b', path: '/moved' },
+            { op: 'add', path: '/list/-', value: 4 },
+            { op: 'add', path: '/list/0', value: 0 },
+            { op: 'remove', path: '/list/2' },
+            { op: 'replace', path: '/list/0', value: -1 },
+            { op: 'add', path: '/a~1b', value: 'escaped' },
+        ]);
+
+        expect(patched).toEqual({ a: {}, copied: { b: 1 }, moved: 1, list: [-1, 1, 3, 4], 'a/b': 'escaped' });
+        expect(document).toEqual({ a: { b: 1 }, list: [1, 2, 3] });
+    });
+
+    it('crashes on an operation that does not apply', () => {
+        const document = { a: 1, list: [1] };
+
+        expect(() => applyPatch(document, [{ op: 'test', path: '/a', value: 2 }])).toThrow('[PATCH FAILED] Test failed at /a');
+        expect(() => applyPatch(document, [{ op: 'replace', path: '/b', value: 2 }])).toThrow('[PATCH FAILED] Path not found: /b');
+        expect(() => applyPatch(document, [{ op: 'remove', path: '/list/1' }])).toThrow('[PATCH FAILED] Invalid array index: /list/1');
+        expect(() => applyPatch(document, [{ op: 'remove', path: '' }])).toThrow('[PATCH FAILED] Cannot remove the whole document');
+    });
+});
+
+describe('applyVerifiedPatch', () => {
+    const next = withComponents({ regions: ['us-east-1'] });
+    const operations = createPatch(PREVIOUS, next, 's3');
+    const hashes = { fromHash: documentHash(PREVIOUS), toHash: documentHash(next) };
+
+    it('returns the published document', () => {
+        expect(applyVerifiedPatch(PREVIOUS, operations, hashes)).toEqual(next);
+    });
+
+    it('crashes on a document the patch was not made for', () => {
+        expect(() => applyVerifiedPatch(next, operations, hashes)).toThrow("[PATCH FAILED] Document does not match the patch's source");
+    });
+
+    it('crashes when the result is not the published document', () => {
+        expect(() => applyVerifiedPatch(PREVIOUS, operations.slice(1), hashes)).toThrow('does not match the published');
+    });
+});
+
+describe('verifyPatches', () => {
+    function writeServiceFile(version: string, document: unknown): void {
+        const serviceDir = path.join(tempDir, version, 'services', 's3');
+        fs.mkdirSync(serviceDir, { recursive: true });
+        fs.writeFileSync(path.join(serviceDir, 'us-east-1.json'), JSON.stringify(document, null, 2));
+    }
+
+    const next = withComponents({ regions: ['us-east-1', 'eu-west-1', 'us-east-2'] });
+
+    beforeAll(() => {
+        writeServiceFile('v1.0.0', PREVIOUS);
+        writeServiceFile('v1.1.0', next);
+    });
+
+    it('applies each patch to the previous version and checks the published file', () => {
+        writePatches(path.join(tempDir, 'v1.1.0'), { from: 'v1.0.0', to: 'v1.1.0', patches: {} }, [{
+            service: 's3',
+            region: 'us-east-1',
+            operations: createPatch(PREVIOUS, next, 's3'),
+            fromHash: documentHash(PREVIOUS),
+            toHash: documentHash(next),
+        }]);
+
+        expect(verifyPatches(tempDir, 'v1.1.0')).toBe(1);
+    });
+
+    it('crashes on a patch that does not reproduce the published file', () => {
+        fs.writeFileSync(path.join(tempDir, 'v1.1.0', 'patches', 's3', 'us-east-1.json'), JSON.stringify([]));
+
+        expect(() => verifyPatches(tempDir, 'v1.1.0')).toThrow('[PATCH FAILED]');
+    });
+
+    it('crashes on a version without patches', () => {
+        expect(() => verifyPatches(tempDir, 'v1.0.0')).toThrow('[PATCH FAILED] v1.0.0 has no patches');
+    });
+});
@@ -0,0 +1,373 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import chalk from 'chalk';
+import { deepSortObject } from '../utils/deterministic.js';
+import { DiffOptions, LocatedChange, VOLATILE_FIELDS, locateChanges } from './diff.js';
+import { readServiceFile } from './store.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * JSON Patch deltas (RFC 6902)
+ * Every version carries one patch per service region that also existed in the previous
+ * version: patches/<service>/<region>.json turns the previous file into this version's.
+ * Operations come from the diff engine's own comparison (tiers matched by boundary),
+ * so an inserted tier is one "add", not a rewrite of every later tier.
+ *
+ * patches/index.json lists the SHA-256 of both documents (documentHash) so a client
+ * can check it patches the file it has, and that the result is the published file.
+ */
+
+export type PatchOperation =
+    | { op: 'add' | 'replace' | 'test'; path: string; value: unknown }
+    | { op: 'remove'; path: string }
+    | { op: 'move' | 'copy'; from: string; path: string };
+
+export interface PatchIndex {
+    from: string;
+    to: string;
+    /** "<service>/<region>" → hashes of the documents before and after */
+    patches: Record<string, { fromHash: string; toHash: string; operations: number }>;
+}
+
+const PATCHES_DIR = 'patches';
+const INDEX_FILE = 'index.json';
+
+/**
+ * SHA-256 of a document's deterministic JSON - the bytes of a published file
+ */
+export function documentHash(document: unknown): string {
+    return crypto.createHash('sha256').update(JSON.stringify(deepSortObject(document), null, 2)).digest('hex');
+}
+
+function escapePointer(segment: string): string {
+    return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function parsePointer(pointer: string): string[] {
+    if (pointer === '') return [];
+    if (!pointer.startsWith('/')) {
+        throw new Error(`[PATCH FAILED] Invalid JSON pointer: ${pointer}`);
+    }
+    return pointer.slice(1).split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function clone<T>(value: T): T {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Parent container and final key of a pointer
+ * CRASHES if the parent does not exist
+ */
+function locate(document: any, pointer: string): { parent: any; key: string } {
+    const segments = parsePointer(pointer);
+    const key = segments.pop()!;
+    let parent = document;
+
+    for (const segment of segments) {
+        if (parent === null || typeof parent !== 'object' || !(segment in parent)) {
+            throw new Error(`[PATCH FAILED] Path not found: ${pointer}`);
+        }
+        parent = parent[segment];
+    }
+
+    if (parent === null || typeof parent !== 'object') {
+        throw new Error(`[PATCH FAILED] Path not found: ${pointer}`);
+    }
+
+    return { parent, key };
+}
+
+function arrayIndex(array: unknown[], key: string, pointer: string, allowEnd: boolean): number {
+    const index = key === '-' && allowEnd ? array.length : Number(key);
+
+    if (!/^(0|[1-9]\d*|-)$/.test(key) || index > (allowEnd ? array.length : array.length - 1)) {
+        throw new Error(`[PATCH FAILED] Invalid array index: ${pointer}`);
+    }
+
+    return index;
+}
+
+function valueAt(document: any, pointer: string): unknown {
+    if (pointer === '') return document;
+
+    const { parent, key } = locate(document, pointer);
+    if (Array.isArray(parent)) return parent[arrayIndex(parent, key, pointer, false)];
+    if (!(key in parent)) throw new Error(`[PATCH FAILED] Path not found: ${pointer}`);
+    return parent[key];
+}
+
+/**
+ * Apply one operation in place; returns the document (replaced when the path is "")
+ */
+function applyOperation(document: any, operation: PatchOperation): any {
+    switch (operation.op) {
+        case 'test':
+            if (documentHash(valueAt(document, operation.path)) !== documentHash(operation.value)) {
+                throw new Error(`[PATCH FAILED] Test failed at ${operation.path}`);
+            }
+            return document;
+
+        case 'move':
+        case 'copy': {
+            const value = clone(valueAt(document, operation.from));
+            const moved = operation.op === 'move' ? applyOperation(document, { op: 'remove', path: operation.from }) : document;
+            return applyOperation(moved, { op: 'add', path: operation.path, value });
+        }
+
+        case 'remove':
+        case 'add':
+        case 'replace': {
+            if (operation.path === '') {
+                if (operation.op === 'remove') throw new Error('[PATCH FAILED] Cannot remove the whole document');
+                return clone(operation.value);
+            }
+
+            const { parent, key } = locate(document, operation.path);
+
+            if (Array.isArray(parent)) {
+                const index = arrayIndex(parent, key, operation.path, operation.op === 'add');
+                if (operation.op === 'add') parent.splice(index, 0, clone(operation.value));
+                else if (operation.op === 'replace') parent[index] = clone(operation.value);
+                else parent.splice(index, 1);
+                return document;
+            }
+
+            if (operation.op !== 'add' && !(key in parent)) {
+                throw new Error(`[PATCH FAILED] Path not found: ${operation.path}`);
+            }
+
+            if (operation.op === 'remove') delete parent[key];
+            else parent[key] = clone(operation.value);
+            return document;
+        }
+    }
+}
+
+/**
+ * Apply a JSON Patch to a copy of a document
+ * CRASHES on an operation that does not apply
+ */
+export function applyPatch<T>(document: T, operations: PatchOperation[]): T {
+    return operations.reduce((current, operation) => applyOperation(current, operation), clone(document));
+}
+
+/**
+ * Apply a patch and check the result is the published document
+ * CRASHES if the input or result hash does not match
+ */
+export function applyVerifiedPatch<T>(document: T, operations: PatchOperation[], hashes: { fromHash: string; toHash: string }): T {
+    if (documentHash(document) !== hashes.fromHash) {
+        throw new Error(`[PATCH FAILED] Document does not match the patch's source (expected ${hashes.fromHash})`);
+    }
+
+    const patched = applyPatch(document, operations);
+    const hash = documentHash(patched);
+
+    if (hash !== hashes.toHash) {
+        throw new Error(`[PATCH FAILED] Patched document hash ${hash} does not match the published ${hashes.toHash}`);
+    }
+
+    return patched;
+}
+
+/**
+ * Resolve diff segments to JSON pointer keys in a document - tier segments ("upTo=10240")
+ * become the tier's index. Returns null below the first missing key; an absent last
+ * tier resolves to its insertion index (missing: true)
+ */
+function resolveSegments(document: any, segments: string[]): { keys: string[]; missing: boolean } | null {
+    const keys: string[] = [];
+    let node = document;
+
+    for (const [i, segment] of segments.entries()) {
+        const last = i === segments.length - 1;
+
+        if (node === null || typeof node !== 'object') return null;
+
+        if (Array.isArray(node) && segment.startsWith('upTo=')) {
+            const boundary = segment.slice('upTo='.length);
+            const index = node.findIndex(tier => String(tier?.upTo) === boundary);
+
+            if (index === -1) {
+                if (!last) return null;
+                const order = (upTo: unknown) => upTo === 'Infinity' ? Infinity : Number(upTo);
+                const position = node.filter(tier => order(tier?.upTo) < order(boundary)).length;
+                return { keys: [...keys, String(position)], missing: true };
+            }
+
+            keys.push(String(index));
+            node = node[index];
+            continue;
+        }
+
+        if (!(segment in node)) {
+            return last ? { keys: [...keys, segment], missing: true } : null;
+        }
+
+        keys.push(segment);
+        node = node[segment];
+    }
+
+    return { keys, missing: false };
+}
+
+const toPointer = (keys: string[]) => keys.map(key => `/${escapePointer(key)}`).join('');
+
+const hasPrefix = (segments: string[], prefix: string[]) => prefix.every((segment, i) => segments[i] === segment);
+
+/**
+ * Diff segments of the index-matched arrays an entry is inserted into or removed from -
+ * later entries shift, so these arrays are replaced whole. Outermost arrays only
+ */
+function arraysToReplace(oldData: any, newData: any, changes: LocatedChange[]): string[][] {
+    const arrays: string[][] = [];
+
+    for (const { segments } of changes) {
+        const isTier = segments[segments.length - 1]?.startsWith('upTo=') ?? false;
+        const current = resolveSegments(oldData, segments);
+        const target = resolveSegments(newData, segments);
+
+        if (isTier || !current) continue;
+
+        const parent = valueAt(oldData, toPointer(current.keys.slice(0, -1)));
+        const present = target !== null && !target.missing;
+
+        if (Array.isArray(parent) && (!present || current.missing)) {
+            arrays.push(segments.slice(0, -1));
+        }
+    }
+
+    return arrays.filter(array => !arrays.some(other => other.length < array.length && hasPrefix(array, other)));
+}
+
+/**
+ * JSON Patch from one published document to the next
+ * Each change is either one operation on its value or part of its array's replacement, never both
+ * CRASHES if the operations do not reproduce newData exactly
+ */
+export function createPatch(oldData: any, newData: any, service: string, options: DiffOptions = {}): PatchOperation[] {
+    const operations: PatchOperation[] = [];
+    let working = clone(oldData);
+
+    const emit = (operation: PatchOperation) => {
+        working = applyOperation(working, operation);
+        operations.push(operation);
+    };
+
+    const changes = locateChanges(oldData, newData, service, options);
+    const replacedArrays = arraysToReplace(oldData, newData, changes);
+    const emittedArrays = new Set<string[]>();
+
+    for (const { segments } of changes) {
+        const array = replacedArrays.find(prefix => hasPrefix(segments, prefix));
+
+        if (array) {
+            if (!emittedArrays.has(array)) {
+                const current = resolveSegments(working, array);
+                const target = resolveSegments(newData, array);
+                emit({ op: 'replace', path: toPointer(current!.keys), value: valueAt(newData, toPointer(target!.keys)) });
+                emittedArrays.add(array);
+            }
+            continue;
+        }
+
+        const target = resolveSegments(newData, segments);
+        const current = resolveSegments(working, segments);
+
+        if (!current) {
+            throw new Error(`[PATCH FAILED] ${service}: cannot locate ${segments.join('.')} in the previous document`);
+        }
+
+        if (target === null || target.missing) {
+            emit({ op: 'remove', path: toPointer(current.keys) });
+        } else {
+            const value = valueAt(newData, toPointer(target.keys));
+            emit({ op: current.missing ? 'add' : 'replace', path: toPointer(current.keys), value });
+        }
+    }
+
+    // Volatile fields are not diffed but are part of the published file
+    for (const field of VOLATILE_FIELDS) {
+        if (!(field in newData)) {
+            if (field in working) emit({ op: 'remove', path: `/${field}` });
+        } else if (documentHash(working[field]) !== documentHash(newData[field])) {
+            emit({ op: field in working ? 'replace' : 'add', path: `/${field}`, value: newData[field] });
+        }
+    }
+
+    if (documentHash(working) !== documentHash(newData)) {
+        throw new Error(`[PATCH FAILED] ${service}: patch does not reproduce the new document`);
+    }
+
+    return operations;
+}
+
+/**
+ * Write patches/<service>/<region>.json and patches/index.json into a version directory
+ */
+export function writePatches(
+    versionDir: string,
+    index: PatchIndex,
+    patches: Array<{ service: string; region: string; operations: PatchOperation[]; fromHash: string; toHash: string }>
+): void {
+    for (const patch of patches) {
+        const serviceDir = path.join(versionDir, PATCHES_DIR, patch.service);
+        fs.mkdirSync(serviceDir, { recursive: true });
+        fs.writeFileSync(path.join(serviceDir, `${patch.region}.json`), JSON.stringify(patch.operations, null, 2));
+
+        index.patches[`${patch.service}/${patch.region}`] = {
+            fromHash: patch.fromHash,
+            toHash: patch.toHash,
+            operations: patch.operations.length,
+        };
+    }
+
+    fs.mkdirSync(path.join(versionDir, PATCHES_DIR), { recursive: true });
+    fs.writeFileSync(path.join(versionDir, PATCHES_DIR, INDEX_FILE), JSON.stringify(deepSortObject(index), null, 2));
+    activeLogger().log(chalk.green(`[WRITE] ${path.join(versionDir, PATCHES_DIR)}/: ${patches.length} patches from ${index.from}`));
+}
+
+/**
+ * Patch index of a version, null if it has none (first version, or published before patches)
+ */
+export function readPatchIndex(outputDir: string, version: string): PatchIndex | null {
+    const indexPath = path.join(outputDir, version, PATCHES_DIR, INDEX_FILE);
+    return fs.existsSync(indexPath) ? JSON.parse(fs.readFileSync(indexPath, 'utf-8')) : null;
+}
+
+/**
+ * Apply every patch of a version to the previous version's files and check the results
+ * against the published files. Returns the number of verified patches
+ * CRASHES on the first patch that does not verify
+ */
+export function verifyPatches(outputDir: string, version: string): number {
+    const index = readPatchIndex(outputDir, version);
+
+    if (!index) {
+        throw new Error(`[PATCH FAILED] ${version} has no patches`);
+    }
+
+    for (const [key, hashes] of Object.entries(index.patches)) {
+        const [service, region] = key.split('/') as [string, string];
+        const operations: PatchOperation[] = JSON.parse(
+            fs.readFileSync(path.join(outputDir, version, PATCHES_DIR, service, `${region}.json`), 'utf-8')
+        );
+
+        const previous = readServiceFile(outputDir, index.from, service, region);
+        const published = readServiceFile(outputDir, version, service, region);
+
+        if (!previous || !published) {
+            throw new Error(`[PATCH FAILED] ${key}: missing in ${previous ? version : index.from}`);
+        }
+        if (documentHash(published) !== hashes.toHash) {
+            throw new Error(`[PATCH FAILED] ${key}: published file does not match the index hash`);
+        }
+
+        applyVerifiedPatch(previous, operations, hashes);
+        activeLogger().log(chalk.green(`[PATCH] ${key}: ${operations.length} operations verified`));
+    }
+
+    return Object.keys(index.patches).length;
+}
@@ -0,0 +1,164 @@
+import { z, ZodTypeAny } from 'zod';
+import { BumpType } from './diff.js';
+
+/**
+ * Semantic versioning policy
+ * Classifies every diff change by what it means to a consumer, using the shape
+ * of the service's Zod schema, and maps each kind of change to a bump:
+ *
+ * - entryAdded / entryRemoved: a key of a z.record collection (or an array element)
+ *   appeared or disappeared - e.g. a new instance type
+ * - fieldAdded / fieldRemoved: a z.object field appeared or disappeared
+ * - typeChanged: a value changed shape (e.g. flat rate → tiers)
+ * - priceIncrease / priceDecrease: a "rate" changed
+ * - valueChanged: any other number changed (e.g. a tier boundary)
+ * - metadataChanged: any other value changed (e.g. a unit)
+ *
+ * Plugins override the default rules per output path (versionRules).
+ */
+
+export type ChangeKind =
+    | 'entryAdded'
+    | 'entryRemoved'
+    | 'fieldAdded'
+    | 'fieldRemoved'
+    | 'typeChanged'
+    | 'priceIncrease'
+    | 'priceDecrease'
+    | 'valueChanged'
+    | 'metadataChanged';
+
+export type VersionRules = Record<ChangeKind, BumpType>;
+
+/**
+ * Consumers pin on major versions: only removals and shape changes break them
+ */
+export const DEFAULT_VERSION_RULES: VersionRules = {
+    entryAdded: 'minor',
+    entryRemoved: 'major',
+    fieldAdded: 'minor',
+    fieldRemoved: 'major',
+    typeChanged: 'major',
+    priceIncrease: 'minor',
+    priceDecrease: 'minor',
+    valueChanged: 'minor',
+    metadataChanged: 'patch',
+};
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+    entryAdded: 'Entry added',
+    entryRemoved: 'Entry removed',
+    fieldAdded: 'Field added',
+    fieldRemoved: 'Field removed',
+    typeChanged: 'Type changed',
+    priceIncrease: 'Price increase',
+    priceDecrease: 'Price decrease',
+    valueChanged: 'Value changed',
+    metadataChanged: 'Metadata change',
+};
+
+/**
+ * Rule override for part of a service's output
+ */
+export interface VersionRuleOverride {
+    /**
+     * Dotted path pattern relative to the service output (e.g. "components.instances.*")
+     * "*" matches one key, "**" any number of keys; the last matching override wins
+     */
+    path: string;
+    rules: Partial<VersionRules>;
+}
+
+export const BUMP_PRIORITY: Record<BumpType, number> = { major: 3, minor: 2, patch: 1 };
+
+/**
+ * Highest priority bump of a list (patch if empty)
+ */
+export function maxBump(bumps: BumpType[]): BumpType {
+    return bumps.reduce((max: BumpType, bump) => BUMP_PRIORITY[bump] > BUMP_PRIORITY[max] ? bump : max, 'patch');
+}
+
+/**
+ * Whether keys below the service output root match a dotted path pattern
+ */
+export function matchesPath(pattern: string[], segments: string[]): boolean {
+    const [head, ...rest] = pattern;
+
+    if (head === undefined) return segments.length === 0;
+    if (head === '**') {
+        return segments.some((_, i) => matchesPath(rest, segments.slice(i))) || matchesPath(rest, []);
+    }
+
+    const [segment, ...remaining] = segments;
+    return segment !== undefined && (head === '*' || head === segment) && matchesPath(rest, remaining);
+}
+
+/**
+ * Bump for one change at a path (keys relative to the service output)
+ */
+export function bumpFor(kind: ChangeKind, segments: string[], overrides: VersionRuleOverride[] = []): BumpType {
+    let bump = DEFAULT_VERSION_RULES[kind];
+
+    for (const override of overrides) {
+        const rule = override.rules[kind];
+        if (rule && matchesPath(override.path.split('.'), segments)) {
+            bump = rule;
+        }
+    }
+
+    return bump;
+}
+
+/**
+ * Strip wrappers that do not change the shape of a value
+ */
+function unwrap(schema: ZodTypeAny | undefined): ZodTypeAny | undefined {
+    let current = schema;
+
+    while (current) {
+        if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+            current = current.unwrap();
+        } else if (current instanceof z.ZodDefault) {
+            current = current.removeDefault();
+        } else if (current instanceof z.ZodEffects) {
+            current = current.innerType();
+        } else if (current instanceof z.ZodLazy) {
+            current = current.schema;
+        } else {
+            return current;
+        }
+    }
+
+    return current;
+}
+
+/**
+ * Schema of a value - for unions, the option the value matches
+ */
+export function resolveSchema(schema: ZodTypeAny | undefined, value: unknown): ZodTypeAny | undefined {
+    const base = unwrap(schema);
+
+    if (base instanceof z.ZodUnion || base instanceof z.ZodDiscriminatedUnion) {
+        const options: ZodTypeAny[] = Array.from(base.options);
+        return resolveSchema(options.find(option => option.safeParse(value).success), value);
+    }
+
+    return base;
+}
+
+/**
+ * Whether the keys of a value are collection entries rather than fields
+ */
+export function isCollection(schema: ZodTypeAny | undefined): boolean {
+    return schema instanceof z.ZodRecord || schema instanceof z.ZodArray;
+}
+
+/**
+ * Schema of one key of a resolved object, record or array schema
+ */
+export function childSchema(schema: ZodTypeAny | undefined, key: string): ZodTypeAny | undefined {
+    if (schema instanceof z.ZodObject) return schema.shape[key];
+    if (schema instanceof z.ZodRecord) return schema.valueSchema;
+    if (schema instanceof z.ZodArray) return schema.element;
+    return undefined;
+}
@@ -0,0 +1,259 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import chalk from 'chalk';
+import { deepSortObject } from '../utils/deterministic.js';
+import { listVersions } from './bump.js';
+import { activeLogger } from '../utils/logger.js';
+
+/**
+ * Content-addressed object store
+ * Service and lineage files are stored once in <outputDir>/objects/<ab>/<sha256>.json, keyed by
+ * the hash of their deterministic JSON. A version directory holds manifest.json instead:
+ * file path within the version (e.g. services/ec2/us-east-1.json) → object hash.
+ *
+ * Objects omit the version field - it would make every file of every version unique.
+ * Readers inject it from the manifest into service files, so a file read or materialized from
+ * the store is identical to the plain file earlier versions hold. Versions without a manifest
+ * (published before the store) are read as plain directories; materializeVersion writes any
+ * version out as one on demand.
+ */
+
+const OBJECTS_DIR = 'objects';
+const MANIFEST_FILE = 'manifest.json';
+
+export interface VersionManifest {
+    version: string;
+    /** Path within the version → object hash */
+    files: Record<string, string>;
+}
+
+/**
+ * Start the manifest of a new version
+ */
+export function createManifest(version: string): VersionManifest {
+    return { version, files: {} };
+}
+
+function objectPath(outputDir: string, hash: string): string {
+    return path.join(outputDir, OBJECTS_DIR, hash.slice(0, 2), `${hash}.json`);
+}
+
+/**
+ * Deterministic JSON of a version file, without its version field
+ */
+function objectContent(data: Record<string, unknown>): string {
+    const { version: _version, ...content } = data;
+    return JSON.stringify(deepSortObject(content), null, 2);
+}
+
+/**
+ * Store one file of a new version and add it to the manifest
+ * Identical content is stored once; returns whether the object was new
+ */
+export function writeVersionFile(
+    outputDir: string,
+    manifest: VersionManifest,
+    filePath: string,
+    data: Record<string, unknown>
+): boolean {
+    const content = objectContent(data);
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const target = objectPath(outputDir, hash);
+
+    manifest.files[filePath] = hash;
+
+    if (fs.existsSync(target)) {
+        return false;
+    }
+
+    // Rename into place so a crash never leaves a partial object under its hash
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    const tempPath = `${target}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, target);
+
+    return true;
+}
+
+/**
+ * Write manifest.json into a version directory
+ */
+export function writeManifest(versionDir: string, manifest: VersionManifest): void {
+    const sorted = { version: manifest.version, files: deepSortObject(manifest.files) };
+    fs.writeFileSync(path.join(versionDir, MANIFEST_FILE), JSON.stringify(sorted, null, 2));
+}
+
+/**
+ * Manifest of a version ("v1.2.0" or "latest"), null for plain directories
+ */
+export function readManifest(outputDir: string, version: string): VersionManifest | null {
+    const manifestPath = path.join(outputDir, version, MANIFEST_FILE);
+    return fs.existsSync(manifestPath) ? JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) : null;
+}
+
+/**
+ * Every file path of a plain version directory below services/ and lineage/
+ */
+function plainFilePaths(versionDir: string): string[] {
+    const paths: string[] = [];
+
+    for (const root of ['services', 'lineage']) {
+        const rootDir = path.join(versionDir, root);
+        if (!fs.existsSync(rootDir)) continue;
+
+        for (const service of fs.readdirSync(rootDir)) {
+            for (const file of fs.readdirSync(path.join(rootDir, service)).filter(f => f.endsWith('.json'))) {
+                paths.push(`${root}/${service}/${file}`);
+            }
+        }
+    }
+
+    return paths.sort();
+}
+
+/**
+ * Paths of every service and lineage file of a version
+ */
+export function listVersionFiles(outputDir: string, version: string): string[] {
+    const manifest = readManifest(outputDir, version);
+    return manifest ? Object.keys(manifest.files).sort() : plainFilePaths(path.join(outputDir, version));
+}
+
+/**
+ * Read one file of a version, null if the version does not have it
+ */
+export function readVersionFile(outputDir: string, version: string, filePath: string): any | null {
+    const manifest = readManifest(outputDir, version);
+
+    if (!manifest) {
+        const plainPath = path.join(outputDir, version, filePath);
+        return fs.existsSync(plainPath) ? JSON.parse(fs.readFileSync(plainPath, 'utf-8')) : null;
+    }
+
+    const hash = manifest.files[filePath];
+    if (!hash) return null;
+
+    const target = objectPath(outputDir, hash);
+    if (!fs.existsSync(target)) {
+        throw new Error(`[STORE] Object ${hash} of ${version}/${filePath} is missing from ${path.join(outputDir, OBJECTS_DIR)}`);
+    }
+
+    const content = JSON.parse(fs.readFileSync(target, 'utf-8'));
+
+    // Only service files carry a version - lineage files never had one
+    return filePath.startsWith('services/') ? { ...content, version: manifest.version } : content;
+}
+
+/**
+ * Service ids of a version
+ */
+export function listVersionServices(outputDir: string, version: string): string[] {
+    const services = listVersionFiles(outputDir, version)
+        .filter(file => file.startsWith('services/'))
+        .map(file => file.split('/')[1]!);
+
+    return Array.from(new Set(services)).sort();
+}
+
+/**
+ * Regions of one service in a version
+ */
+export function listServiceRegions(outputDir: string, version: string, service: string): string[] {
+    const prefix = `services/${service}/`;
+
+    return listVersionFiles(outputDir, version)
+        .filter(file => file.startsWith(prefix) && !file.slice(prefix.length).includes('/'))
+        .map(file => file.slice(prefix.length, -'.json'.length))
+        .sort();
+}
+
+/**
+ * Pricing data of one service region in a version, null if absent
+ */
+export function readServiceFile(outputDir: string, version: string, service: string, region: string): any | null {
+    return readVersionFile(outputDir, version, `services/${service}/${region}.json`);
+}
+
+function copyDirectory(src: string, dest: string, skip: (name: string) => boolean): void {
+    fs.mkdirSync(dest, { recursive: true });
+
+    for (const entry of fs.readdirSync(src, { withFileTypes: true })) {
+        if (skip(entry.name)) continue;
+
+        const srcPath = path.join(src, entry.name);
+        const destPath = path.join(dest, entry.name);
+
+        if (entry.isDirectory()) {
+            copyDirectory(srcPath, destPath, () => false);
+        } else {
+            fs.copyFileSync(srcPath, destPath);
+        }
+    }
+}
+
+/**
+ * Write a version ("v1.2.0" or "latest") as a plain directory: metadata, diff reports
+ * and every service and lineage file, as published before the object store
+ * CRASHES if the version does not exist or the target directory does
+ */
+export function materializeVersion(outputDir: string, version: string, targetDir: string): void {
+    const versionDir = path.join(outputDir, version);
+
+    if (!fs.existsSync(versionDir)) {
+        throw new Error(`[STORE] Version not found: ${versionDir}`);
+    }
+    if (fs.existsSync(targetDir)) {
+        throw new Error(`[STORE] Target directory already exists: ${targetDir}`);
+    }
+
+    copyDirectory(versionDir, targetDir, name => name === MANIFEST_FILE);
+
+    const manifest = readManifest(outputDir, version);
+    for (const filePath of Object.keys(manifest?.files ?? {})) {
+        const target = path.join(targetDir, filePath);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, JSON.stringify(deepSortObject(readVersionFile(outputDir, version, filePath)), null, 2));
+    }
+
+    activeLogger().log(chalk.green(`[STORE] Materialized ${version} into ${targetDir}`));
+}
+
+/**
+ * Delete objects no version references - after pruning, or left by a crashed run
+ * Call only while holding the output lock. Returns the number of deleted objects
+ */
+export function collectGarbage(outputDir: string): number {
+    const objectsDir = path.join(outputDir, OBJECTS_DIR);
+
+    if (!fs.existsSync(objectsDir)) {
+        return 0;
+    }
+
+    const referenced = new Set(listVersions(outputDir).flatMap(version =>
+        Object.values(readManifest(outputDir, version)?.files ?? {})
+    ));
+
+    let deleted = 0;
+
+    for (const prefix of fs.readdirSync(objectsDir)) {
+        const prefixDir = path.join(objectsDir, prefix);
+
+        for (const file of fs.readdirSync(prefixDir)) {
+            if (!referenced.has(file.replace(/\.json$/, ''))) {
+                fs.rmSync(path.join(prefixDir, file), { force: true });
+                deleted++;
+            }
+        }
+
+        if (fs.readdirSync(prefixDir).length === 0) {
+            fs.rmdirSync(prefixDir);
+        }
+    }
+
+    if (deleted > 0) {
+        activeLogger().log(chalk.yellow(`[STORE] Deleted ${deleted} unreferenced objects`));
+    }
+
+    return deleted;
+}